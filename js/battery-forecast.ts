@@ -0,0 +1,196 @@
+import { calcCapacity as bCalcCapacity } from 'dugo-lib/lib/computers/battery';
+import calcPercent from 'dugo-lib/lib/utils/calc-percent';
+import * as moment from 'moment';
+import { BatteryString } from '../types/plant-config';
+import { CompanyConfig } from '../types/company-config';
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+export interface HealthSample {
+    date: Date;
+    health: number;
+}
+
+export interface HealthTrend {
+    // conductance health lost per year, positive while degrading
+    degradationPerYear: number;
+    samples: number;
+    lastSampleDate: Date;
+    lastHealth: number;
+    slopePerDay: number;
+    intercept: number;
+}
+
+export interface CapacityThreshold {
+    // conductance health at and below which the capacity table gives `capacity`
+    health: number;
+    capacity: number;
+}
+
+export interface ThresholdCrossing extends CapacityThreshold {
+    date?: Date;
+}
+
+export interface BlockForecast {
+    battery: string;
+    serialNumber?: string;
+    trend?: HealthTrend;
+    crossings: ThresholdCrossing[];
+    replacementDate?: Date;
+}
+
+export interface StringForecast {
+    batteryType: string;
+    trend?: HealthTrend;
+    crossings: ThresholdCrossing[];
+    blocks: BlockForecast[];
+    // the earlier of the string trend and its first block to reach end of life
+    replacementDate?: Date;
+    // already past end of life, so its replacement date lies in the past
+    overdue: boolean;
+}
+
+/**
+ * Least-squares line through the samples, with time in days since the first sample.
+ * Needs two samples on different days.
+ */
+export const fitHealthTrend = (samples: HealthSample[]): HealthTrend | undefined => {
+    const sorted = [...samples].sort((a, b) => a.date.getTime() - b.date.getTime());
+    if (sorted.length < 2) {
+        return undefined;
+    }
+    const origin = sorted[0].date.getTime();
+    const xs = sorted.map(({ date }) => (date.getTime() - origin) / dayMs);
+    const ys = sorted.map(({ health }) => health);
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+    const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+    const sxx = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+    if (!sxx) {
+        return undefined;
+    }
+    const sxy = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0);
+    const slopePerDay = sxy / sxx;
+    const last = sorted[sorted.length - 1];
+    return {
+        degradationPerYear: -slopePerDay * 365,
+        samples: sorted.length,
+        lastSampleDate: last.date,
+        lastHealth: last.health,
+        slopePerDay,
+        // intercept in absolute time so projections don't depend on the first sample
+        intercept: meanY - slopePerDay * (meanX + origin / dayMs),
+    };
+};
+
+/**
+ * Date the trend line reaches `health`, or undefined when it never will (flat or improving).
+ * A trend already below `health` projects to its last sample date.
+ */
+export const projectHealthDate = (trend: HealthTrend, health: number): Date | undefined => {
+    if (trend.lastHealth <= health) {
+        return trend.lastSampleDate;
+    }
+    if (trend.slopePerDay >= 0) {
+        return undefined;
+    }
+    const day = (health - trend.intercept) / trend.slopePerDay;
+    return new Date(Math.max(day * dayMs, trend.lastSampleDate.getTime()));
+};
+
+// how closely a step of the capacity table is located between two whole health values
+const thresholdPrecision = 0.001;
+
+/**
+ * The health levels where the company's capacity table steps down, found by probing the
+ * table with the same calcCapacity used for actual capacity at every whole health value and
+ * bisecting between the two values around each step, so steps between them are exact.
+ */
+export const findCapacityThresholds = (batteryCapacityTable: CompanyConfig['batteryCapacityTable']): CapacityThreshold[] => {
+    const thresholds: CapacityThreshold[] = [];
+    let prev = bCalcCapacity(100, batteryCapacityTable);
+    for (let health = 99; health >= 0; health--) {
+        const capacity = bCalcCapacity(health, batteryCapacityTable);
+        if (capacity === prev) {
+            continue;
+        }
+        // capacity(low) is the new step and capacity(high) the previous one
+        let low = health;
+        let high = health + 1;
+        while (high - low > thresholdPrecision) {
+            const mid = (low + high) / 2;
+            if (bCalcCapacity(mid, batteryCapacityTable) === prev) {
+                high = mid;
+            }
+            else {
+                low = mid;
+            }
+        }
+        thresholds.push({ health: parseFloat(low.toFixed(3)), capacity });
+        prev = capacity;
+    }
+    return thresholds;
+};
+
+const forecastCrossings = (trend: HealthTrend | undefined, thresholds: CapacityThreshold[]): ThresholdCrossing[] =>
+    thresholds.map((threshold) => ({ ...threshold, date: trend ? projectHealthDate(trend, threshold.health) : undefined }));
+
+const endOfLife = (crossings: ThresholdCrossing[]) =>
+    crossings.length ? crossings[crossings.length - 1].date : undefined;
+
+const earliest = (dates: (Date | undefined)[]) => dates
+    .filter((date): date is Date => !!date)
+    .reduce<Date | undefined>((min, date) => !min || date < min ? date : min, undefined);
+
+/**
+ * Forecasts each block of a string from its conductance history, and the string from its
+ * worst block on each test day. End of life is the last step of the capacity table.
+ */
+export const forecastString = async (
+    ctx,
+    string: BatteryString,
+    thresholds: CapacityThreshold[],
+    now = new Date(),
+): Promise<StringForecast> => {
+    const batteryType = await ctx.readStrict('batteryTypes', string.batteryType);
+    const blocks: BlockForecast[] = [];
+    const worstByDay = new Map<string, HealthSample>();
+
+    for (const batteryId of string.batteries) {
+        const battery = await ctx.readStrict('batteries', batteryId);
+        let samples: HealthSample[] = [];
+        if (battery.currentRecord && batteryType.conductance) {
+            const batteryRecord = await ctx.readStrict('batteryRecords', battery.currentRecord);
+            samples = (batteryRecord.conductance || [])
+                .filter(({ date }) => !!date)
+                .map(({ date, reading }) => ({ date: new Date(date), health: calcPercent(reading, batteryType.conductance!) }));
+        }
+        for (const sample of samples) {
+            const day = moment(sample.date).format('YYYY-MM-DD');
+            const worst = worstByDay.get(day);
+            if (!worst || sample.health < worst.health) {
+                worstByDay.set(day, sample);
+            }
+        }
+        const trend = fitHealthTrend(samples);
+        const crossings = forecastCrossings(trend, thresholds);
+        blocks.push({
+            battery: battery.id,
+            serialNumber: battery.serialNumber,
+            trend,
+            crossings,
+            replacementDate: endOfLife(crossings),
+        });
+    }
+
+    const trend = fitHealthTrend(Array.from(worstByDay.values()));
+    const crossings = forecastCrossings(trend, thresholds);
+    const replacementDate = earliest([endOfLife(crossings), ...blocks.map(({ replacementDate }) => replacementDate)]);
+    return {
+        batteryType: string.batteryType,
+        trend,
+        crossings,
+        blocks,
+        replacementDate,
+        overdue: !!replacementDate && replacementDate < now,
+    };
+};
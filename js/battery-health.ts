@@ -0,0 +1,149 @@
+import { calcCapacity as bCalcCapacity } from 'dugo-lib/lib/computers/battery';
+import { calcCapacity as bPCalcCapacity, calcRuntime } from 'dugo-lib/lib/computers/battery-plant';
+import { calcActualCapacity } from 'dugo-lib/lib/computers/string';
+import calcPercent from 'dugo-lib/lib/utils/calc-percent';
+import * as moment from 'moment';
+import { PlantConfig, BatteryString } from '../types/plant-config';
+import { CompanyConfig } from '../types/company-config';
+
+export interface BlockHealth {
+    battery: string;
+    serialNumber?: string;
+    conductance?: number;
+    conductanceHealth?: number;
+    manufacturingDate?: Date;
+}
+
+export interface StringHealth {
+    batteryType: string;
+    blocks: BlockHealth[];
+    worstBlockConductanceHealth?: number;
+    averageConductanceHealth?: number;
+    oldestBlockManufacturingDate?: Date;
+    oldestBlockAgeYears?: number;
+    ratedCapacity: number;
+    actualCapacity: number;
+}
+
+export interface PlantBatteryHealth {
+    strings: StringHealth[];
+    worstBlockConductanceHealth?: number;
+    averageConductanceHealth?: number;
+    oldestBlockManufacturingDate?: Date;
+    oldestBlockAgeYears?: number;
+    ratedCapacity: number;
+    actualCapacity: number;
+    estimatedRuntime?: number;
+}
+
+interface PlantLoad {
+    load: number;
+    voltage: number;
+}
+
+const average = (values: number[]) => values.length ?
+    values.reduce((sum, value) => sum + value, 0) / values.length :
+    undefined;
+
+const ageInYears = (date: Date | undefined, now: Date) => date ?
+    moment(now).diff(moment(date), 'years', true) :
+    undefined;
+
+const oldest = (dates: (Date | undefined)[]) => dates
+    .filter((date): date is Date => !!date)
+    .reduce<Date | undefined>((min, date) => !min || date < min ? date : min, undefined);
+
+/**
+ * Health of one battery string from the latest conductance reading of each block. The
+ * string's actual capacity follows its worst block, as a string is only as good as that.
+ */
+export const calcStringHealth = async (ctx, string: BatteryString, companyConfig: CompanyConfig, now = new Date()): Promise<StringHealth> => {
+    const batteryType = await ctx.readStrict('batteryTypes', string.batteryType);
+    const blocks: BlockHealth[] = [];
+    for (const batteryId of string.batteries) {
+        const battery = await ctx.readStrict('batteries', batteryId);
+        const block: BlockHealth = {
+            battery: battery.id,
+            serialNumber: battery.serialNumber,
+            manufacturingDate: battery.manufacturingDate,
+        };
+        if (battery.currentRecord) {
+            const batteryRecord = await ctx.readStrict('batteryRecords', battery.currentRecord);
+            const latest = batteryRecord.conductance && batteryRecord.conductance[batteryRecord.conductance.length - 1];
+            if (latest) {
+                block.conductance = latest.reading;
+                block.conductanceHealth = batteryType.conductance ? calcPercent(latest.reading, batteryType.conductance!) : 0;
+            }
+        }
+        blocks.push(block);
+    }
+
+    const healths = blocks
+        .map(({ conductanceHealth }) => conductanceHealth)
+        .filter((health): health is number => health !== undefined);
+    const worstBlockConductanceHealth = healths.length ? Math.min(...healths) : undefined;
+    const oldestBlockManufacturingDate = oldest(blocks.map(({ manufacturingDate }) => manufacturingDate));
+    const ratedCapacity = batteryType.capacity || 0;
+
+    let actualCapacity = 0;
+    if (worstBlockConductanceHealth !== undefined && ratedCapacity) {
+        const capacity = bCalcCapacity(worstBlockConductanceHealth, companyConfig.batteryCapacityTable);
+        actualCapacity = capacity ? calcActualCapacity(capacity, ratedCapacity) : 0;
+    }
+
+    return {
+        batteryType: string.batteryType,
+        blocks,
+        worstBlockConductanceHealth,
+        averageConductanceHealth: average(healths),
+        oldestBlockManufacturingDate,
+        oldestBlockAgeYears: ageInYears(oldestBlockManufacturingDate, now),
+        ratedCapacity,
+        actualCapacity,
+    };
+};
+
+/**
+ * Health of every string on a plant config, rolled up to the plant. With the plant's
+ * `load`, the estimated runtime on the actual capacity is included.
+ */
+export const calcPlantBatteryHealth = async (
+    ctx,
+    plantConfig: PlantConfig,
+    companyConfig: CompanyConfig,
+    plantLoad?: PlantLoad,
+    now = new Date(),
+): Promise<PlantBatteryHealth> => {
+    const strings: StringHealth[] = [];
+    for (const string of plantConfig.strings) {
+        strings.push(await calcStringHealth(ctx, string, companyConfig, now));
+    }
+
+    const healths: number[] = [];
+    strings.forEach(({ blocks }) => blocks.forEach(({ conductanceHealth }) => {
+        if (conductanceHealth !== undefined) {
+            healths.push(conductanceHealth);
+        }
+    }));
+    const oldestBlockManufacturingDate = oldest(strings.map((string) => string.oldestBlockManufacturingDate));
+    const actualCapacity = bPCalcCapacity(strings.map((string) => string.actualCapacity));
+
+    let estimatedRuntime: number | undefined;
+    if (plantLoad && plantLoad.load) {
+        const powerPlantType = await ctx.readStrict('powerPlantTypes', plantConfig.powerPlantType);
+        estimatedRuntime = calcRuntime(
+            actualCapacity, powerPlantType.voltage, plantLoad.load, plantLoad.voltage, companyConfig.runtimeDegradationMultiplier
+        );
+    }
+
+    return {
+        strings,
+        worstBlockConductanceHealth: healths.length ? Math.min(...healths) : undefined,
+        averageConductanceHealth: average(healths),
+        oldestBlockManufacturingDate,
+        oldestBlockAgeYears: ageInYears(oldestBlockManufacturingDate, now),
+        ratedCapacity: bPCalcCapacity(strings.map((string) => string.ratedCapacity)),
+        actualCapacity,
+        estimatedRuntime,
+    };
+};
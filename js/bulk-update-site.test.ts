@@ -0,0 +1,128 @@
+import BulkUpdateSiteTransaction from './bulk-update-site';
+import UpdateSiteTransaction from './update-site';
+import { SiteNotFoundError, GeneratorStateError } from './update-site-errors';
+
+// the row work is UpdateSiteTransaction's; these tests only drive how the batch runs it
+const siteUpdate: any = UpdateSiteTransaction.prototype;
+
+const rowData = (siteNum: string) => ({ site: { id: `site-${siteNum}`, siteNum, name: `Site ${siteNum}`, version: 1 } });
+
+const updates = [
+    { siteUpdates: { siteNum: 'S1', name: 'Renamed S1' } },
+    { siteUpdates: { siteNum: 'S2', name: 'Renamed S2' } },
+    { siteUpdates: { siteNum: 'S3', name: 'Renamed S3' } },
+    { siteUpdates: { siteNum: 'S4', name: 'Renamed S4' }, dryRun: true },
+];
+
+const storeCtx = (input: any) => {
+    let ids = 0;
+    return {
+        input,
+        checkout: jest.fn(async (collection: string, id: string) => ({ id })),
+        queryIds: jest.fn(async () => []),
+        getStrict: jest.fn(async (collection: string, id: string) => ({ id })),
+        create: jest.fn(async (collection: string, data: any) => ({ ...data, id: `${collection}${++ids}` })),
+        remove: jest.fn(async (doc: any) => undefined),
+    };
+};
+
+// S2 cannot be found, S3 fails half way through its writes
+const runBatch = async (mode: 'all-or-nothing' | 'best-effort') => {
+    const bulk: any = Object.create(BulkUpdateSiteTransaction.prototype);
+    const ctx = storeCtx({ updates, mode, submitter: 'ops' });
+    const data = await bulk.checkout(ctx);
+    return { ctx, data, report: await bulk.operation({ ...ctx, data }) };
+};
+
+describe('BulkUpdateSiteTransaction', () => {
+    beforeEach(() => {
+        jest.spyOn(siteUpdate, 'checkoutSite').mockImplementation(async ({ input }: any) => {
+            if (input.siteUpdates.siteNum === 'S2') {
+                throw new SiteNotFoundError('S2');
+            }
+            return rowData(input.siteUpdates.siteNum);
+        });
+        jest.spyOn(siteUpdate, 'applyUpdates').mockImplementation(async (ctx: any) => {
+            ctx.data.site.name = ctx.input.siteUpdates.name;
+            await ctx.create('logItems', { site: ctx.data.site.id });
+            if (ctx.data.site.siteNum === 'S3') {
+                throw new GeneratorStateError('S3', 'add');
+            }
+        });
+        jest.spyOn(siteUpdate, 'notifyChanges').mockImplementation(async () => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('reports failing rows and applies the others in best-effort mode', async () => {
+        const { ctx, data, report } = await runBatch('best-effort');
+
+        expect(report).toMatchObject({ mode: 'best-effort', dryRun: false, updated: 2, failed: 2 });
+        expect(report.results.map(({ index, siteNum, status, dryRun }) => ({ index, siteNum, status, dryRun }))).toEqual([
+            { index: 0, siteNum: 'S1', status: 'updated', dryRun: false },
+            { index: 1, siteNum: 'S2', status: 'failed', dryRun: false },
+            { index: 2, siteNum: 'S3', status: 'failed', dryRun: false },
+            { index: 3, siteNum: 'S4', status: 'updated', dryRun: true },
+        ]);
+        expect(report.results[1].error).toMatchObject({ code: 'SITE_NOT_FOUND' });
+        expect(report.results[2].error).toMatchObject({ code: 'GENERATOR_STATE_CONFLICT' });
+        expect(report.results[0].diff.sites.updated).toEqual([
+            { id: 'site-S1', changes: [{ field: 'name', before: 'Site S1', after: 'Renamed S1' }] },
+        ]);
+
+        const [ s1, s2, s3, s4 ] = data.rows.map((row: any) => row.data && row.data.site);
+        expect(s2).toBeUndefined();
+        // the applied row moved on a version, the failed and previewed ones were put back
+        expect(s1).toMatchObject({ name: 'Renamed S1', version: 2 });
+        expect(s3).toEqual(rowData('S3').site);
+        expect(s4).toEqual(rowData('S4').site);
+
+        // S3's log item was removed again and S4's preview never reached the store
+        const created = ctx.create.mock.calls.map(([collection, fields]) => `${fields.type || collection}:${fields.site}`);
+        expect(created).toEqual(['logItems:site-S1', 'audit:site-S1', 'logItems:site-S3']);
+        expect(ctx.remove.mock.calls.map(([doc]) => doc.site)).toEqual(['site-S3']);
+        expect(siteUpdate.notifyChanges).toHaveBeenCalledTimes(1);
+    });
+
+    it('fails later rows for a site an earlier row of the batch updated', async () => {
+        const bulk: any = Object.create(BulkUpdateSiteTransaction.prototype);
+        const ctx = storeCtx({
+            updates: [updates[0], { siteUpdates: { siteNum: 'S1', name: 'Renamed S1 again' } }],
+            mode: 'best-effort',
+        });
+        const data = await bulk.checkout(ctx);
+        // rows of one site share the checked out documents
+        data.rows[1].data = data.rows[0].data;
+        const report = await bulk.operation({ ...ctx, data });
+
+        expect(report.results.map(({ status }) => status)).toEqual(['updated', 'failed']);
+        expect(report.results[1].error).toMatchObject({ code: 'SITE_UPDATED_IN_BATCH', context: { siteNum: 'S1', row: 0 } });
+        expect(data.rows[0].data.site).toMatchObject({ name: 'Renamed S1', version: 2 });
+    });
+
+    it('takes back the audit entry and notifications of a row failing after its updates and drops its removals', async () => {
+        jest.spyOn(siteUpdate, 'applyUpdates').mockImplementation(async (ctx: any) => {
+            ctx.data.site.name = ctx.input.siteUpdates.name;
+            ctx.remove({ id: 'association-1', site: ctx.data.site.id });
+        });
+        (siteUpdate.notifyChanges as jest.Mock).mockImplementation(async (ctx: any) => {
+            await ctx.create('notificationOutbox', { site: ctx.data.site.id });
+            throw new Error('outbox unavailable');
+        });
+        const bulk: any = Object.create(BulkUpdateSiteTransaction.prototype);
+        const ctx = storeCtx({ updates: [updates[0]], mode: 'best-effort' });
+        const data = await bulk.checkout(ctx);
+        const report = await bulk.operation({ ...ctx, data });
+
+        expect(report.results[0]).toMatchObject({ status: 'failed', error: { code: 'UNEXPECTED_ERROR' } });
+        expect(data.rows[0].data.site).toEqual(rowData('S1').site);
+        // the audit entry and queued notification were removed again, the association never was
+        expect(ctx.remove.mock.calls.map(([doc]) => doc.id)).toEqual(['logItems1', 'notificationOutbox2']);
+    });
+
+    it('fails the whole batch on the first failing row in all-or-nothing mode', async () => {
+        await expect(runBatch('all-or-nothing')).rejects.toBeInstanceOf(SiteNotFoundError);
+    });
+});
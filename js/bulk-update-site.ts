@@ -0,0 +1,181 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import createLogger from '../../logger';
+import UpdateSiteTransaction, { UpdateSiteTransactionInput, CCtx as SiteCCtx, OCtx as SiteOCtx, checkoutCollections } from './update-site';
+import ChangeTracker, { ChangeSetDiff } from './change-tracker';
+import { errorBody } from './transaction-response';
+import { UpdateSiteValidationError, SiteUpdatedInBatchError } from './update-site-errors';
+import { recordAudit } from './site-audit';
+import { versionedCollections } from './versioning';
+import { CompanyConfigServiceInput } from './company-config-service';
+
+const logger = createLogger({ label: 'Bulk Update Site' });
+
+type BulkUpdateMode = 'all-or-nothing' | 'best-effort';
+
+type BulkUpdateSiteTransactionInput = {
+    updates: UpdateSiteTransactionInput[];
+    mode?: BulkUpdateMode;
+    dryRun?: boolean;
+    submitter?: string;
+} & CompanyConfigServiceInput;
+
+interface BulkUpdateSiteResult {
+    index: number;
+    // missing when the row had no siteUpdates
+    siteNum?: string;
+    status: 'updated' | 'failed';
+    // true when the row was only previewed, through its own or the batch's dryRun
+    dryRun: boolean;
+    diff?: ChangeSetDiff;
+    error?: {
+        code: string;
+        message: string;
+        context?: any;
+    };
+}
+
+interface BulkUpdateSiteReport {
+    mode: BulkUpdateMode;
+    dryRun: boolean;
+    updated: number;
+    failed: number;
+    results: BulkUpdateSiteResult[];
+}
+
+interface CheckedOutRow {
+    index: number;
+    data?: SiteOCtx['data'];
+    error?: any;
+}
+
+type CCtx = CheckoutCtx<Store, BulkUpdateSiteTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    BulkUpdateSiteTransactionInput,
+    BulkUpdateSiteTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+// the per-row work is the single-site transaction's, run against a context scoped to the row
+const siteUpdate: Pick<UpdateSiteTransaction, 'checkoutSite' | 'applyUpdates' | 'notifyChanges'> = UpdateSiteTransaction.prototype;
+
+/**
+ * Applies many UpdateSiteTransaction inputs in one transaction.
+ *
+ * Documents and id queries shared between rows are checked out once, so rows touching the
+ * same site do not repeat the per-plant lookups. Every row is checked against the site as it
+ * was before the batch, so once a row has been applied, later rows for its site fail with
+ * SITE_UPDATED_IN_BATCH and have to be sent again. In 'all-or-nothing' mode the first failing
+ * row aborts the whole transaction; in 'best-effort' mode that row's writes, audit entry and
+ * notifications are rolled back and reported while the other rows go through. A row with
+ * `dryRun` is only previewed.
+ */
+export default class BulkUpdateSiteTransaction extends Transaction<BulkUpdateSiteTransactionInput, BulkUpdateSiteReport> {
+    protected async checkout (ctx: CCtx) {
+        const { updates, mode = 'all-or-nothing', submitter, companyConfigService } = ctx.input;
+        if (!Array.isArray(updates)) {
+            throw new UpdateSiteValidationError([{ path: 'updates', code: 'invalid_type', message: 'updates must be an array' }]);
+        }
+        const checkouts = new Map<string, Promise<any>>();
+        const idQueries = new Map<string, Promise<any>>();
+
+        const shared: CCtx = Object.create(ctx);
+        shared.checkout = ((collection: any, id: string) => {
+            const key = `${collection}:${id}`;
+            if (!checkouts.has(key)) {
+                checkouts.set(key, ctx.checkout(collection, id));
+            }
+            return checkouts.get(key);
+        }) as CCtx['checkout'];
+        shared.queryIds = ((collection: any, params: any) => {
+            const key = `${collection}:${JSON.stringify(params)}`;
+            if (!idQueries.has(key)) {
+                idQueries.set(key, ctx.queryIds(collection, params));
+            }
+            return idQueries.get(key);
+        }) as CCtx['queryIds'];
+
+        const rows: CheckedOutRow[] = [];
+        for (let index = 0; index < updates.length; index++) {
+            const rowCtx: SiteCCtx = Object.create(shared);
+            rowCtx.input = { companyConfigService, ...updates[index], submitter: updates[index].submitter || submitter };
+            try {
+                rows.push({ index, data: await siteUpdate.checkoutSite(rowCtx) });
+            } catch (error) {
+                if (mode === 'all-or-nothing') {
+                    throw error;
+                }
+                logger.error(error);
+                rows.push({ index, error });
+            }
+        }
+
+        return { rows };
+    }
+
+    protected async operation (ctx: OCtx): Promise<BulkUpdateSiteReport> {
+        const { updates, mode = 'all-or-nothing', dryRun = false, submitter, companyConfigService } = ctx.input;
+        const results: BulkUpdateSiteResult[] = [];
+        // index of the row applied to each site
+        const appliedRows = new Map<string, number>();
+
+        for (const { index, data, error } of ctx.data.rows) {
+            const siteNum = updates[index] && updates[index].siteUpdates && updates[index].siteUpdates.siteNum;
+            // a row can ask for a preview of its own while the rest of the batch is applied
+            const rowDryRun = dryRun || !!(updates[index] && updates[index].dryRun);
+            if (error) {
+                results.push({ index, siteNum, status: 'failed', dryRun: rowDryRun, error: errorBody(error) });
+                continue;
+            }
+
+            const rowCtx: SiteOCtx = Object.create(ctx);
+            rowCtx.input = { companyConfigService, ...updates[index], submitter: updates[index].submitter || submitter };
+            rowCtx.data = data!;
+            const tracker = new ChangeTracker(data!, checkoutCollections);
+            try {
+                const appliedRow = appliedRows.get(data!.site.id);
+                if (appliedRow !== undefined) {
+                    throw new SiteUpdatedInBatchError(data!.site.siteNum, appliedRow);
+                }
+                // audit entries and notifications are created through the tracker too, so a
+                // failing row takes them back with its other writes
+                const trackedCtx = tracker.track(rowCtx, { dryRun: rowDryRun, deferRemovals: true });
+                await siteUpdate.applyUpdates(trackedCtx);
+                const diff = await tracker.diff();
+                if (rowDryRun) {
+                    tracker.restore();
+                }
+                else {
+                    tracker.bumpVersions(diff, versionedCollections);
+                    await recordAudit(trackedCtx, diff, {
+                        submitter: rowCtx.input.submitter,
+                        site: data!.site.id,
+                        powerPlant: data!.powerPlant && data!.powerPlant.id,
+                        region: data!.site.region,
+                    });
+                    await siteUpdate.notifyChanges(trackedCtx, diff);
+                    // removals cannot be taken back, so they go last
+                    await tracker.flushRemovals();
+                    appliedRows.set(data!.site.id, index);
+                }
+                results.push({ index, siteNum, status: 'updated', dryRun: rowDryRun, diff });
+            } catch (rowError) {
+                if (mode === 'all-or-nothing') {
+                    throw rowError;
+                }
+                logger.error(rowError);
+                await tracker.rollback();
+                results.push({ index, siteNum, status: 'failed', dryRun: rowDryRun, error: errorBody(rowError) });
+            }
+        }
+
+        return {
+            mode,
+            dryRun,
+            updated: results.filter(({ status }) => status === 'updated').length,
+            failed: results.filter(({ status }) => status === 'failed').length,
+            results,
+        };
+    }
+}
@@ -0,0 +1,133 @@
+import ChangeTracker, { diffFields, setField, getField } from './change-tracker';
+
+const storeCtx = () => {
+    let ids = 0;
+    return {
+        create: jest.fn(async (collection: string, data: any) => ({ ...data, id: `${collection}${++ids}` })),
+        remove: jest.fn(async (doc: any) => undefined),
+    };
+};
+
+const checkedOut = () => ({
+    site: { id: 's1', name: 'North', version: 2, location: { type: 'Point', coordinates: [1, 2] } },
+    routines: [
+        { id: 'r1', date: new Date('2024-03-01T00:00:00Z'), plantReading: { load: 40, voltage: 53 } },
+        { id: 'r2', date: new Date('2024-04-01T00:00:00Z') },
+    ],
+});
+
+const collections = { site: 'sites', routines: 'routines' };
+
+describe('diffFields', () => {
+    it('walks nested objects and same-length arrays down to the changed field', () => {
+        expect(diffFields(
+            { plantReading: { load: 40, voltage: 53 }, load: [[1, 10], [2, 20]], tags: ['a'] },
+            { plantReading: { load: 42, voltage: 53 }, load: [[1, 10], [2, 21]], tags: ['a', 'b'] },
+        )).toEqual([
+            { field: 'plantReading.load', before: 40, after: 42 },
+            { field: 'load.1.1', before: 20, after: 21 },
+            { field: 'tags', before: ['a'], after: ['a', 'b'] },
+        ]);
+    });
+
+    it('compares dates by time and reports removed fields', () => {
+        expect(diffFields(
+            { date: new Date('2024-03-01T00:00:00Z'), note: 'x' },
+            { date: new Date('2024-03-01T00:00:00Z') },
+        )).toEqual([{ field: 'note', before: 'x', after: undefined }]);
+    });
+});
+
+describe('setField and getField', () => {
+    it('write and read dotted fields, removing a field set to undefined', () => {
+        const doc: any = { plantReading: { load: 40 } };
+        setField(doc, 'plantReading.voltage', 53);
+        setField(doc, 'location.coordinates', [1, 2]);
+        setField(doc, 'plantReading.load', undefined);
+        expect(doc).toEqual({ plantReading: { voltage: 53 }, location: { coordinates: [1, 2] } });
+        expect(getField(doc, 'location.coordinates.1')).toBe(2);
+        expect(getField(doc, 'missing.field')).toBeUndefined();
+    });
+});
+
+describe('ChangeTracker', () => {
+    it('reports updated, created and removed documents', async () => {
+        const data = checkedOut();
+        const tracker = new ChangeTracker(data, collections);
+        const ctx = tracker.track(storeCtx());
+
+        data.site.name = 'North 2';
+        data.routines[0].plantReading.load = 42;
+        await ctx.create('logItems', { note: 'edited' });
+        ctx.remove(data.routines[1]);
+
+        expect(await tracker.diff()).toEqual({
+            sites: { updated: [{ id: 's1', changes: [{ field: 'name', before: 'North', after: 'North 2' }] }], created: [], removed: [] },
+            routines: {
+                updated: [{ id: 'r1', changes: [{ field: 'plantReading.load', before: 40, after: 42 }] }],
+                created: [],
+                removed: [{ id: 'r2', date: new Date('2024-04-01T00:00:00Z') }],
+            },
+            logItems: { updated: [], created: [{ note: 'edited', id: 'logItems1' }], removed: [] },
+        });
+    });
+
+    it('writes nothing in dry-run mode and restores the documents it watched', async () => {
+        const data = checkedOut();
+        const store = storeCtx();
+        const tracker = new ChangeTracker(data, collections);
+        const ctx = tracker.track(store, { dryRun: true });
+
+        data.site.name = 'North 2';
+        (data.site as any).region = 'n1';
+        delete (data.routines[0] as any).plantReading;
+        const created = await ctx.create('logItems', { note: 'edited' });
+        ctx.remove(data.routines[1]);
+
+        expect(created.id).toBe('dry-run:logItems:1');
+        expect(store.create).not.toHaveBeenCalled();
+        expect(store.remove).not.toHaveBeenCalled();
+        tracker.restore();
+        expect(data).toEqual(checkedOut());
+    });
+
+    it('bumps the version of updated documents of versioned collections only', async () => {
+        const data = checkedOut();
+        const tracker = new ChangeTracker(data, collections);
+        tracker.track(storeCtx());
+        data.site.name = 'North 2';
+        data.routines[0].plantReading.load = 42;
+
+        tracker.bumpVersions(await tracker.diff(), ['sites']);
+        expect(data.site.version).toBe(3);
+        expect((data.routines[0] as any).version).toBeUndefined();
+    });
+
+    it('rolls back created documents and drops deferred removals', async () => {
+        const data = checkedOut();
+        const store = storeCtx();
+        const tracker = new ChangeTracker(data, collections);
+        const ctx = tracker.track(store, { deferRemovals: true });
+
+        data.site.location.coordinates = [3, 4];
+        await ctx.create('logItems', { note: 'edited' });
+        ctx.remove(data.routines[1]);
+        await tracker.rollback();
+        await tracker.flushRemovals();
+
+        expect(data).toEqual(checkedOut());
+        expect(store.remove.mock.calls.map(([doc]) => doc.id)).toEqual(['logItems1']);
+    });
+
+    it('passes deferred removals through when flushed', async () => {
+        const data = checkedOut();
+        const store = storeCtx();
+        const tracker = new ChangeTracker(data, collections);
+        const ctx = tracker.track(store, { deferRemovals: true });
+
+        ctx.remove(data.routines[1]);
+        expect(store.remove).not.toHaveBeenCalled();
+        await tracker.flushRemovals();
+        expect(store.remove).toHaveBeenCalledWith(data.routines[1]);
+    });
+});
@@ -0,0 +1,271 @@
+export interface FieldChange {
+    field: string;
+    before: any;
+    after: any;
+}
+
+export interface EntityDiff {
+    id: string;
+    changes: FieldChange[];
+}
+
+export interface CollectionDiff {
+    updated: EntityDiff[];
+    created: any[];
+    removed: any[];
+}
+
+export type ChangeSetDiff = { [collection: string]: CollectionDiff };
+
+interface Snapshot {
+    collection: string;
+    doc: any;
+    before: any;
+}
+
+interface TrackedWrite {
+    collection: string;
+    doc: any;
+}
+
+interface TrackOptions {
+    dryRun?: boolean;
+    deferRemovals?: boolean;
+}
+
+interface WritableCtx {
+    create: (collection: any, data: any) => any;
+    remove: (doc: any) => any;
+}
+
+const isPlainObject = (value: any): boolean =>
+    !!value && typeof value === 'object' && !(value instanceof Date) && !Array.isArray(value);
+
+/**
+ * Sets a dotted `field` as produced by `diffFields`; an undefined value removes the field.
+ */
+export const setField = (doc: any, field: string, value: any) => {
+    const path = field.split('.');
+    const last = path.pop()!;
+    let target = doc;
+    for (const key of path) {
+        if (target[key] === undefined || target[key] === null) {
+            target[key] = {};
+        }
+        target = target[key];
+    }
+    if (value === undefined && !Array.isArray(target)) {
+        delete target[last];
+    }
+    else {
+        target[last] = cloneDeep(value);
+    }
+};
+
+export const getField = (doc: any, field: string) =>
+    field.split('.').reduce((target, key) => target === undefined || target === null ? undefined : target[key], doc);
+
+export const cloneDeep = <T>(value: T): T => {
+    if (value instanceof Date) {
+        return new Date(value.getTime()) as any;
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => cloneDeep(item)) as any;
+    }
+    if (isPlainObject(value)) {
+        const clone: any = {};
+        for (const key of Object.keys(value)) {
+            clone[key] = cloneDeep((value as any)[key]);
+        }
+        return clone;
+    }
+    return value;
+};
+
+export const isEqual = (a: any, b: any): boolean => {
+    if (a instanceof Date || b instanceof Date) {
+        return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+    }
+    if (Array.isArray(a) || Array.isArray(b)) {
+        return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+    }
+    if (isPlainObject(a) && isPlainObject(b)) {
+        const keys = Object.keys({ ...a, ...b });
+        return keys.every((key) => isEqual(a[key], b[key]));
+    }
+    return a === b;
+};
+
+const canDescend = (a: any, b: any): boolean =>
+    (isPlainObject(a) && isPlainObject(b)) ||
+    (Array.isArray(a) && Array.isArray(b) && a.length === b.length);
+
+/**
+ * Lists changed fields between two versions of a document. Nested plain objects, and arrays
+ * that kept their length, are walked so a reading edit shows up as `plantReading.load` or
+ * `load.3.1` rather than the whole reading or series.
+ */
+export const diffFields = (before: any, after: any, prefix = ''): FieldChange[] => {
+    const changes: FieldChange[] = [];
+    const keys = Object.keys({ ...before, ...after });
+    for (const key of keys) {
+        const field = prefix ? `${prefix}.${key}` : key;
+        const prev = before ? before[key] : undefined;
+        const next = after ? after[key] : undefined;
+        if (isEqual(prev, next)) {
+            continue;
+        }
+        if (canDescend(prev, next)) {
+            changes.push(...diffFields(prev, next, field));
+        }
+        else {
+            changes.push({ field, before: cloneDeep(prev), after: cloneDeep(next) });
+        }
+    }
+    return changes;
+};
+
+const emptyCollectionDiff = (): CollectionDiff => ({ updated: [], created: [], removed: [] });
+
+/**
+ * Records the state of checked-out documents so the writes a transaction makes to them
+ * can be reported as a diff, and undone again for previews.
+ *
+ * `collections` maps keys of the checkout data to the collection their documents belong to.
+ */
+export default class ChangeTracker {
+    private snapshots: Snapshot[] = [];
+    private created: TrackedWrite[] = [];
+    private removed: TrackedWrite[] = [];
+    private pending: Promise<any>[] = [];
+    private deferred: any[] = [];
+    private dryRunIds = 0;
+    private untracked?: WritableCtx;
+
+    constructor (data: { [key: string]: any }, collections: { [key: string]: string }) {
+        for (const key of Object.keys(collections)) {
+            const value = data[key];
+            const docs = Array.isArray(value) ? value : [value];
+            for (const doc of docs) {
+                this.watch(collections[key], doc);
+            }
+        }
+    }
+
+    watch (collection: string, doc: any) {
+        if (!doc || this.snapshots.some((snapshot) => snapshot.doc === doc)) {
+            return;
+        }
+        this.snapshots.push({ collection, doc, before: cloneDeep(doc) });
+    }
+
+    /**
+     * Returns a copy of `ctx` whose `create` and `remove` are recorded. In dry-run mode
+     * nothing is passed through: created documents get a placeholder id instead. With
+     * `deferRemovals`, removals wait for `flushRemovals` so they can still be dropped.
+     */
+    track<C extends WritableCtx> (ctx: C, { dryRun, deferRemovals }: TrackOptions = {}): C {
+        const tracked: C = Object.create(ctx);
+        this.untracked = ctx;
+        tracked.create = (collection: string, data: any) => {
+            const write: TrackedWrite = { collection, doc: data };
+            this.created.push(write);
+            if (dryRun) {
+                write.doc = { ...data, id: `dry-run:${collection}:${++this.dryRunIds}` };
+                return Promise.resolve(write.doc);
+            }
+            const result = Promise.resolve(ctx.create(collection, data)).then((doc) => {
+                write.doc = doc;
+                return doc;
+            });
+            this.pending.push(result);
+            return result;
+        };
+        tracked.remove = (doc: any) => {
+            const snapshot = this.snapshots.find((s) => s.doc === doc);
+            this.removed.push({ collection: snapshot ? snapshot.collection : 'unknown', doc: cloneDeep(doc) });
+            if (dryRun) {
+                return;
+            }
+            if (deferRemovals) {
+                this.deferred.push(doc);
+                return;
+            }
+            return ctx.remove(doc);
+        };
+        return tracked;
+    }
+
+    async diff (): Promise<ChangeSetDiff> {
+        await Promise.all(this.pending);
+        const diff: ChangeSetDiff = {};
+        const forCollection = (collection: string) => diff[collection] || (diff[collection] = emptyCollectionDiff());
+
+        for (const { collection, doc, before } of this.snapshots) {
+            if (this.removed.some((write) => write.doc.id === doc.id)) {
+                continue;
+            }
+            const changes = diffFields(before, doc);
+            if (changes.length) {
+                forCollection(collection).updated.push({ id: doc.id, changes });
+            }
+        }
+        for (const { collection, doc } of this.created) {
+            forCollection(collection).created.push(cloneDeep(doc));
+        }
+        for (const { collection, doc } of this.removed) {
+            forCollection(collection).removed.push(doc);
+        }
+        return diff;
+    }
+
+    /**
+     * Increments `version` on each watched document of `collections` that `diff` shows as
+     * updated. Called once the diff is taken, so the bump itself is not part of it.
+     */
+    bumpVersions (diff: ChangeSetDiff, collections: string[]) {
+        for (const { collection, doc } of this.snapshots) {
+            const changes = diff[collection];
+            if (collections.includes(collection) && changes && changes.updated.some(({ id }) => id === doc.id)) {
+                doc.version = (doc.version || 0) + 1;
+            }
+        }
+    }
+
+    async flushRemovals () {
+        const docs = this.deferred;
+        this.deferred = [];
+        for (const doc of docs) {
+            await this.untracked!.remove(doc);
+        }
+    }
+
+    /**
+     * Undoes everything written through the tracked context: watched documents are restored,
+     * created documents removed and deferred removals dropped.
+     */
+    async rollback () {
+        await Promise.all(this.pending.map((write) => write.catch(() => undefined)));
+        this.restore();
+        this.deferred = [];
+        for (const { doc } of this.created) {
+            if (doc && doc.id) {
+                await this.untracked!.remove(doc);
+            }
+        }
+    }
+
+    /**
+     * Puts every watched document back to the state it was in when it was watched.
+     */
+    restore () {
+        for (const { doc, before } of this.snapshots) {
+            for (const key of Object.keys(doc)) {
+                if (!(key in before)) {
+                    delete doc[key];
+                }
+            }
+            Object.assign(doc, cloneDeep(before));
+        }
+    }
+}
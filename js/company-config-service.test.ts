@@ -0,0 +1,102 @@
+import { createCompanyConfigService, companyConfigService, readCompanyConfig } from './company-config-service';
+import SaveCompanyConfigTransaction from './save-company-config';
+import { CompanyConfigNotFoundError, VersionConflictError } from './update-site-errors';
+
+// a store holding company configs, answering the queries the service makes
+const storeCtx = (configs: any[]) => ({
+    queryIds: jest.fn(async (collection: string, { filter }: any) => configs
+        .filter((config) => config.isCurrent === filter.isCurrent)
+        .filter((config) => !('version' in filter) || (typeof filter.version === 'number' ?
+            config.version === filter.version :
+            config.version === undefined))
+        .map(({ id }) => id)
+        .slice(0, 1)),
+    getStrict: jest.fn(async (collection: string, id: string) => ({ ...configs.find((config) => config.id === id) })),
+});
+
+describe('createCompanyConfigService', () => {
+    it('loads the config once and reuses it while it stays current at the same version', async () => {
+        const configs = [{ id: 'companyConfig1', isCurrent: true, version: 1 }];
+        const ctx = storeCtx(configs);
+        const service = createCompanyConfigService();
+        const first = await service.current(ctx);
+        expect(await service.current(ctx)).toBe(first);
+        expect(ctx.getStrict).toHaveBeenCalledTimes(1);
+
+        configs[0].version = 2;
+        expect(await service.current(ctx)).toMatchObject({ version: 2 });
+        expect(ctx.getStrict).toHaveBeenCalledTimes(2);
+    });
+
+    it('reloads once the cached config is too old or invalidated', async () => {
+        let time = 0;
+        const ctx = storeCtx([{ id: 'companyConfig1', isCurrent: true }]);
+        const service = createCompanyConfigService({ maxAge: 1000, now: () => time });
+        await service.current(ctx);
+        time = 1000;
+        await service.current(ctx);
+        expect(ctx.getStrict).toHaveBeenCalledTimes(2);
+        service.invalidate();
+        await service.current(ctx);
+        expect(ctx.getStrict).toHaveBeenCalledTimes(3);
+    });
+
+    it('fails when no company config is current', async () => {
+        await expect(createCompanyConfigService().current(storeCtx([]))).rejects.toBeInstanceOf(CompanyConfigNotFoundError);
+    });
+});
+
+describe('readCompanyConfig', () => {
+    it('reads through the shared service unless the input names another one', async () => {
+        const ctx = storeCtx([{ id: 'companyConfig1', isCurrent: true, version: 1 }]);
+        const current = jest.spyOn(companyConfigService, 'current');
+        await readCompanyConfig({ ...ctx, input: {} });
+        expect(current).toHaveBeenCalledTimes(1);
+
+        const companyConfigService2 = createCompanyConfigService();
+        const current2 = jest.spyOn(companyConfigService2, 'current');
+        await readCompanyConfig({ ...ctx, input: { companyConfigService: companyConfigService2 } });
+        expect(current).toHaveBeenCalledTimes(1);
+        expect(current2).toHaveBeenCalledTimes(1);
+        current.mockRestore();
+    });
+});
+
+describe('SaveCompanyConfigTransaction', () => {
+    const saveCtx = (config: any, input: any) => ({
+        ...storeCtx([config]),
+        checkout: jest.fn(async () => config),
+        input,
+    });
+
+    it('moves the config on a version and invalidates the service', async () => {
+        const config = { id: 'companyConfig1', isCurrent: true, version: 3, conditionCombiner: 'max' };
+        const service = createCompanyConfigService();
+        const invalidate = jest.spyOn(service, 'invalidate');
+        const input = { changes: { conditionCombiner: 'weighted' }, expectedVersion: 3, companyConfigService: service };
+        const save: any = Object.create(SaveCompanyConfigTransaction.prototype);
+        const ctx = saveCtx(config, input);
+        const data = await save.checkout(ctx);
+        const saved = await save.operation({ ...ctx, data });
+        expect(saved).toMatchObject({ conditionCombiner: 'weighted', version: 4 });
+        expect(invalidate).toHaveBeenCalledTimes(1);
+    });
+
+    it('refuses changes made to an older version', async () => {
+        const config = { id: 'companyConfig1', isCurrent: true, version: 3 };
+        const save: any = Object.create(SaveCompanyConfigTransaction.prototype);
+        await expect(save.checkout(saveCtx(config, { changes: { conditionCombiner: 'max' }, expectedVersion: 2 })))
+            .rejects.toBeInstanceOf(VersionConflictError);
+    });
+
+    it('rejects unknown condition rules before anything is checked out', async () => {
+        const config = { id: 'companyConfig1', isCurrent: true, version: 3 };
+        const save: any = Object.create(SaveCompanyConfigTransaction.prototype);
+        const ctx = saveCtx(config, { changes: { conditionRules: [{ rule: 'voltgae' }] } });
+        await expect(save.checkout(ctx)).rejects.toMatchObject({
+            code: 'INVALID_INPUT',
+            issues: [expect.objectContaining({ path: 'changes.conditionRules[0].rule', code: 'invalid_enum' })],
+        });
+        expect(ctx.checkout).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,78 @@
+import { CompanyConfig } from '../types/company-config';
+import { CompanyConfigNotFoundError } from './update-site-errors';
+
+export interface CompanyConfigService {
+    // the current company config; callers share the cached object and must not modify it
+    current: (ctx) => Promise<CompanyConfig>;
+    invalidate: () => void;
+}
+
+export interface CompanyConfigServiceOptions {
+    // an unchanged current config is reloaded after this many milliseconds at the latest
+    maxAge?: number;
+    now?: () => number;
+}
+
+// matches the cached config only while its version is unchanged; configs saved before
+// versioning have none
+const versionFilter = (config: { version?: number }) =>
+    config.version === undefined ? { $exists: false } : config.version;
+
+const loadCompanyConfig = async (ctx) => {
+    const [ currentId ] = await ctx.queryIds('companyConfigs', { filter: { isCurrent: true }, limit: 1 });
+    if (!currentId) {
+        throw new CompanyConfigNotFoundError();
+    }
+    const config: CompanyConfig & { version?: number } = await ctx.getStrict('companyConfigs', currentId);
+    return { id: currentId.toString() as string, config };
+};
+
+/**
+ * Caches the current company config for the transactions it is passed to. It reads through
+ * each transaction's own store, so a lookup costs one id query while the cache is warm: the
+ * query only finds the cached config while it is still current and still at the cached
+ * version, so a new current config or a versioned edit is picked up at once. Edits that do
+ * not bump the version are picked up after `maxAge`, or at once by calling `invalidate`.
+ */
+export const createCompanyConfigService = ({ maxAge = 5 * 60 * 1000, now = Date.now }: CompanyConfigServiceOptions = {}): CompanyConfigService => {
+    let cached: { id: string, config: CompanyConfig & { version?: number }, loadedAt: number } | undefined;
+    return {
+        async current (ctx) {
+            if (cached && now() - cached.loadedAt < maxAge) {
+                const [ unchangedId ] = await ctx.queryIds('companyConfigs', {
+                    filter: { isCurrent: true, version: versionFilter(cached.config) },
+                    limit: 1,
+                });
+                if (unchangedId && unchangedId.toString() === cached.id) {
+                    return cached.config;
+                }
+            }
+            const { id, config } = await loadCompanyConfig(ctx);
+            cached = { id, config, loadedAt: now() };
+            return config;
+        },
+        invalidate () {
+            cached = undefined;
+        },
+    };
+};
+
+// the service of the app, shared by every transaction not given another one
+export const companyConfigService = createCompanyConfigService();
+
+// transaction inputs may name another service, e.g. one per test
+export type CompanyConfigServiceInput = {
+    companyConfigService?: CompanyConfigService;
+};
+
+/**
+ * The service passed in a transaction input as `companyConfigService`, else the shared one.
+ */
+export const serviceFor = (input?: CompanyConfigServiceInput) =>
+    (input && input.companyConfigService) || companyConfigService;
+
+/**
+ * The current company config for a transaction, read through `serviceFor` its input.
+ */
+export const readCompanyConfig = (ctx: { queryIds, getStrict, input?: CompanyConfigServiceInput }): Promise<CompanyConfig> =>
+    serviceFor(ctx.input).current(ctx);
@@ -0,0 +1,127 @@
+import { Site } from '../types/site';
+import { PowerPlant } from '../types/power-plant';
+import { CompanyConfig } from '../types/company-config';
+import { NotificationChannel, NotificationInput, NotificationSubscription, OutboxEntry, enqueueNotification } from './notifications';
+import { findRegion, regionChain } from './regions';
+import { RoleAssociation, activeAssociationFilter } from './site-roles';
+
+// optional company config fields read here
+interface ConditionNotificationConfig {
+    conditionNotifications?: {
+        enabled?: boolean;
+        escalation?: boolean;
+        recovery?: boolean;
+        // site roles told about every change of their sites
+        notifyRoles?: string[];
+        // minutes within which a repeated notification is dropped
+        dedupeWindow?: number;
+    };
+}
+
+export const conditionLabels = ['ok', 'warn', 'critical'];
+
+// channels of users notified by role or as region manager without a subscription
+const defaultChannels: NotificationChannel[] = ['email', 'in-app'];
+
+interface ConditionChangeEvent {
+    site: Site;
+    powerPlant: PowerPlant;
+    routine: { id: string };
+    prev: number;
+    next: number;
+    companyConfig?: CompanyConfig;
+}
+
+const findSubscriptions = async (ctx, filter): Promise<NotificationSubscription[]> => {
+    const ids: string[] = await ctx.queryIds('notificationSubscriptions', { filter });
+    return Promise.all(ids.map((id) => ctx.getStrict('notificationSubscriptions', id)));
+};
+
+/**
+ * Queues notifications for a plant whose condition escalated or recovered. They go to the
+ * site's role holders (the primary technician by default) and its district managers, and
+ * to users subscribed to the site or one of its regions; subscriptions also narrow what a
+ * role holder or manager receives.
+ */
+export const notifyConditionChange = async (ctx, { site, powerPlant, routine, prev, next, companyConfig }: ConditionChangeEvent): Promise<OutboxEntry[]> => {
+    const { conditionNotifications: settings = {} } = (companyConfig || {}) as ConditionNotificationConfig;
+    const { enabled = true, escalation = true, recovery = true, notifyRoles = ['primary-technician'], dedupeWindow } = settings;
+    const escalated = next > prev;
+    if (!enabled || prev === next || (escalated && !escalation) || (!escalated && !recovery)) {
+        return [];
+    }
+    const event = escalated ? 'condition-escalation' : 'condition-recovery';
+
+    const recipients = new Set<string>();
+    for (const role of notifyRoles) {
+        const [ roleTypeId ] = await ctx.queryIds('siteUserAssociationTypes', { filter: { name: role } });
+        if (!roleTypeId) {
+            continue;
+        }
+        const associationIds: string[] = await ctx.queryIds('siteUserAssociations', {
+            filter: { site: site.id, associationType: roleTypeId, ...activeAssociationFilter(new Date()) },
+        });
+        for (const id of associationIds) {
+            const association: RoleAssociation = await ctx.getStrict('siteUserAssociations', id);
+            recipients.add(association.user);
+        }
+    }
+    const district = site.region ? await findRegion(ctx, site.region) : undefined;
+    (district ? district.managers : []).forEach((user) => recipients.add(user));
+
+    const regions = site.region ? await regionChain(ctx, site.region) : [];
+    const subscriptions = [
+        ...await findSubscriptions(ctx, { user: { $in: Array.from(recipients) } }),
+        ...(regions.length ? await findSubscriptions(ctx, { regions: { $in: regions } }) : []),
+        ...await findSubscriptions(ctx, { siteNums: site.siteNum }),
+    ];
+    const subscriptionOf = new Map<string, NotificationSubscription>();
+    subscriptions.forEach((subscription) => subscriptionOf.set(subscription.user, subscription));
+    subscriptionOf.forEach((_subscription, user) => recipients.add(user));
+
+    const notification: NotificationInput = {
+        type: event,
+        title: `Site ${site.siteNum} plant ${powerPlant.name} ${escalated ? 'escalated' : 'recovered'} to ${conditionLabels[next]}`,
+        message: `The condition of plant ${powerPlant.name} on site ${site.siteNum} changed from ${conditionLabels[prev]} to ${conditionLabels[next]}.`,
+        site: site.id,
+        context: { powerPlant: powerPlant.id, routine: routine.id, prev, new: next },
+    };
+
+    const queued: OutboxEntry[] = [];
+    for (const user of Array.from(recipients)) {
+        const subscription = subscriptionOf.get(user);
+        if (subscription && subscription.events.length && !subscription.events.includes(event)) {
+            continue;
+        }
+        if (subscription && escalated && subscription.minCondition !== undefined && next < subscription.minCondition) {
+            continue;
+        }
+        for (const channel of subscription ? subscription.channels : defaultChannels) {
+            let address: string | undefined;
+            if (channel === 'email') {
+                const account = await ctx.getStrict('users', user).catch(() => undefined);
+                address = account && account.email;
+            }
+            else if (channel === 'webhook') {
+                address = subscription && subscription.webhookUrl;
+            }
+            if (channel !== 'in-app' && !address) {
+                continue;
+            }
+            const entry = await enqueueNotification(ctx, {
+                channel,
+                user,
+                address,
+                notification,
+                dedupeKey: `${event}:${powerPlant.id}:${next}:${user}:${channel}`,
+                quietHours: subscription && subscription.quietHours,
+                urgent: next === 2,
+                dedupeWindow,
+            });
+            if (entry) {
+                queued.push(entry);
+            }
+        }
+    }
+    return queued;
+};
@@ -0,0 +1,100 @@
+import { ConditionFacts, ConditionRuleSetting, registerConditionRule, evaluateConditionRules, validateConditionRuleConfig } from './condition-rules';
+
+// reports the status it is configured with, so the tests do not depend on the plant maths
+registerConditionRule({
+    name: 'fixed',
+    evaluate: (facts, { status }: { status?: number }) => status === undefined ? undefined : { status, details: { status } },
+});
+
+const factsWith = (conditionRules: ConditionRuleSetting[], fields: Partial<ConditionFacts> = {}, conditionCombiner?: 'max' | 'weighted') => ({
+    site: { locationType: 'rural' },
+    siteConfig: { id: 'siteConfig1' },
+    companyConfig: { conditionRules, conditionCombiner },
+    load: 40,
+    voltage: 53.5,
+    temperature: 25,
+    utilization: 30,
+    actualCapacity: 100,
+    worstBlockConductanceHealth: 90,
+    ...fields,
+}) as any as ConditionFacts;
+
+describe('evaluateConditionRules', () => {
+    it('takes the worst status of the enabled rules by default', () => {
+        const evaluation = evaluateConditionRules(factsWith([
+            { rule: 'fixed', params: { status: 1 } },
+            { rule: 'fixed', params: { status: 2 }, enabled: false },
+            { rule: 'override' },
+            { rule: 'unknown' },
+        ]));
+        expect(evaluation.condition).toBe(1);
+        expect(evaluation.combiner).toBe('max');
+        expect(evaluation.results).toEqual([
+            { rule: 'fixed', status: 1, weight: 1, skipped: false, details: { status: 1 } },
+            { rule: 'override', status: 0, weight: 1, skipped: false, details: { conditionOverride: undefined } },
+        ]);
+        expect(evaluation.inputs).toMatchObject({ siteConfig: 'siteConfig1', load: 40, voltage: 53.5, worstBlockConductanceHealth: 90 });
+    });
+
+    it('averages the statuses by weight and rounds them to a condition when weighted', () => {
+        const settings = [
+            { rule: 'fixed', params: { status: 2 }, weight: 1 },
+            { rule: 'fixed', params: { status: 0 }, weight: 2 },
+        ];
+        expect(evaluateConditionRules(factsWith(settings, {}, 'weighted')).condition).toBe(1);
+        settings[1].weight = 4;
+        expect(evaluateConditionRules(factsWith(settings, {}, 'weighted')).condition).toBe(0);
+    });
+
+    it('keeps rules that do not apply out of the condition', () => {
+        const evaluation = evaluateConditionRules(factsWith([
+            { rule: 'fixed', params: { status: 1 } },
+            { rule: 'fixed' },
+            { rule: 'temperature', params: { ignoreLocationTypes: ['rural'] } },
+        ], {}, 'weighted'));
+        expect(evaluation.condition).toBe(1);
+        expect(evaluation.results.map(({ rule, skipped }) => ({ rule, skipped }))).toEqual([
+            { rule: 'fixed', skipped: false },
+            { rule: 'fixed', skipped: true },
+            { rule: 'temperature', skipped: true },
+        ]);
+    });
+
+    it('is 0 when no rule applies', () => {
+        expect(evaluateConditionRules(factsWith([{ rule: 'fixed' }])).condition).toBe(0);
+    });
+
+    it('turns a warn override into 1 and any other override into 2', () => {
+        expect(evaluateConditionRules(factsWith([{ rule: 'override' }], { conditionOverride: 'warn' })).condition).toBe(1);
+        expect(evaluateConditionRules(factsWith([{ rule: 'override' }], { conditionOverride: 'critical' })).condition).toBe(2);
+    });
+
+    it('rates conductance health against the configured bounds', () => {
+        const statusAt = (worstBlockConductanceHealth: number | undefined, params?: object) =>
+            evaluateConditionRules(factsWith([{ rule: 'conductance-health', params }], { worstBlockConductanceHealth: worstBlockConductanceHealth as number })).results[0];
+        expect(statusAt(85).status).toBe(0);
+        expect(statusAt(79).status).toBe(1);
+        expect(statusAt(59).status).toBe(2);
+        expect(statusAt(85, { warnBelow: 90, criticalBelow: 70 }).status).toBe(1);
+        expect(statusAt(undefined).skipped).toBe(true);
+    });
+});
+
+describe('validateConditionRuleConfig', () => {
+    it('accepts registered rules and a known combiner', () => {
+        expect(validateConditionRuleConfig({
+            conditionRules: [{ rule: 'fixed', weight: 2 }, { rule: 'override', enabled: false }],
+            conditionCombiner: 'weighted',
+        })).toEqual([]);
+    });
+
+    it('rejects unknown rule names instead of letting evaluation skip them', () => {
+        const issues = validateConditionRuleConfig({ conditionRules: [{ rule: 'fixed' }, { rule: 'voltgae' }] });
+        expect(issues).toEqual([expect.objectContaining({ path: 'conditionRules[1].rule', code: 'invalid_enum' })]);
+    });
+
+    it('rejects missing rule names, bad weights and unknown combiners', () => {
+        const issues = validateConditionRuleConfig({ conditionRules: [{ weight: -1 }], conditionCombiner: 'min' });
+        expect(issues.map(({ path }) => path)).toEqual(['conditionRules[0].rule', 'conditionRules[0].weight', 'conditionCombiner']);
+    });
+});
@@ -0,0 +1,303 @@
+import { findUtilizationStatus } from 'dugo-lib/lib/computers/power-plant';
+import { findTempStatus } from 'dugo-lib/lib/computers/battery';
+import { calcRuntime, findRuntimeStatus, findRuntimeThresholds, calcFloatVoltagePerJar, calcNominalFloatVoltageRanges, findFloatVoltageStatus } from 'dugo-lib/lib/computers/battery-plant';
+import percisionRound from 'dugo-lib/lib/utils/percision-round';
+import { Site } from '../types/site';
+import { SiteConfig } from '../types/site-config';
+import { PlantConfig } from '../types/plant-config';
+import { Routine } from '../types/routine';
+import { BatteryType } from '../types/battery-type';
+import { CompanyConfig } from '../types/company-config';
+import { ManagedGenerator, minGeneratorAutonomyOf } from './generator-lifecycle';
+import { ValidationIssue, isBlank, checkEnum, checkNumber, checkObjectArray } from './validation';
+
+/**
+ * Everything the rules may look at, loaded once per evaluation by loadConditionFacts.
+ */
+export interface ConditionFacts {
+    site: Site;
+    siteConfig: SiteConfig;
+    plantConfig: PlantConfig;
+    routine: Routine;
+    companyConfig: CompanyConfig;
+    powerPlantType: { voltage: number; model: string };
+    primaryBatteryType?: BatteryType;
+    conditionOverride?: string;
+    // the generator installed on the routine date, if any
+    generator?: ManagedGenerator;
+    // hours the generator can carry the plant, undefined when its fuel details are unknown
+    generatorAutonomy?: number;
+    load: number;
+    voltage: number;
+    temperature: number;
+    utilization: number;
+    actualCapacity: number;
+    worstBlockConductanceHealth: number;
+}
+
+export interface ConditionRuleOutcome {
+    status: number;
+    // the values the status was derived from, kept so a condition can be explained later
+    details?: { [key: string]: any };
+}
+
+export interface ConditionRule {
+    name: string;
+    // returns undefined when the rule does not apply to the plant
+    evaluate: (facts: ConditionFacts, params: any) => ConditionRuleOutcome | undefined;
+}
+
+export interface ConditionRuleSetting {
+    rule: string;
+    enabled?: boolean;
+    weight?: number;
+    params?: any;
+}
+
+export interface ConditionRuleResult {
+    rule: string;
+    status?: number;
+    weight: number;
+    skipped: boolean;
+    details?: { [key: string]: any };
+}
+
+export interface ConditionEvaluation {
+    condition: number;
+    combiner: 'max' | 'weighted';
+    inputs: {
+        siteConfig: string;
+        load: number;
+        voltage: number;
+        temperature: number;
+        utilization: number;
+        actualCapacity: number;
+        worstBlockConductanceHealth: number;
+        generatorAutonomy?: number;
+    };
+    results: ConditionRuleResult[];
+}
+
+// optional company config fields read by the engine
+interface ConditionRuleConfig {
+    conditionRules?: ConditionRuleSetting[];
+    conditionCombiner?: 'max' | 'weighted';
+}
+
+const rules = new Map<string, ConditionRule>();
+
+export const registerConditionRule = (rule: ConditionRule) => {
+    rules.set(rule.name, rule);
+};
+
+export const overrideRule: ConditionRule = {
+    name: 'override',
+    evaluate: ({ conditionOverride }) => ({
+        status: conditionOverride ?
+            (
+                conditionOverride === 'warn' ?
+                    1 : 2
+            ) :
+            0,
+        details: { conditionOverride },
+    }),
+};
+
+export const runtimeRule: ConditionRule = {
+    name: 'runtime',
+    evaluate: (
+        { site, plantConfig, companyConfig, powerPlantType, generator, generatorAutonomy, load, voltage, actualCapacity },
+    ) => {
+        const minGeneratorAutonomy = minGeneratorAutonomyOf(companyConfig);
+        const runtime = calcRuntime(
+            actualCapacity, powerPlantType.voltage, load, voltage, companyConfig.runtimeDegradationMultiplier
+        );
+        // a generator only relaxes the thresholds when it can carry the plant long enough;
+        // generators recorded without fuel details are trusted as before
+        const hasGenerator = !!generator &&
+            (generatorAutonomy === undefined || generatorAutonomy >= minGeneratorAutonomy);
+        const thresholdInputs = {
+            hasGenerator,
+            locationType: site.locationType,
+            transmissionConfig: plantConfig.transmissionConfig,
+        };
+        const thresholdsOverridden = !(plantConfig.optimalRuntimeThresholdsOverride && !plantConfig.optimalRuntimeThresholdsOverride!.length);
+        const runtimeThresholds = !thresholdsOverridden
+            ? findRuntimeThresholds(
+                companyConfig.optimalRuntimeFunctionName,
+                companyConfig.runtimeThresholdTable,
+                thresholdInputs
+            ) : plantConfig.optimalRuntimeThresholdsOverride;
+        const roundedRuntime = percisionRound(runtime, companyConfig.runtimePercision);
+        return {
+            status: findRuntimeStatus(roundedRuntime, runtimeThresholds),
+            details: {
+                runtime: roundedRuntime,
+                runtimeThresholds,
+                thresholdsOverridden,
+                ...thresholdInputs,
+                generatorAutonomy,
+                minGeneratorAutonomy,
+                referenceVoltage: powerPlantType.voltage,
+                runtimeDegradationMultiplier: companyConfig.runtimeDegradationMultiplier,
+            },
+        };
+    },
+};
+
+export const utilizationRule: ConditionRule = {
+    name: 'utilization',
+    evaluate: ({ companyConfig, utilization }) => {
+        const roundedUtilization = percisionRound(utilization, companyConfig.utilizationPercision);
+        const utilizationThresholds = companyConfig.utilizationThresholdTable[0];
+        return {
+            status: findUtilizationStatus(roundedUtilization, utilizationThresholds),
+            details: { utilization: roundedUtilization, utilizationThresholds },
+        };
+    },
+};
+
+export const floatVoltageRule: ConditionRule = {
+    name: 'float-voltage',
+    evaluate: ({ plantConfig, primaryBatteryType, powerPlantType, companyConfig, temperature, voltage }) => {
+        const thermalProbe = plantConfig.thermalProbe;
+        if (
+            thermalProbe === undefined ||
+            !primaryBatteryType ||
+            primaryBatteryType.nominalVPCVoltage === undefined ||
+            primaryBatteryType.compVoltPerCelsius === undefined
+        ) {
+            return { status: 0, details: { thermalProbe, checked: false } };
+        }
+        const floatVoltagePerBlock = calcFloatVoltagePerJar(
+            temperature,
+            thermalProbe,
+            primaryBatteryType as {
+                nominalVPCVoltage: number;
+                compVoltPerCelsius: number;
+                voltage: number;
+            },
+            powerPlantType.model
+        );
+        const floatVoltageRanges = calcNominalFloatVoltageRanges(
+            floatVoltagePerBlock,
+            primaryBatteryType.voltage,
+            powerPlantType.voltage,
+            companyConfig.criticalFloatMod
+        );
+        return {
+            status: findFloatVoltageStatus(floatVoltageRanges, voltage),
+            details: { checked: true, thermalProbe, temperature, voltage, floatVoltagePerBlock, floatVoltageRanges },
+        };
+    },
+};
+
+export const temperatureRule: ConditionRule = {
+    name: 'temperature',
+    evaluate: ({ site, temperature }, { ignoreLocationTypes = [] }: { ignoreLocationTypes?: string[] } = {}) =>
+        ignoreLocationTypes.includes(site.locationType) ?
+            undefined :
+            { status: findTempStatus(temperature), details: { temperature } },
+};
+
+export const conductanceHealthRule: ConditionRule = {
+    name: 'conductance-health',
+    evaluate: ({ worstBlockConductanceHealth }, { warnBelow = 80, criticalBelow = 60 }: { warnBelow?: number, criticalBelow?: number } = {}) => {
+        if (worstBlockConductanceHealth === undefined || worstBlockConductanceHealth === null) {
+            return undefined;
+        }
+        return {
+            status: worstBlockConductanceHealth < criticalBelow ?
+                2 :
+                worstBlockConductanceHealth < warnBelow ?
+                    1 : 0,
+            details: { worstBlockConductanceHealth, warnBelow, criticalBelow },
+        };
+    },
+};
+
+[overrideRule, runtimeRule, utilizationRule, floatVoltageRule, temperatureRule, conductanceHealthRule]
+    .forEach(registerConditionRule);
+
+// matches the hard-coded Math.max the condition used before rules were configurable
+export const defaultConditionRules: ConditionRuleSetting[] = [
+    { rule: 'override' },
+    { rule: 'runtime' },
+    { rule: 'utilization' },
+    { rule: 'float-voltage' },
+    { rule: 'temperature' },
+];
+
+export const conditionCombiners = ['max', 'weighted'];
+
+/**
+ * Checks the condition rule settings of a company config. Rule names must be registered,
+ * as evaluation skips unknown ones and a misspelt rule would silently stop rating plants.
+ */
+export const validateConditionRuleConfig = (config: any): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    checkObjectArray(issues, 'conditionRules', config.conditionRules, (path, setting) => {
+        if (isBlank(setting.rule)) {
+            issues.push({ path: `${path}.rule`, code: 'required', message: `${path}.rule is required` });
+        }
+        else if (!rules.has(setting.rule)) {
+            issues.push({ path: `${path}.rule`, code: 'invalid_enum', message: `${path}.rule must be one of ${Array.from(rules.keys()).join(', ')}` });
+        }
+        if (!isBlank(setting.enabled) && typeof setting.enabled !== 'boolean') {
+            issues.push({ path: `${path}.enabled`, code: 'invalid_type', message: `${path}.enabled must be a boolean` });
+        }
+        checkNumber(issues, `${path}.weight`, setting.weight, [0, 1000]);
+    });
+    checkEnum(issues, 'conditionCombiner', config.conditionCombiner, conditionCombiners);
+    return issues;
+};
+
+/**
+ * Runs the rules enabled for the company and combines their statuses, either as the
+ * worst status ('max', the default) or as a weighted average rounded to a condition.
+ */
+export const evaluateConditionRules = (facts: ConditionFacts): ConditionEvaluation => {
+    const { conditionRules, conditionCombiner = 'max' } = facts.companyConfig as CompanyConfig & ConditionRuleConfig;
+    const settings = conditionRules && conditionRules.length ? conditionRules : defaultConditionRules;
+
+    const results: ConditionRuleResult[] = [];
+    for (const { rule: name, enabled = true, weight = 1, params } of settings) {
+        const rule = rules.get(name);
+        if (!enabled || !rule) {
+            continue;
+        }
+        const outcome = rule.evaluate(facts, params || {});
+        results.push(outcome ?
+            { rule: name, status: outcome.status, weight, skipped: false, details: outcome.details } :
+            { rule: name, weight, skipped: true });
+    }
+
+    const applied = results.filter(({ skipped }) => !skipped);
+    let condition = 0;
+    if (applied.length && conditionCombiner === 'weighted') {
+        const totalWeight = applied.reduce((sum, { weight }) => sum + weight, 0);
+        condition = totalWeight ?
+            Math.round(applied.reduce((sum, { status, weight }) => sum + status! * weight, 0) / totalWeight) :
+            0;
+    }
+    else if (applied.length) {
+        condition = Math.max(...applied.map(({ status }) => status!));
+    }
+
+    const { siteConfig, load, voltage, temperature, utilization, actualCapacity, worstBlockConductanceHealth, generatorAutonomy } = facts;
+    return {
+        condition,
+        combiner: conditionCombiner,
+        inputs: {
+            siteConfig: siteConfig.id,
+            load,
+            voltage,
+            temperature,
+            utilization,
+            actualCapacity,
+            worstBlockConductanceHealth,
+            generatorAutonomy,
+        },
+        results,
+    };
+};
@@ -0,0 +1,54 @@
+import { parseCsv, parseCsvRecords, toCsv } from './csv';
+
+describe('parseCsv', () => {
+    it('keeps commas, newlines and doubled quotes inside quoted fields', () => {
+        const rows = parseCsv('name,comment\r\n"Site, north","said ""hi""\nthen left"\r\n');
+        expect(rows).toEqual([
+            ['name', 'comment'],
+            ['Site, north', 'said "hi"\nthen left'],
+        ]);
+    });
+
+    it('skips blank lines unless asked to keep them', () => {
+        const text = 'a,b\n\n1,2\n';
+        expect(parseCsv(text)).toEqual([['a', 'b'], ['1', '2']]);
+        expect(parseCsv(text, { keepBlank: true })).toEqual([['a', 'b'], [''], ['1', '2']]);
+    });
+
+    it('reads tab separated text when the first line has no comma', () => {
+        expect(parseCsv('serial\tposition\nAB-1234\t3')).toEqual([['serial', 'position'], ['AB-1234', '3']]);
+    });
+
+    it('drops a byte order mark and reads a last line without a newline', () => {
+        expect(parseCsv('\uFEFFa,b\n1,')).toEqual([['a', 'b'], ['1', '']]);
+    });
+});
+
+describe('parseCsvRecords', () => {
+    it('keys each line by the trimmed header and fills missing cells with empty strings', () => {
+        expect(parseCsvRecords(' serial , position\nAB-1234 ,3\nCD-5678')).toEqual([
+            { serial: 'AB-1234', position: '3' },
+            { serial: 'CD-5678', position: '' },
+        ]);
+    });
+
+    it('returns nothing for an empty file', () => {
+        expect(parseCsvRecords('')).toEqual([]);
+    });
+});
+
+describe('toCsv', () => {
+    it('quotes cells that need it and round trips through parseCsv', () => {
+        const rows = [
+            { site: 'S1, north', date: new Date('2024-03-01T00:00:00Z'), condition: 3 },
+            { site: 'S2 "old"', condition: null },
+        ];
+        const text = toCsv(['site', 'date', 'condition'], rows);
+        expect(text).toBe('site,date,condition\r\n"S1, north",2024-03-01T00:00:00.000Z,3\r\n"S2 ""old""",,\r\n');
+        expect(parseCsv(text)).toEqual([
+            ['site', 'date', 'condition'],
+            ['S1, north', '2024-03-01T00:00:00.000Z', '3'],
+            ['S2 "old"', '', ''],
+        ]);
+    });
+});
@@ -0,0 +1,87 @@
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes. Blank
+ * lines are skipped unless `keepBlank` is set, e.g. to report row numbers. Tabs are accepted
+ * as the delimiter when the first line has no comma, since barcode scanners and spreadsheets
+ * often export tab-separated text.
+ */
+export const parseCsv = (text: string, { keepBlank = false } = {}): string[][] => {
+    const source = text.replace(/^\uFEFF/, '');
+    const firstLine = source.split(/\r?\n/, 1)[0] || '';
+    const delimiter = !firstLine.includes(',') && firstLine.includes('\t') ? '\t' : ',';
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (quoted) {
+            if (char === '"' && source[i + 1] === '"') {
+                field += '"';
+                i++;
+            }
+            else if (char === '"') {
+                quoted = false;
+            }
+            else {
+                field += char;
+            }
+        }
+        else if (char === '"' && !field) {
+            quoted = true;
+        }
+        else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        }
+        else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') {
+                i++;
+            }
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        }
+        else {
+            field += char;
+        }
+    }
+    if (field || row.length) {
+        row.push(field);
+        rows.push(row);
+    }
+    return keepBlank ? rows : rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+};
+
+/**
+ * Parses CSV with a header row into one object per line, keyed by the trimmed header names.
+ */
+export const parseCsvRecords = (text: string): { [column: string]: string }[] => {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) {
+        return [];
+    }
+    const columns = header.map((name) => name.trim());
+    return rows.map((cells) => {
+        const record: { [column: string]: string } = {};
+        columns.forEach((column, i) => {
+            record[column] = (cells[i] || '').trim();
+        });
+        return record;
+    });
+};
+
+const escapeCell = (value: any) => {
+    const text = value === undefined || value === null ?
+        '' :
+        value instanceof Date ? value.toISOString() : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Writes rows of objects as CSV with the given columns as header.
+ */
+export const toCsv = (columns: string[], rows: { [column: string]: any }[]) =>
+    [columns, ...rows.map((row) => columns.map((column) => row[column]))]
+        .map((cells) => cells.map(escapeCell).join(','))
+        .join('\r\n') + '\r\n';
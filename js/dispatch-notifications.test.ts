@@ -0,0 +1,89 @@
+import { dispatchNotifications } from './dispatch-notifications';
+import RecordNotificationDeliveryTransaction from './record-notification-delivery';
+
+jest.mock('../../envs', () => ({}));
+
+const notification = { type: 'condition-escalation', title: 'S1 is critical', message: 'Plant P1 went from warn to critical' };
+
+const outboxEntry = (id: string, channel: string, address?: string): any => ({
+    id,
+    channel,
+    user: 'user1',
+    address,
+    notification,
+    dedupeKey: id,
+    status: 'pending',
+    attempts: 0,
+    notBefore: new Date(),
+    createdAt: new Date(),
+});
+
+describe('dispatchNotifications', () => {
+    it('sends with no transaction open and records each attempt on its own', async () => {
+        const order: string[] = [];
+        const listDue = jest.fn(async () => [
+            outboxEntry('email1', 'email', 'ops@example.com'),
+            outboxEntry('webhook1', 'webhook', 'https://hooks.example.com/notify'),
+            outboxEntry('inApp1', 'in-app'),
+        ]);
+        const record = jest.fn(async ({ entry, delivery }: any) => {
+            order.push(`record:${entry}`);
+            return { status: delivery.error ? 'pending' : 'sent' } as any;
+        });
+        const mailer = { send: jest.fn(async () => { order.push('send:email1'); return { messageId: '<1@smtp>' }; }) };
+        const postWebhook = jest.fn(async () => { order.push('post:webhook1'); throw new Error('webhook hooks.example.com answered 503'); });
+
+        const summary = await dispatchNotifications({ listDue, record }, { limit: 10, maxAttempts: 3, senders: { mailer, postWebhook } });
+
+        expect(listDue).toHaveBeenCalledWith({ limit: 10 });
+        expect(order).toEqual(['send:email1', 'record:email1', 'post:webhook1', 'record:webhook1', 'record:inApp1']);
+        expect(mailer.send).toHaveBeenCalledWith({ to: 'ops@example.com', subject: 'S1 is critical', text: 'Plant P1 went from warn to critical' });
+        expect(record.mock.calls.map(([{ entry, delivery, maxAttempts }]) => [entry, delivery.error, maxAttempts])).toEqual([
+            ['email1', undefined, 3],
+            ['webhook1', 'webhook hooks.example.com answered 503', 3],
+            ['inApp1', undefined, 3],
+        ]);
+        expect(summary).toEqual({ sent: 2, failed: 0, retrying: 1 });
+    });
+
+    it('carries on when recording an attempt fails', async () => {
+        const record = jest.fn()
+            .mockRejectedValueOnce(new Error('write conflict'))
+            .mockResolvedValueOnce({ status: 'sent' });
+        const mailer = { send: jest.fn(async () => ({ messageId: '<1@smtp>' })) };
+        const listDue = async () => [outboxEntry('email1', 'email', 'a@example.com'), outboxEntry('email2', 'email', 'b@example.com')];
+
+        const summary = await dispatchNotifications({ listDue, record }, { senders: { mailer } });
+
+        expect(mailer.send).toHaveBeenCalledTimes(2);
+        expect(summary).toEqual({ sent: 1, failed: 0, retrying: 1 });
+    });
+});
+
+describe('RecordNotificationDeliveryTransaction', () => {
+    const recordDelivery = async (entry: any, input: any) => {
+        const transaction: any = Object.create(RecordNotificationDeliveryTransaction.prototype);
+        const create = jest.fn(async (collection: string, data: any) => ({ ...data, id: `${collection}1` }));
+        const result = await transaction.operation({ data: { entry }, input: { entry: entry.id, ...input }, create });
+        return { result, create };
+    };
+
+    it('fails an entry once it ran out of attempts', async () => {
+        const entry = { ...outboxEntry('email1', 'email', 'ops@example.com'), attempts: 2 };
+        const { result } = await recordDelivery(entry, { delivery: { attemptedAt: new Date(), error: 'mailbox unavailable' }, maxAttempts: 3 });
+        expect(result).toMatchObject({ status: 'failed', attempts: 3, error: 'mailbox unavailable' });
+    });
+
+    it('creates in-app notifications when recording them', async () => {
+        const attemptedAt = new Date();
+        const { result, create } = await recordDelivery(outboxEntry('inApp1', 'in-app'), { delivery: { attemptedAt } });
+        expect(create).toHaveBeenCalledWith('notifications', expect.objectContaining({ user: 'user1' }));
+        expect(result).toMatchObject({ status: 'sent', attempts: 1, sentAt: attemptedAt });
+    });
+
+    it('leaves an entry another run settled alone', async () => {
+        const entry = { ...outboxEntry('email1', 'email', 'ops@example.com'), status: 'sent', attempts: 1 };
+        const { result } = await recordDelivery(entry, { delivery: { attemptedAt: new Date(), error: 'timed out' } });
+        expect(result).toMatchObject({ status: 'sent', attempts: 1 });
+    });
+});
@@ -0,0 +1,125 @@
+import * as https from 'https';
+import { URL } from 'url';
+import createLogger from '../../logger';
+import { Mailer } from './mailer';
+import { OutboxEntry } from './notifications';
+import { webhookUrlProblem, publicLookup } from './webhook-url';
+import { ListDueNotificationsTransactionInput } from './list-due-notifications';
+import { RecordNotificationDeliveryTransactionInput, NotificationDelivery } from './record-notification-delivery';
+
+const logger = createLogger({ label: 'Dispatch Notifications' });
+
+export type DispatchNotificationsInput = {
+    limit?: number;
+    // failed deliveries are retried until they have been attempted this often
+    maxAttempts?: number;
+    // how email and webhooks are sent, see `notificationSenders`
+    senders: Pick<NotificationSenders, 'mailer'> & Partial<NotificationSenders>;
+};
+
+export interface DispatchSummary {
+    sent: number;
+    failed: number;
+    retrying: number;
+}
+
+export interface NotificationSenders {
+    mailer: Mailer;
+    postWebhook: (url: string, payload: any) => Promise<void>;
+}
+
+/**
+ * Posts `payload` as JSON over https, treating any non-2xx answer as a failure. Urls to
+ * private hosts are refused, also when a public name resolves to one.
+ */
+export const postWebhook = (url: string, payload: any) => new Promise<void>((resolve, reject) => {
+    const problem = webhookUrlProblem(url);
+    if (problem) {
+        reject(new Error(`webhook url ${problem}`));
+        return;
+    }
+    const target = new URL(url);
+    const body = JSON.stringify(payload);
+    const request = https.request(target, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) },
+        timeout: 10000,
+        lookup: publicLookup,
+    }, (response) => {
+        response.resume();
+        const status = response.statusCode || 0;
+        if (status >= 200 && status < 300) {
+            resolve();
+        }
+        else {
+            reject(new Error(`webhook ${target.host} answered ${status}`));
+        }
+    });
+    request.on('timeout', () => request.destroy(new Error(`webhook ${target.host} timed out`)));
+    request.on('error', reject);
+    request.end(body);
+});
+
+/**
+ * How notifications are sent: the mailer given, e.g. the app's SMTP mailer or a json mailer
+ * locally and in tests, and `postWebhook` unless another poster is given.
+ */
+export const notificationSenders = (senders: Pick<NotificationSenders, 'mailer'> & Partial<NotificationSenders>): NotificationSenders => ({
+    mailer: senders.mailer,
+    postWebhook: senders.postWebhook || postWebhook,
+});
+
+/**
+ * Delivers the outbox entries that are due, oldest first. They are listed by
+ * ListDueNotificationsTransaction and emails and webhooks are sent with no transaction open;
+ * each attempt is then recorded by RecordNotificationDeliveryTransaction on its own, so a
+ * failed write sends at most that one entry again. Deliveries are at least once.
+ */
+export const dispatchNotifications = async (
+    { listDue, record }: {
+        listDue: (input: ListDueNotificationsTransactionInput) => Promise<OutboxEntry[]>,
+        record: (input: RecordNotificationDeliveryTransactionInput) => Promise<OutboxEntry>,
+    },
+    input: DispatchNotificationsInput,
+): Promise<DispatchSummary> => {
+    const { limit, maxAttempts, senders } = input;
+    const { mailer, postWebhook: post } = notificationSenders(senders);
+    const entries = await listDue({ limit });
+    const summary: DispatchSummary = { sent: 0, failed: 0, retrying: 0 };
+
+    for (const { id, channel, user, address, notification } of entries) {
+        const delivery: NotificationDelivery = { attemptedAt: new Date() };
+        try {
+            if (channel === 'email') {
+                await mailer.send({ to: address!, subject: notification.title, text: notification.message });
+            }
+            else if (channel === 'webhook') {
+                await post(address!, { ...notification, user });
+            }
+            // in-app notifications are created when the delivery is recorded
+        } catch (error) {
+            logger.error(error);
+            delivery.error = error.message;
+        }
+        try {
+            const { status } = await record({ entry: id, delivery, maxAttempts });
+            if (status === 'sent') {
+                summary.sent += 1;
+            }
+            else if (status === 'failed') {
+                summary.failed += 1;
+            }
+            else {
+                summary.retrying += 1;
+            }
+        } catch (error) {
+            // the entry stays pending and goes out again next run
+            logger.error(error);
+            summary.retrying += 1;
+        }
+    }
+    if (entries.length) {
+        logger.info(`dispatched ${entries.length} notifications, ${summary.sent} sent, ${summary.failed} failed, ${summary.retrying} retrying`);
+    }
+    return summary;
+};
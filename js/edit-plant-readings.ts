@@ -0,0 +1,156 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { SiteNotFoundError, RectifiersRequiredError, UpdateSiteValidationError, PlantNotFoundError } from './update-site-errors';
+import { applyReadingEdits, ReadingEdit, ReadingChange } from './plant-record-readings';
+import { PlantReadingSeries, PlantReadingBucket, MigratablePlantRecord, findBucketIds, findPlantRecordId, bucketStartOf } from './plant-reading-series';
+import { bumpVersion, assertExpectedVersion } from './versioning';
+import { regionOf } from './regions';
+import { ValidationIssue, readingRanges, isBlank, checkString, checkEnum, checkNumber, checkDate, checkSection } from './validation';
+
+type EditPlantReadingsTransactionInput = {
+    siteNum: string;
+    plantNum: string;
+    edits: ReadingEdit[];
+    submitter?: string;
+    // the plant record version the client read; a stale one fails with a VersionConflictError
+    expectedVersion?: number;
+};
+
+type CCtx = CheckoutCtx<Store, EditPlantReadingsTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    EditPlantReadingsTransactionInput,
+    EditPlantReadingsTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+const readingEditActions = ['insert', 'correct', 'delete'];
+
+/**
+ * Checks the edits of an EditPlantReadingsTransaction; values are only required, and
+ * range-checked for known reading types, when a sample is written.
+ */
+export const validateReadingEdits = (edits: any): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    if (!Array.isArray(edits) || !edits.length) {
+        return [{ path: 'edits', code: 'required', message: 'edits must be a non-empty array' }];
+    }
+    edits.forEach((edit: any, i: number) => {
+        const path = `edits[${i}]`;
+        if (!checkSection(issues, path, edit, true)) {
+            return;
+        }
+        checkString(issues, `${path}.readingType`, edit.readingType, true);
+        checkDate(issues, `${path}.date`, edit.date, true);
+        checkEnum(issues, `${path}.action`, edit.action, readingEditActions);
+        if (isBlank(edit.action)) {
+            issues.push({ path: `${path}.action`, code: 'required', message: `${path}.action is required` });
+        }
+        if (edit.action === 'delete') {
+            return;
+        }
+        if (isBlank(edit.value)) {
+            issues.push({ path: `${path}.value`, code: 'required', message: `${path}.value is required` });
+            return;
+        }
+        checkNumber(issues, `${path}.value`, edit.value, readingRanges[edit.readingType] || [-Infinity, Infinity]);
+    });
+    return issues;
+};
+
+/**
+ * Inserts, corrects or deletes plant readings at exact timestamps. Derived series such as
+ * utilization are recomputed, and every changed sample is logged against the plant.
+ */
+export default class EditPlantReadingsTransaction extends Transaction<EditPlantReadingsTransactionInput, ReadingChange[]> {
+    protected async checkout ({ checkout, queryIds, getStrict, input }: CCtx) {
+        const issues = validateReadingEdits(input.edits);
+        if (issues.length) {
+            throw new UpdateSiteValidationError(issues);
+        }
+        const { siteNum, plantNum } = input;
+        const [ siteId ] = await queryIds('sites', { filter: { siteNum }, limit: 1 });
+        if (!siteId) {
+            throw new SiteNotFoundError(siteNum);
+        }
+        const [ plantId ] = await queryIds('powerPlants', { filter: { site: siteId, name: plantNum }, limit: 1 });
+        if (!plantId) {
+            throw new PlantNotFoundError(siteNum, plantNum);
+        }
+        const [ plantConfigId ] = await queryIds('plantConfigs', { filter: { powerPlant: plantId, isCurrent: true }, limit: 1 });
+        const plantConfig = plantConfigId ? await getStrict('plantConfigs', plantConfigId) : undefined;
+
+        // the plant record holds every series until the plant's readings are migrated, and
+        // their version either way
+        const plantRecordId = await findPlantRecordId(queryIds, plantId);
+        const plantRecord: MigratablePlantRecord | undefined = plantRecordId ? await checkout('plantRecords', plantRecordId) : undefined;
+        if (plantRecord) {
+            assertExpectedVersion('plantRecords', plantRecord, input.expectedVersion);
+        }
+
+        // utilization is recomputed from load and voltage wherever either is edited
+        const bucketIds = new Set<string>();
+        if (!plantRecord || plantRecord.readingsMigratedAt) {
+            for (const { readingType, date } of input.edits) {
+                const readingTypes = readingType === 'load' || readingType === 'voltage' ?
+                    ['load', 'voltage', 'utilization'] :
+                    [readingType];
+                (await findBucketIds(queryIds, plantId, readingTypes, [date])).forEach((id) => bucketIds.add(id));
+            }
+        }
+        const readingBuckets: PlantReadingBucket[] = await Promise.all(
+            Array.from(bucketIds).map((id) => checkout('plantReadingBuckets', id))
+        );
+
+        return {
+            siteId,
+            plantId,
+            plantConfig,
+            plantRecord,
+            readingBuckets,
+        };
+    }
+
+    protected async operation (ctx: OCtx): Promise<ReadingChange[]> {
+        const { siteId, plantId, plantConfig, plantRecord, readingBuckets } = ctx.data;
+        const { siteNum, plantNum, edits, submitter } = ctx.input;
+
+        const rectifierPowers: number[] = [];
+        const touchesUtilization = edits.some(({ readingType }) => readingType === 'load' || readingType === 'voltage');
+        if (touchesUtilization && !(plantConfig && plantConfig.rectifierTypes)) {
+            throw new RectifiersRequiredError({ siteNum, plantNum });
+        }
+        if (touchesUtilization) {
+            for (const id of plantConfig!.rectifierTypes) {
+                if (id) {
+                    const { power } = await ctx.getStrict('rectifierTypes', id.toString());
+                    rectifierPowers.push(power);
+                }
+            }
+        }
+
+        const series = new PlantReadingSeries(ctx, plantId, readingBuckets, plantRecord);
+        const changes = await applyReadingEdits(series, edits, { siteNum, plantNum, rectifierPowers });
+        // buckets created by the edits start at version 0, those edited move on by one
+        for (const bucket of readingBuckets) {
+            const bucketStart = bucketStartOf(bucket.bucketStart).getTime();
+            if (changes.some(({ readingType, date }) => readingType === bucket.readingType && bucketStartOf(date).getTime() === bucketStart)) {
+                bumpVersion(bucket);
+            }
+        }
+        if (plantRecord && changes.length) {
+            bumpVersion(plantRecord);
+        }
+        if (changes.length) {
+            await ctx.create('logItems', {
+                submitter,
+                date: new Date(),
+                site: siteId,
+                powerPlant: plantId,
+                region: await regionOf(ctx, { site: siteId }),
+                commentUpdates: changes,
+            });
+        }
+        return changes;
+    }
+}
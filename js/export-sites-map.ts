@@ -0,0 +1,124 @@
+import * as moment from 'moment';
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { UpdateSiteValidationError } from './update-site-errors';
+import { SiteSearch, SiteSearchResult, findSites, validateSiteSearch } from './site-search';
+import { conditionLabels } from './condition-notifications';
+
+type ExportSitesMapTransactionInput = SiteSearch & {
+    format: 'geojson' | 'kml';
+};
+
+interface MapExport {
+    fileName: string;
+    contentType: string;
+    content: string;
+    sites: number;
+}
+
+type CCtx = CheckoutCtx<Store, ExportSitesMapTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    ExportSitesMapTransactionInput,
+    ExportSitesMapTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+// KML colours are aabbggrr
+const kmlConditionColors = ['ff00b050', 'ff00c0ff', 'ff0000ff'];
+const kmlUnknownColor = 'ff9e9e9e';
+
+const labelOf = (condition?: number) => condition === undefined ? 'unknown' : conditionLabels[condition];
+
+const escapeXml = (value: any) => String(value === undefined || value === null ? '' : value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+export const toGeoJson = (results: SiteSearchResult[]) => JSON.stringify({
+    type: 'FeatureCollection',
+    features: results.map(({ coordinates, site, siteNum, name, region, distanceKm, condition, plants }) => ({
+        type: 'Feature',
+        id: site,
+        geometry: { type: 'Point', coordinates },
+        properties: {
+            siteNum,
+            name,
+            region,
+            distanceKm,
+            condition,
+            conditionLabel: labelOf(condition),
+            plants: plants.map(({ plantNum, condition: plantCondition }) => ({
+                plantNum,
+                condition: plantCondition,
+                conditionLabel: labelOf(plantCondition),
+            })),
+        },
+    })),
+});
+
+/**
+ * One placemark per site, styled by its worst plant condition so GIS tools colour the
+ * fleet without further setup.
+ */
+export const toKml = (results: SiteSearchResult[], title: string) => {
+    const styles = [...conditionLabels, 'unknown'].map((label, i) => [
+        `    <Style id="${label}">`,
+        `      <IconStyle><color>${kmlConditionColors[i] || kmlUnknownColor}</color></IconStyle>`,
+        '    </Style>',
+    ].join('\n'));
+    const placemarks = results.map(({ coordinates: [lng, lat], siteNum, name, region, condition, plants }) => [
+        '    <Placemark>',
+        `      <name>${escapeXml(siteNum)}</name>`,
+        `      <description>${escapeXml(`${name} (${region}): ${plants.map(({ plantNum, condition: plantCondition }) => `${plantNum} ${labelOf(plantCondition)}`).join(', ')}`)}</description>`,
+        `      <styleUrl>#${labelOf(condition)}</styleUrl>`,
+        '      <ExtendedData>',
+        `        <Data name="name"><value>${escapeXml(name)}</value></Data>`,
+        `        <Data name="region"><value>${escapeXml(region)}</value></Data>`,
+        `        <Data name="condition"><value>${labelOf(condition)}</value></Data>`,
+        '      </ExtendedData>',
+        `      <Point><coordinates>${lng},${lat}</coordinates></Point>`,
+        '    </Placemark>',
+    ].join('\n'));
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<kml xmlns="http://www.opengis.net/kml/2.2">',
+        '  <Document>',
+        `    <name>${escapeXml(title)}</name>`,
+        ...styles,
+        ...placemarks,
+        '  </Document>',
+        '</kml>',
+        '',
+    ].join('\n');
+};
+
+/**
+ * Exports the sites matching a search, or the whole fleet without criteria, as GeoJSON or
+ * KML with the current condition of each site and its plants.
+ */
+export default class ExportSitesMapTransaction extends Transaction<ExportSitesMapTransactionInput, MapExport> {
+    protected async checkout ({ queryIds, getStrict, input }: CCtx) {
+        const issues = validateSiteSearch(input);
+        if (issues.length) {
+            throw new UpdateSiteValidationError(issues);
+        }
+        if (!input.format) {
+            throw new UpdateSiteValidationError([{ path: 'format', code: 'required', message: 'format is required' }]);
+        }
+        const results = await findSites({ queryIds, getStrict }, input);
+        return { results };
+    }
+
+    protected async operation (ctx: OCtx): Promise<MapExport> {
+        const { results } = ctx.data;
+        const { format, region } = ctx.input;
+        const title = `Sites${region ? ` in ${region}` : ''} ${moment().format('YYYY-MM-DD')}`;
+        const fileName = `sites${region ? `-${region}` : ''}-${moment().format('YYYY-MM-DD')}`;
+        return format === 'kml' ?
+            { fileName: `${fileName}.kml`, contentType: 'application/vnd.google-earth.kml+xml', content: toKml(results, title), sites: results.length } :
+            { fileName: `${fileName}.geojson`, contentType: 'application/geo+json', content: toGeoJson(results), sites: results.length };
+    }
+}
@@ -0,0 +1,301 @@
+import * as moment from 'moment';
+import * as PDFDocument from 'pdfkit';
+import { Site } from '../types/site';
+import { PowerPlant } from '../types/power-plant';
+import { PlantConfig } from '../types/plant-config';
+import { Routine } from '../types/routine';
+import { CompanyConfig } from '../types/company-config';
+import createLogger from '../../logger';
+import { toCsv } from './csv';
+import { calculateRoutineCondition } from './routine-condition';
+import { calcPlantBatteryHealth } from './battery-health';
+import { conditionLabels } from './condition-notifications';
+import { regionChain } from './regions';
+
+const logger = createLogger({ label: 'Fleet Report' });
+
+export interface FleetReportSettings {
+    // routines further apart than this are overdue
+    routineIntervalDays: number;
+    // strings whose oldest block is older than this are due for replacement
+    maxBatteryAgeYears: number;
+    // plants below this runtime are listed even when their thresholds are met
+    minRuntimeHours?: number;
+    // email addresses the company report goes to; region reports go to the region's managers
+    recipients: string[];
+    // day (0 is Sunday) and UTC hour from which the weekly reports are sent
+    weekday: number;
+    hour: number;
+}
+
+// optional company config fields read by the reports
+interface FleetReportConfig {
+    fleetReports?: Partial<FleetReportSettings>;
+}
+
+export const fleetReportFormats = ['json', 'csv', 'pdf'];
+
+export interface FleetPlantRow {
+    region: string;
+    // the site's district and every region above it
+    regions: string[];
+    siteNum: string;
+    siteName: string;
+    plantNum: string;
+    powerPlant: string;
+    lastRoutineDate?: Date;
+    daysSinceRoutine?: number;
+    routineOverdue: boolean;
+    condition?: number;
+    runtime?: number;
+    // status of the runtime rule, above 0 when the runtime is under its thresholds
+    runtimeStatus?: number;
+    utilization?: number;
+    worstBlockConductanceHealth?: number;
+    oldestBlockAgeYears?: number;
+    stringsPastAgeLimit: number;
+    hasGenerator: boolean;
+    // why the plant could not be evaluated
+    error?: string;
+}
+
+export interface ConditionCounts {
+    ok: number;
+    warn: number;
+    critical: number;
+    unknown: number;
+}
+
+export interface FleetReport {
+    // 'company', or the code of the region the report covers
+    scope: string;
+    generatedAt: Date;
+    settings: FleetReportSettings;
+    counts: ConditionCounts;
+    countsByRegion: { [region: string]: ConditionCounts };
+    withGenerator: number;
+    belowRuntime: FleetPlantRow[];
+    pastAgeLimit: FleetPlantRow[];
+    overdue: FleetPlantRow[];
+    plants: FleetPlantRow[];
+}
+
+export const fleetReportSettingsOf = (companyConfig?: CompanyConfig): FleetReportSettings => {
+    const { fleetReports: settings = {} } = (companyConfig || {}) as FleetReportConfig;
+    return {
+        routineIntervalDays: 90,
+        maxBatteryAgeYears: 5,
+        recipients: [],
+        weekday: 1,
+        hour: 6,
+        ...settings,
+    };
+};
+
+/**
+ * Evaluates one plant for the reports: its latest routine's reading is run through the same
+ * condition rules as routine updates, and its current strings through the battery health
+ * computations.
+ */
+const plantRowOf = async (
+    ctx,
+    site: Site,
+    regions: string[],
+    powerPlant: PowerPlant,
+    companyConfig: CompanyConfig,
+    settings: FleetReportSettings,
+    now: Date,
+): Promise<FleetPlantRow> => {
+    const row: FleetPlantRow = {
+        region: site.region,
+        regions,
+        siteNum: site.siteNum,
+        siteName: site.name,
+        plantNum: powerPlant.name,
+        powerPlant: powerPlant.id,
+        routineOverdue: true,
+        stringsPastAgeLimit: 0,
+        hasGenerator: false,
+    };
+    try {
+        const [ routineId ] = await ctx.queryIds('routines', { filter: { powerPlant: powerPlant.id }, sort: { date: -1 }, limit: 1 });
+        const routine: Routine | undefined = routineId ? await ctx.getStrict('routines', routineId) : undefined;
+        const [ plantConfigId ] = await ctx.queryIds('plantConfigs', { filter: { powerPlant: powerPlant.id, isCurrent: true }, limit: 1 });
+        const plantConfig: PlantConfig | undefined = plantConfigId ? await ctx.getStrict('plantConfigs', plantConfigId) : undefined;
+
+        if (routine) {
+            row.lastRoutineDate = routine.date;
+            row.daysSinceRoutine = Math.floor(moment(now).diff(moment(routine.date), 'days', true));
+            row.routineOverdue = row.daysSinceRoutine > settings.routineIntervalDays;
+        }
+        if (plantConfig) {
+            const health = await calcPlantBatteryHealth(ctx, plantConfig, companyConfig, undefined, now);
+            row.oldestBlockAgeYears = health.oldestBlockAgeYears;
+            row.stringsPastAgeLimit = health.strings
+                .filter(({ oldestBlockAgeYears }) => oldestBlockAgeYears !== undefined && oldestBlockAgeYears > settings.maxBatteryAgeYears)
+                .length;
+        }
+        const reading = routine && (routine.plantReading || routine.latestReading);
+        if (routine && plantConfig && reading) {
+            const evaluation = await calculateRoutineCondition(
+                ctx,
+                site,
+                routine.date,
+                routine,
+                plantConfig,
+                companyConfig,
+                reading.load,
+                reading.voltage,
+                reading.temperature,
+                reading.utilization,
+                reading.actualCapacity,
+                reading.worstBlockConductanceHealth,
+            );
+            const runtimeResult = evaluation.results.find(({ rule }) => rule === 'runtime');
+            row.condition = evaluation.condition;
+            row.utilization = reading.utilization;
+            row.worstBlockConductanceHealth = reading.worstBlockConductanceHealth;
+            if (runtimeResult && !runtimeResult.skipped && runtimeResult.details) {
+                row.runtime = runtimeResult.details.runtime;
+                row.runtimeStatus = runtimeResult.status;
+                row.hasGenerator = !!runtimeResult.details.hasGenerator;
+            }
+        }
+        else if (routine) {
+            row.condition = routine.condition;
+        }
+    } catch (error) {
+        logger.error(error);
+        row.error = error.message;
+    }
+    return row;
+};
+
+/**
+ * One row per plant of the sites in `regions` (every site when empty), for the reports of
+ * the company and each of its regions to be cut from.
+ */
+export const collectFleetRows = async (ctx, regions: string[], companyConfig: CompanyConfig, now = new Date()): Promise<FleetPlantRow[]> => {
+    const settings = fleetReportSettingsOf(companyConfig);
+    const siteIds: string[] = await ctx.queryIds('sites', { filter: regions.length ? { region: { $in: regions } } : {} });
+    const chains = new Map<string, string[]>();
+    const rows: FleetPlantRow[] = [];
+    for (const siteId of siteIds) {
+        const site: Site = await ctx.getStrict('sites', siteId);
+        if (site.region && !chains.has(site.region)) {
+            chains.set(site.region, await regionChain(ctx, site.region));
+        }
+        const chain = site.region ? chains.get(site.region)! : [];
+        const plantIds: string[] = await ctx.queryIds('powerPlants', { filter: { site: siteId } });
+        for (const plantId of plantIds) {
+            const powerPlant: PowerPlant = await ctx.getStrict('powerPlants', plantId);
+            rows.push(await plantRowOf(ctx, site, chain, powerPlant, companyConfig, settings, now));
+        }
+    }
+    return rows.sort((a, b) => a.siteNum.localeCompare(b.siteNum) || a.plantNum.localeCompare(b.plantNum));
+};
+
+const countConditions = (rows: FleetPlantRow[]): ConditionCounts => {
+    const counts: ConditionCounts = { ok: 0, warn: 0, critical: 0, unknown: 0 };
+    rows.forEach(({ condition }) => {
+        counts[condition === undefined ? 'unknown' : conditionLabels[condition]] += 1;
+    });
+    return counts;
+};
+
+/**
+ * The report of `scope` ('company' or a region code) from the rows of its plants.
+ */
+export const summarizeFleet = (scope: string, rows: FleetPlantRow[], settings: FleetReportSettings, now = new Date()): FleetReport => {
+    const plants = scope === 'company' ? rows : rows.filter(({ regions }) => regions.includes(scope));
+    const countsByRegion: { [region: string]: ConditionCounts } = {};
+    Array.from(new Set(plants.map(({ region }) => region))).sort().forEach((region) => {
+        countsByRegion[region] = countConditions(plants.filter((row) => row.region === region));
+    });
+    return {
+        scope,
+        generatedAt: now,
+        settings,
+        counts: countConditions(plants),
+        countsByRegion,
+        withGenerator: plants.filter(({ hasGenerator }) => hasGenerator).length,
+        belowRuntime: plants.filter(({ runtime, runtimeStatus }) =>
+            (runtimeStatus !== undefined && runtimeStatus > 0) ||
+            (runtime !== undefined && settings.minRuntimeHours !== undefined && runtime < settings.minRuntimeHours)),
+        pastAgeLimit: plants.filter(({ stringsPastAgeLimit }) => stringsPastAgeLimit > 0),
+        overdue: plants.filter(({ routineOverdue }) => routineOverdue),
+        plants,
+    };
+};
+
+const plantColumns = [
+    'region', 'siteNum', 'siteName', 'plantNum', 'condition', 'runtime', 'runtimeStatus', 'utilization',
+    'worstBlockConductanceHealth', 'oldestBlockAgeYears', 'stringsPastAgeLimit', 'hasGenerator',
+    'lastRoutineDate', 'daysSinceRoutine', 'routineOverdue', 'error',
+];
+
+const round = (value?: number) => value === undefined ? undefined : Math.round(value * 10) / 10;
+
+const csvRowOf = (row: FleetPlantRow) => ({
+    ...row,
+    condition: row.condition === undefined ? 'unknown' : conditionLabels[row.condition],
+    runtime: round(row.runtime),
+    utilization: round(row.utilization),
+    worstBlockConductanceHealth: round(row.worstBlockConductanceHealth),
+    oldestBlockAgeYears: round(row.oldestBlockAgeYears),
+});
+
+export const fleetReportFileName = ({ scope, generatedAt }: FleetReport, suffix: string) =>
+    `fleet-${scope}-${moment.utc(generatedAt).format('YYYY-MM-DD')}${suffix}`;
+
+/**
+ * The report as CSV files: the condition counts per region and every plant with the
+ * figures the lists are drawn from, so they can be filtered further in a spreadsheet.
+ */
+export const fleetReportCsv = (report: FleetReport) => {
+    const summaryRows = Object.keys(report.countsByRegion).map((region) => ({ region, ...report.countsByRegion[region] }));
+    return [
+        { filename: fleetReportFileName(report, '-summary.csv'), content: toCsv(['region', 'ok', 'warn', 'critical', 'unknown'], [...summaryRows, { region: 'total', ...report.counts }]) },
+        { filename: fleetReportFileName(report, '-plants.csv'), content: toCsv(plantColumns, report.plants.map(csvRowOf)) },
+    ];
+};
+
+// rows beyond this are left to the CSV, a PDF is for reading
+const pdfRowsPerList = 100;
+
+/**
+ * The report as a PDF: the condition counts followed by the plants below their runtime
+ * thresholds, with strings past the age limit and with overdue routines.
+ */
+export const fleetReportPdf = (report: FleetReport) => new Promise<Buffer>((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 40 });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const { scope, generatedAt, counts, countsByRegion, settings } = report;
+    doc.fontSize(18).text(`Fleet condition report: ${scope}`);
+    doc.fontSize(10).text(`Generated ${moment.utc(generatedAt).format('YYYY-MM-DD HH:mm')} UTC`).moveDown();
+
+    doc.fontSize(13).text('Plants per condition').fontSize(10);
+    doc.text(`Total: ${counts.ok} ok, ${counts.warn} warn, ${counts.critical} critical, ${counts.unknown} unknown; ${report.withGenerator} with a generator`);
+    Object.keys(countsByRegion).forEach((region) => {
+        const { ok, warn, critical, unknown } = countsByRegion[region];
+        doc.text(`${region}: ${ok} ok, ${warn} warn, ${critical} critical, ${unknown} unknown`);
+    });
+
+    const list = (title: string, rows: FleetPlantRow[], describe: (row: FleetPlantRow) => string) => {
+        doc.moveDown().fontSize(13).text(`${title} (${rows.length})`).fontSize(10);
+        rows.slice(0, pdfRowsPerList).forEach((row) => doc.text(`${row.siteNum} ${row.siteName}, plant ${row.plantNum}: ${describe(row)}`));
+        if (rows.length > pdfRowsPerList) {
+            doc.text(`and ${rows.length - pdfRowsPerList} more, see the CSV`);
+        }
+    };
+    list('Plants below runtime threshold', report.belowRuntime, ({ runtime }) => `${round(runtime)} h`);
+    list(`Battery strings older than ${settings.maxBatteryAgeYears} years`, report.pastAgeLimit, ({ stringsPastAgeLimit, oldestBlockAgeYears }) =>
+        `${stringsPastAgeLimit} string${stringsPastAgeLimit === 1 ? '' : 's'}, oldest block ${round(oldestBlockAgeYears)} years`);
+    list(`Routines overdue (over ${settings.routineIntervalDays} days)`, report.overdue, ({ daysSinceRoutine }) =>
+        daysSinceRoutine === undefined ? 'never visited' : `${daysSinceRoutine} days ago`);
+    doc.end();
+});
@@ -0,0 +1,121 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import * as moment from 'moment';
+import { CompanyConfig } from '../types/company-config';
+import { findSiteIdsInScope } from './recompute-conditions';
+import { findCapacityThresholds, forecastString, StringForecast } from './battery-forecast';
+import { readCompanyConfig, CompanyConfigServiceInput } from './company-config-service';
+
+type ForecastBatteryReplacementsTransactionInput = {
+    region?: string;
+    siteNums?: string[];
+    // the current company config when omitted
+    companyConfig?: CompanyConfig;
+    // replacements projected further out are left out of the budget
+    horizonMonths?: number;
+} & CompanyConfigServiceInput;
+
+interface PlantForecast {
+    site: string;
+    siteNum: string;
+    region: string;
+    powerPlant: string;
+    plantNum: string;
+    strings: StringForecast[];
+}
+
+interface ReplacementBudgetLine {
+    region: string;
+    month: string;
+    strings: number;
+    // strings already past end of life, budgeted in the current month
+    overdueStrings: number;
+    blocks: number;
+    batteryTypes: { [batteryType: string]: number };
+}
+
+interface BatteryReplacementForecast {
+    plants: PlantForecast[];
+    budget: ReplacementBudgetLine[];
+}
+
+type CCtx = CheckoutCtx<Store, ForecastBatteryReplacementsTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    ForecastBatteryReplacementsTransactionInput,
+    ForecastBatteryReplacementsTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+const defaultHorizonMonths = 36;
+
+/**
+ * Projects conductance health of every battery string in scope and groups the projected
+ * string replacements by region and month, for planners budgeting replacements.
+ */
+export default class ForecastBatteryReplacementsTransaction extends Transaction<ForecastBatteryReplacementsTransactionInput, BatteryReplacementForecast> {
+    protected async checkout ({ queryIds, getStrict, input }: CCtx) {
+        const siteIds = await findSiteIdsInScope({ queryIds, getStrict }, input);
+        const plants = [];
+        for (const siteId of siteIds) {
+            const site = await getStrict('sites', siteId);
+            const plantIds = await queryIds('powerPlants', { filter: { site: siteId } });
+            for (const plantId of plantIds) {
+                const [ plantConfigId ] = await queryIds('plantConfigs', { filter: { powerPlant: plantId, isCurrent: true }, limit: 1 });
+                if (plantConfigId) {
+                    plants.push({
+                        site,
+                        powerPlant: await getStrict('powerPlants', plantId!),
+                        plantConfig: await getStrict('plantConfigs', plantConfigId),
+                    });
+                }
+            }
+        }
+        return { plants };
+    }
+
+    protected async operation (ctx: OCtx): Promise<BatteryReplacementForecast> {
+        const { horizonMonths = defaultHorizonMonths } = ctx.input;
+        const companyConfig = ctx.input.companyConfig || await readCompanyConfig(ctx);
+        const thresholds = findCapacityThresholds(companyConfig.batteryCapacityTable);
+        const now = new Date();
+        const horizon = moment(now).add(horizonMonths, 'months').toDate();
+
+        const plants: PlantForecast[] = [];
+        const budget = new Map<string, ReplacementBudgetLine>();
+        for (const { site, powerPlant, plantConfig } of ctx.data.plants) {
+            const strings: StringForecast[] = [];
+            for (const string of plantConfig.strings) {
+                const forecast = await forecastString(ctx, string, thresholds, now);
+                strings.push(forecast);
+
+                if (forecast.replacementDate && forecast.replacementDate <= horizon) {
+                    // overdue strings are replaced as soon as possible, not in a month gone by
+                    const month = moment(forecast.overdue ? now : forecast.replacementDate).format('YYYY-MM');
+                    const key = `${site.region}:${month}`;
+                    const line = budget.get(key) || { region: site.region, month, strings: 0, overdueStrings: 0, blocks: 0, batteryTypes: {} };
+                    line.strings += 1;
+                    line.overdueStrings += forecast.overdue ? 1 : 0;
+                    line.blocks += forecast.blocks.length;
+                    line.batteryTypes[forecast.batteryType] = (line.batteryTypes[forecast.batteryType] || 0) + 1;
+                    budget.set(key, line);
+                }
+            }
+            plants.push({
+                site: site.id,
+                siteNum: site.siteNum,
+                region: site.region,
+                powerPlant: powerPlant.id,
+                plantNum: powerPlant.name,
+                strings,
+            });
+        }
+
+        return {
+            plants,
+            budget: Array.from(budget.values()).sort((a, b) =>
+                a.region === b.region ? a.month.localeCompare(b.month) : a.region.localeCompare(b.region)
+            ),
+        };
+    }
+}
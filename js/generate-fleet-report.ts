@@ -0,0 +1,84 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { CompanyConfig } from '../types/company-config';
+import { RegionNotFoundError, UpdateSiteValidationError } from './update-site-errors';
+import { findRegion, descendantRegionCodes } from './regions';
+import { FleetReport, fleetReportFormats, collectFleetRows, summarizeFleet, fleetReportSettingsOf, fleetReportCsv, fleetReportPdf, fleetReportFileName } from './fleet-report';
+import { readCompanyConfig, CompanyConfigServiceInput } from './company-config-service';
+import { ValidationIssue, isObject, checkString, checkEnum } from './validation';
+
+type GenerateFleetReportTransactionInput = {
+    // the whole company when omitted
+    region?: string;
+    // 'json' by default
+    format?: 'json' | 'csv' | 'pdf';
+    // the current company config when omitted
+    companyConfig?: CompanyConfig;
+} & CompanyConfigServiceInput;
+
+interface ReportFile {
+    filename: string;
+    contentType: string;
+    content: string | Buffer;
+}
+
+interface GeneratedFleetReport {
+    report: FleetReport;
+    files: ReportFile[];
+}
+
+type CCtx = CheckoutCtx<Store, GenerateFleetReportTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    GenerateFleetReportTransactionInput,
+    GenerateFleetReportTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+/**
+ * Checks the input of a GenerateFleetReportTransaction.
+ */
+export const validateFleetReport = (input: any): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    if (!isObject(input)) {
+        return [{ path: '', code: 'invalid_type', message: 'input must be an object' }];
+    }
+    checkString(issues, 'region', input.region);
+    checkEnum(issues, 'format', input.format, fleetReportFormats);
+    return issues;
+};
+
+/**
+ * Builds the fleet condition report of a region or the company on demand, as data or as the
+ * CSV files or PDF the weekly email carries. Read-only.
+ */
+export default class GenerateFleetReportTransaction extends Transaction<GenerateFleetReportTransactionInput, GeneratedFleetReport> {
+    protected async checkout ({ queryIds, getStrict, input }: CCtx) {
+        const issues = validateFleetReport(input);
+        if (issues.length) {
+            throw new UpdateSiteValidationError(issues);
+        }
+        const { region } = input;
+        if (region && !await findRegion({ queryIds, getStrict }, region)) {
+            throw new RegionNotFoundError(region);
+        }
+        const regions = region ? await descendantRegionCodes({ queryIds, getStrict }, region) : [];
+        return { regions };
+    }
+
+    protected async operation (ctx: OCtx): Promise<GeneratedFleetReport> {
+        const { regions } = ctx.data;
+        const { region, format = 'json' } = ctx.input;
+        const companyConfig = ctx.input.companyConfig || await readCompanyConfig(ctx);
+        const now = new Date();
+        const rows = await collectFleetRows(ctx, regions, companyConfig, now);
+        const report = summarizeFleet(region || 'company', rows, fleetReportSettingsOf(companyConfig), now);
+
+        const files: ReportFile[] = format === 'csv' ?
+            fleetReportCsv(report).map((file) => ({ ...file, contentType: 'text/csv' })) :
+            format === 'pdf' ?
+                [{ filename: fleetReportFileName(report, '.pdf'), contentType: 'application/pdf', content: await fleetReportPdf(report) }] :
+                [];
+        return { report, files };
+    }
+}
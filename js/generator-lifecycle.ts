@@ -0,0 +1,138 @@
+import * as moment from 'moment';
+import { Generator } from '../types/generator';
+import { CompanyConfig } from '../types/company-config';
+import { ValidationIssue, checkString, checkEnum, checkNumber, checkDate } from './validation';
+
+export const fuelTypes = ['diesel', 'petrol', 'lpg', 'natural-gas'];
+
+export interface GeneratorDetails {
+    model?: string;
+    fuelType?: string;
+    // litres
+    tankCapacity?: number;
+    ratedKw?: number;
+    installDate?: string | Date;
+    removalDate?: string | Date;
+}
+
+export const checkGeneratorDetails = (issues: ValidationIssue[], path: string, value: any) => {
+    checkString(issues, `${path}.model`, value.model);
+    checkEnum(issues, `${path}.fuelType`, value.fuelType, fuelTypes);
+    checkNumber(issues, `${path}.tankCapacity`, value.tankCapacity, [0, 100000]);
+    checkNumber(issues, `${path}.ratedKw`, value.ratedKw, [0, 10000]);
+    checkDate(issues, `${path}.installDate`, value.installDate);
+    checkDate(issues, `${path}.removalDate`, value.removalDate);
+};
+
+export interface GeneratorMaintenance {
+    date: Date;
+    performedBy?: string;
+    notes?: string;
+}
+
+export interface GeneratorTestRun {
+    date: Date;
+    durationMinutes: number;
+    passed: boolean;
+    performedBy?: string;
+    notes?: string;
+}
+
+export interface GeneratorFuelLevel {
+    date: Date;
+    // litres in the tank
+    level: number;
+}
+
+// the generator document with the lifecycle fields this module maintains
+export type ManagedGenerator = Generator & GeneratorDetails & {
+    maintenanceLog?: GeneratorMaintenance[];
+    testRuns?: GeneratorTestRun[];
+    fuelLevels?: GeneratorFuelLevel[];
+};
+
+// litres per hour per rated kW at no load, and per kWh delivered
+export interface FuelConsumption {
+    idle: number;
+    perKwh: number;
+}
+
+// optional company config fields read by the generator calculations
+export interface GeneratorConfig {
+    generatorFuelConsumption?: { [fuelType: string]: FuelConsumption };
+    // hours a generator has to carry the plant for to relax the runtime thresholds
+    minGeneratorAutonomy?: number;
+}
+
+// used until the company config sets its own
+export const defaultFuelConsumption: { [fuelType: string]: FuelConsumption } = {
+    'diesel': { idle: 0.06, perKwh: 0.21 },
+    'petrol': { idle: 0.09, perKwh: 0.33 },
+    'lpg': { idle: 0.1, perKwh: 0.4 },
+    'natural-gas': { idle: 0.12, perKwh: 0.45 },
+};
+
+export const defaultMinGeneratorAutonomy = 8;
+
+export const minGeneratorAutonomyOf = (companyConfig: CompanyConfig) => {
+    const { minGeneratorAutonomy } = companyConfig as CompanyConfig & GeneratorConfig;
+    return typeof minGeneratorAutonomy === 'number' ? minGeneratorAutonomy : defaultMinGeneratorAutonomy;
+};
+
+// generators are not run below this fraction of their rating
+const minimumLoadFactor = 0.3;
+
+export const latestFuelLevel = (generator: ManagedGenerator, date: string | Date = new Date()) => {
+    const time = moment(date).valueOf();
+    return (generator.fuelLevels || [])
+        .filter((reading) => moment(reading.date).valueOf() <= time)
+        .sort((a, b) => moment(b.date).valueOf() - moment(a.date).valueOf())[0];
+};
+
+export const isInstalledAt = (generator: ManagedGenerator, date: string | Date) => {
+    const time = moment(date).valueOf();
+    const installed = !generator.installDate || moment(generator.installDate).valueOf() <= time;
+    const removed = !!generator.removalDate && moment(generator.removalDate).valueOf() <= time;
+    return installed && !removed;
+};
+
+/**
+ * Hours the generator can carry the plant on the fuel it had at `date` (a full tank when no
+ * level was recorded), at the company's fuel consumption rates. Undefined when the rating,
+ * fuel type or tank size is unknown.
+ */
+export const calcGeneratorAutonomy = (
+    generator: ManagedGenerator,
+    load: number,
+    voltage: number,
+    companyConfig: CompanyConfig,
+    date: string | Date = new Date(),
+) => {
+    const { ratedKw, fuelType, tankCapacity } = generator;
+    const fuelConsumption = (companyConfig as CompanyConfig & GeneratorConfig).generatorFuelConsumption || defaultFuelConsumption;
+    const consumption = fuelType ? fuelConsumption[fuelType] : undefined;
+    if (!ratedKw || !consumption || !tankCapacity) {
+        return undefined;
+    }
+    const fuelLevel = latestFuelLevel(generator, date);
+    const fuel = fuelLevel ? fuelLevel.level : tankCapacity;
+    const plantKw = Math.abs(load * voltage) / 1000;
+    const loadKw = Math.max(plantKw, ratedKw * minimumLoadFactor);
+    const litresPerHour = ratedKw * consumption.idle + loadKw * consumption.perKwh;
+    return fuel / litresPerHour;
+};
+
+/**
+ * Fields of a new generator document from the details given with an add or replace.
+ */
+export const generatorFields = (site: string, details: GeneratorDetails = {}) => ({
+    site,
+    model: details.model,
+    fuelType: details.fuelType,
+    tankCapacity: details.tankCapacity,
+    ratedKw: details.ratedKw,
+    installDate: details.installDate ? moment(details.installDate).toDate() : new Date(),
+    maintenanceLog: [],
+    testRuns: [],
+    fuelLevels: [],
+});
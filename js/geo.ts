@@ -0,0 +1,32 @@
+// [longitude, latitude], the GeoJSON order sites store their location in
+export type LngLat = [number, number];
+
+const earthRadiusKm = 6371.0088;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/**
+ * Where a site is, or undefined for sites without a usable location.
+ */
+export const siteCoordinates = (site: { location?: { coordinates?: any } }): LngLat | undefined => {
+    const coordinates = site.location && site.location.coordinates;
+    if (!Array.isArray(coordinates) || coordinates.length !== 2) {
+        return undefined;
+    }
+    const [lng, lat] = coordinates.map(Number);
+    if (isNaN(lng) || isNaN(lat) || lng < -180 || lng > 180 || lat < -90 || lat > 90) {
+        return undefined;
+    }
+    return [lng, lat];
+};
+
+/**
+ * Great-circle distance in kilometres.
+ */
+export const distanceKm = ([lng1, lat1]: LngLat, [lng2, lat2]: LngLat) => {
+    const dLat = toRadians(lat2 - lat1);
+    const dLng = toRadians(lng2 - lng1);
+    const a = Math.pow(Math.sin(dLat / 2), 2) +
+        Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.pow(Math.sin(dLng / 2), 2);
+    return 2 * earthRadiusKm * Math.asin(Math.min(1, Math.sqrt(a)));
+};
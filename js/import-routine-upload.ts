@@ -0,0 +1,332 @@
+import * as crypto from 'crypto';
+import * as moment from 'moment';
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { Battery } from '../types/battery';
+import { BatteryRecord } from '../types/battery-record';
+import { PlantConfig } from '../types/plant-config';
+import { PowerPlant } from '../types/power-plant';
+import { Routine } from '../types/routine';
+import { CompanyConfig } from '../types/company-config';
+import { calcUtilization } from 'dugo-lib/lib/computers/power-plant';
+import { findByDate } from './utils';
+import ChangeTracker from './change-tracker';
+import { recordAudit } from './site-audit';
+import { SiteNotFoundError, UpdateSiteError, UpdateSiteValidationError, PlantConfigNotFoundError, PlantNotFoundError } from './update-site-errors';
+import { UploadFile, UploadIssue, UploadMatchMode, uploadMatchModes, parseRoutineUpload, matchUploadRows } from './routine-upload-parser';
+import { calcPlantBatteryHealth } from './battery-health';
+import { timeOf } from './plant-record-readings';
+import { recomputeRoutineCondition } from './recompute-conditions';
+import { regionOf } from './regions';
+import { readCompanyConfig, CompanyConfigServiceInput } from './company-config-service';
+import { ValidationIssue, isObject, isBlank, checkString, checkEnum, checkDate, checkSection } from './validation';
+
+type ImportRoutineUploadTransactionInput = {
+    siteNum: string;
+    plantNum: string;
+    // the routine the readings belong to; blocks without a test date of their own get it
+    date: string | Date;
+    file: UploadFile;
+    matchBy?: UploadMatchMode;
+    // the current company config when omitted
+    companyConfig?: CompanyConfig;
+    // returns the report without writing anything
+    dryRun?: boolean;
+    submitter?: string;
+} & CompanyConfigServiceInput;
+
+interface UploadRowReport {
+    sheet?: string;
+    row: number;
+    string?: number;
+    position?: number;
+    serialNumber?: string;
+    conductance?: number;
+    voltage?: number;
+    battery?: string;
+    matchedBy?: 'serial' | 'position';
+    status: 'ok' | 'warning' | 'error';
+    issues: UploadIssue[];
+}
+
+interface RoutineUploadReport {
+    dryRun: boolean;
+    format: 'template' | 'tester';
+    routine?: string;
+    routineCreated: boolean;
+    routineUpload?: string;
+    plantReading: { [field: string]: any };
+    matched: number;
+    errors: number;
+    warnings: number;
+    // problems outside the block rows, e.g. in the plant reading section
+    fileIssues: (UploadIssue & { sheet?: string, row: number })[];
+    rows: UploadRowReport[];
+    condition?: { prev?: number, new: number };
+}
+
+type CCtx = CheckoutCtx<Store, ImportRoutineUploadTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    ImportRoutineUploadTransactionInput,
+    ImportRoutineUploadTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+interface ConductanceEntry {
+    date: Date;
+    reading?: number;
+    routineUpload: string;
+}
+
+const contentHashOf = ({ content }: UploadFile) =>
+    crypto.createHash('sha256').update(content).digest('hex');
+
+/**
+ * Adds `entry` to conductance entries kept oldest first, the order readers take the last
+ * entry as the latest in, replacing an entry of the same test date.
+ */
+const withConductanceEntry = (entries: ConductanceEntry[], entry: ConductanceEntry) => {
+    const time = timeOf(entry.date);
+    const others = entries.filter(({ date }) => timeOf(date) !== time);
+    const index = others.findIndex(({ date }) => timeOf(date) > time);
+    others.splice(index < 0 ? others.length : index, 0, entry);
+    return others;
+};
+
+const statusOf = (issues: UploadIssue[]) =>
+    issues.some(({ level }) => level === 'error') ? 'error' :
+    issues.length ? 'warning' :
+    'ok';
+
+/**
+ * Checks the input of an ImportRoutineUploadTransaction.
+ */
+export const validateRoutineUpload = (input: any): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    if (!isObject(input)) {
+        return [{ path: '', code: 'invalid_type', message: 'input must be an object' }];
+    }
+    checkString(issues, 'siteNum', input.siteNum, true);
+    checkString(issues, 'plantNum', input.plantNum, true);
+    checkDate(issues, 'date', input.date, true);
+    checkEnum(issues, 'matchBy', input.matchBy, uploadMatchModes);
+    if (checkSection(issues, 'file', input.file, true)) {
+        checkString(issues, 'file.name', input.file.name, true);
+        if (isBlank(input.file.content)) {
+            issues.push({ path: 'file.content', code: 'required', message: 'file.content is required' });
+        }
+        else if (typeof input.file.content !== 'string' && !Buffer.isBuffer(input.file.content)) {
+            issues.push({ path: 'file.content', code: 'invalid_type', message: 'file.content must be a string or a buffer' });
+        }
+        if (typeof input.file.name === 'string' && !/\.(csv|txt|xlsx?)$/i.test(input.file.name)) {
+            issues.push({ path: 'file.name', code: 'invalid_format', message: 'file must be a .csv, .txt or .xlsx file' });
+        }
+    }
+    return issues;
+};
+
+/**
+ * Imports the file a technician produced on a routine visit: a conductance tester export or
+ * our routine spreadsheet. Each block row is matched to a battery of the plant and gets a
+ * conductance entry on its battery record; the spreadsheet's plant readings and the battery
+ * health they add up to fill the plant reading of the routine on that day, which is created
+ * when there is none. Files with row errors are refused unless previewed with `dryRun`,
+ * whose report shows every row's match and issues. A file the plant already had imported,
+ * by content or by name for the same routine date, is refused as a duplicate.
+ */
+export default class ImportRoutineUploadTransaction extends Transaction<ImportRoutineUploadTransactionInput, RoutineUploadReport> {
+    protected async checkout ({ checkout, query, queryIds, getStrict, input }: CCtx) {
+        const issues = validateRoutineUpload(input);
+        if (issues.length) {
+            throw new UpdateSiteValidationError(issues);
+        }
+        const { siteNum, plantNum, date, file, matchBy = 'auto', dryRun } = input;
+        const [ siteId ] = await queryIds('sites', { filter: { siteNum }, limit: 1 });
+        if (!siteId) {
+            throw new SiteNotFoundError(siteNum);
+        }
+        const [ plantId ] = await queryIds('powerPlants', { filter: { site: siteId, name: plantNum }, limit: 1 });
+        if (!plantId) {
+            throw new PlantNotFoundError(siteNum, plantNum);
+        }
+        const plantConfig: PlantConfig | undefined = await findByDate('plantConfigs', query, date, { powerPlant: plantId });
+        if (!plantConfig) {
+            throw new PlantConfigNotFoundError(siteNum, plantNum, date);
+        }
+
+        // the same file imported again would only repeat its readings
+        const contentHash = contentHashOf(file);
+        const [ previousUploadId ] = await queryIds('routineUploads', {
+            filter: {
+                powerPlant: plantId,
+                $or: [
+                    { contentHash },
+                    { fileName: file.name, date: moment(date).toDate() },
+                ],
+            },
+            limit: 1,
+        });
+        if (previousUploadId) {
+            throw new UpdateSiteError(`Routine Upload: ${file.name} was already imported`, 'ROUTINE_UPLOAD_DUPLICATE', 409, { fileName: file.name, routineUpload: previousUploadId });
+        }
+
+        const parsed = parseRoutineUpload(file);
+        if (!parsed.blocks.length && !Object.keys(parsed.plantReading).length) {
+            throw new UpdateSiteError(`Routine Upload: ${file.name} has no block table or plant readings`, 'ROUTINE_UPLOAD_UNREADABLE', 422, { fileName: file.name, issues: parsed.issues });
+        }
+
+        const batteryIds = plantConfig.strings.reduce((ids: string[], { batteries }) => [...ids, ...batteries], []);
+        const batteries: Battery[] = await Promise.all(batteryIds.map((id) => checkout('batteries', id)));
+        const matches = matchUploadRows(parsed.blocks, plantConfig.strings, batteries, matchBy);
+        const rows: UploadRowReport[] = parsed.blocks.map(({ sheet, row, string, position, serialNumber, conductance, voltage, issues: rowIssues }, i) => {
+            const { battery, matchedBy, issues: matchIssues } = matches[i];
+            const allIssues = [...rowIssues, ...matchIssues];
+            return { sheet, row, string, position, serialNumber, conductance, voltage, battery, matchedBy, status: statusOf(allIssues), issues: allIssues };
+        });
+
+        const errors = rows.filter(({ status }) => status === 'error').length +
+            parsed.issues.filter(({ level }) => level === 'error').length;
+        if (errors && !dryRun) {
+            throw new UpdateSiteError(`Routine Upload: ${errors} rows of ${file.name} have errors`, 'ROUTINE_UPLOAD_INVALID', 422, { fileName: file.name, rows, fileIssues: parsed.issues });
+        }
+
+        const recordIds = batteries
+            .filter((battery) => battery.currentRecord && rows.some((row) => row.battery === battery.id))
+            .map((battery) => battery.currentRecord!.toString());
+        const batteryRecords: BatteryRecord[] = await Promise.all(recordIds.map((id) => checkout('batteryRecords', id)));
+
+        const [ routineId ] = await queryIds('routines', {
+            filter: { powerPlant: plantId, date: { $gte: moment(date).startOf('day').toDate(), $lte: moment(date).endOf('day').toDate() } },
+            sort: { date: -1 },
+            limit: 1,
+        });
+        const routine: Routine | undefined = routineId ? await checkout('routines', routineId) : undefined;
+        const powerPlant: PowerPlant = await getStrict('powerPlants', plantId);
+
+        return {
+            siteId,
+            powerPlant,
+            plantConfig,
+            contentHash,
+            parsed,
+            rows,
+            errors,
+            batteries,
+            batteryRecords,
+            routine,
+        };
+    }
+
+    protected async operation (ctx: OCtx): Promise<RoutineUploadReport> {
+        const { siteId, powerPlant, plantConfig, contentHash, parsed, rows, errors, batteries, batteryRecords } = ctx.data;
+        const { file, submitter } = ctx.input;
+        const dryRun = !!ctx.input.dryRun;
+        const date = moment(ctx.input.date).toDate();
+        const companyConfig = ctx.input.companyConfig || await readCompanyConfig(ctx);
+        const tracker = new ChangeTracker(ctx.data, { batteries: 'batteries', batteryRecords: 'batteryRecords', routine: 'routines' });
+        const tctx = tracker.track(ctx, { dryRun });
+        try {
+            const upload = await tctx.create('routineUploads', {
+                site: siteId,
+                powerPlant: powerPlant.id,
+                date,
+                fileName: file.name,
+                contentHash,
+                format: parsed.format,
+                blocks: rows.filter(({ battery, status }) => battery && status !== 'error').length,
+                submitter,
+                uploadedAt: new Date(),
+            });
+
+            // rows with errors only get this far in a preview, and are left out of it too
+            for (const row of rows) {
+                if (!row.battery || row.status === 'error') {
+                    continue;
+                }
+                const block = parsed.blocks.find((candidate) => candidate.row === row.row && candidate.sheet === row.sheet)!;
+                const entry: ConductanceEntry = { date: block.date || parsed.testedAt || date, reading: row.conductance, routineUpload: upload.id };
+                const battery = batteries.find(({ id }) => id === row.battery)!;
+                const batteryRecord = battery.currentRecord ?
+                    batteryRecords.find(({ id }) => id === battery.currentRecord!.toString()) :
+                    undefined;
+                if (batteryRecord) {
+                    batteryRecord.conductance = withConductanceEntry(batteryRecord.conductance || [], entry);
+                    continue;
+                }
+                const created = await tctx.create('batteryRecords', { battery: battery.id, conductance: [entry] });
+                battery.currentRecord = created.id;
+                batteryRecords.push(created);
+            }
+
+            const plantReading: { [field: string]: any } = { ...parsed.plantReading };
+            const { load, voltage } = plantReading;
+            if (load !== undefined && voltage !== undefined && plantConfig.rectifierTypes) {
+                const rectifierPowers: number[] = [];
+                for (const id of plantConfig.rectifierTypes) {
+                    if (id) {
+                        const { power } = await ctx.getStrict('rectifierTypes', id.toString());
+                        rectifierPowers.push(power);
+                    }
+                }
+                plantReading.utilization = calcUtilization(load, voltage, rectifierPowers);
+            }
+            if (rows.some(({ battery, status }) => battery && status !== 'error')) {
+                // battery records are read as changed here, including those a preview made up
+                const healthCtx = Object.create(tctx);
+                healthCtx.readStrict = (collection: string, id: string) => {
+                    const batteryRecord = collection === 'batteryRecords' && batteryRecords.find((record) => record.id === id.toString());
+                    return batteryRecord ? Promise.resolve(batteryRecord) : tctx.readStrict(collection, id);
+                };
+                const health = await calcPlantBatteryHealth(healthCtx, plantConfig, companyConfig);
+                plantReading.actualCapacity = health.actualCapacity;
+                plantReading.worstBlockConductanceHealth = health.worstBlockConductanceHealth;
+            }
+
+            let routine = ctx.data.routine;
+            const routineCreated = !routine;
+            if (!routine) {
+                routine = await tctx.create('routines', {
+                    site: siteId,
+                    powerPlant: powerPlant.id,
+                    region: await regionOf(ctx, { site: siteId }),
+                    date,
+                    routineType: 'routine',
+                    plantReading: { date },
+                }) as Routine;
+            }
+            routine.plantReading = Object.assign(routine.plantReading || {}, plantReading, { date: routine.date });
+            // the upload is linked once the condition is evaluated, as it carries no override
+            // of its own and, in a preview, is not stored for the evaluation to read
+            routine.routineUpload = undefined;
+            const change = await recomputeRoutineCondition(tctx, routine, companyConfig, { dryRun, submitter });
+            routine.routineUpload = upload.id;
+
+            const diff = await tracker.diff();
+            if (!dryRun) {
+                tracker.bumpVersions(diff, ['routines']);
+                await recordAudit(ctx, diff, { submitter, site: siteId, powerPlant: powerPlant.id });
+            }
+
+            const rowIssues = rows.reduce((count, { issues }) => count + issues.filter(({ level }) => level === 'warning').length, 0);
+            return {
+                dryRun,
+                format: parsed.format,
+                routine: routine.id,
+                routineCreated,
+                routineUpload: upload.id,
+                plantReading: routine.plantReading,
+                matched: rows.filter(({ battery }) => !!battery).length,
+                errors,
+                warnings: rowIssues + parsed.issues.filter(({ level }) => level === 'warning').length,
+                fileIssues: parsed.issues,
+                rows,
+                condition: change ? { prev: change.prev, new: change.new } : undefined,
+            };
+        } finally {
+            if (dryRun) {
+                tracker.restore();
+            }
+        }
+    }
+}
@@ -0,0 +1,192 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { PlantConfig } from '../types/plant-config';
+import ChangeTracker from './change-tracker';
+import { recordAudit } from './site-audit';
+import { parseCsvRecords } from './csv';
+import { UpdateSiteError } from './update-site-errors';
+import { SerialAssignment, SerialConflict, SerialBattery, ConflictPolicy, applySerialAssignments } from './serial-registry';
+
+// serials read off one battery string in position order by a barcode scanner
+interface StringScan {
+    siteNum: string;
+    plantNum: string;
+    // 1-based, as labelled on site
+    string: number;
+    serials: string[];
+}
+
+type ImportSerialNumbersTransactionInput = {
+    // columns batteryId and serialNumber, or siteNum, plantNum, string, position and serialNumber
+    csv?: string;
+    scans?: StringScan[];
+    // imports flag conflicts by default so one bad label does not hold up the rest
+    onConflict?: ConflictPolicy;
+    dryRun?: boolean;
+    submitter?: string;
+};
+
+interface ImportRow extends Partial<SerialAssignment> {
+    // 1-based line of the csv after the header, or position within a scan
+    row: number;
+    source: 'csv' | 'scan';
+    serialNumber: string;
+    location?: string;
+}
+
+interface ImportRowResult {
+    row: number;
+    source: 'csv' | 'scan';
+    batteryId?: string;
+    serialNumber: string;
+    status: 'assigned' | 'unchanged' | 'conflict';
+    conflict?: SerialConflict;
+}
+
+interface SerialImportReport {
+    dryRun: boolean;
+    assigned: number;
+    unchanged: number;
+    conflicts: number;
+    rows: ImportRowResult[];
+}
+
+type CCtx = CheckoutCtx<Store, ImportSerialNumbersTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    ImportSerialNumbersTransactionInput,
+    ImportSerialNumbersTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+const rowsOf = ({ csv, scans = [] }: ImportSerialNumbersTransactionInput): ImportRow[] => {
+    const rows: ImportRow[] = [];
+    if (csv) {
+        parseCsvRecords(csv).forEach((record, i) => {
+            if (!record.serialNumber) {
+                return;
+            }
+            rows.push(record.batteryId ?
+                { row: i + 1, source: 'csv', batteryId: record.batteryId, serialNumber: record.serialNumber } :
+                {
+                    row: i + 1,
+                    source: 'csv',
+                    serialNumber: record.serialNumber,
+                    location: [record.siteNum, record.plantNum, record.string, record.position].join('/'),
+                });
+        });
+    }
+    scans.forEach(({ siteNum, plantNum, string, serials }) => {
+        serials.forEach((serialNumber, i) => {
+            if (!serialNumber || !serialNumber.trim()) {
+                return;
+            }
+            rows.push({ row: i + 1, source: 'scan', serialNumber, location: [siteNum, plantNum, string, i + 1].join('/') });
+        });
+    });
+    return rows;
+};
+
+/**
+ * Bulk-assigns serials from a CSV file or barcode scans of battery strings. Rows name a
+ * battery by id or by site, plant, string and position in the plant's current config. The
+ * report lists every row with its outcome and, for conflicts, why.
+ */
+export default class ImportSerialNumbersTransaction extends Transaction<ImportSerialNumbersTransactionInput, SerialImportReport> {
+    protected async checkout ({ checkout, queryIds, getStrict, input }: CCtx) {
+        const rows = rowsOf(input);
+        if (!rows.length) {
+            throw new UpdateSiteError('Import Serial Numbers: nothing to import', 'INVALID_INPUT', 422, {});
+        }
+
+        const plantConfigs = new Map<string, PlantConfig | undefined>();
+        const findPlantConfig = async (siteNum: string, plantNum: string) => {
+            const key = `${siteNum}/${plantNum}`;
+            if (!plantConfigs.has(key)) {
+                const [ siteId ] = await queryIds('sites', { filter: { siteNum }, limit: 1 });
+                const [ plantId ] = siteId ? await queryIds('powerPlants', { filter: { site: siteId, name: plantNum }, limit: 1 }) : [];
+                const [ configId ] = plantId ? await queryIds('plantConfigs', { filter: { powerPlant: plantId, isCurrent: true }, limit: 1 }) : [];
+                plantConfigs.set(key, configId ? await getStrict('plantConfigs', configId) : undefined);
+            }
+            return plantConfigs.get(key);
+        };
+
+        for (const row of rows) {
+            if (row.batteryId || !row.location) {
+                continue;
+            }
+            const [siteNum, plantNum, string, position] = row.location.split('/');
+            const plantConfig = await findPlantConfig(siteNum, plantNum);
+            const batteryString = plantConfig && plantConfig.strings[Number(string) - 1];
+            row.batteryId = batteryString ? batteryString.batteries[Number(position) - 1] : undefined;
+        }
+
+        const batteryIds = Array.from(new Set(rows.map(({ batteryId }) => batteryId).filter((id) => !!id))) as string[];
+        const batteries: SerialBattery[] = [];
+        for (const id of batteryIds) {
+            const battery = await checkout('batteries', id).catch(() => undefined);
+            if (battery) {
+                batteries.push(battery);
+            }
+        }
+        return { rows, batteries };
+    }
+
+    protected async operation (ctx: OCtx): Promise<SerialImportReport> {
+        const { rows, batteries } = ctx.data;
+        const { onConflict = 'flag', submitter } = ctx.input;
+        const dryRun = !!ctx.input.dryRun;
+        const tracker = new ChangeTracker(ctx.data, { batteries: 'batteries' });
+        try {
+            const unresolved: SerialConflict[] = rows
+                .filter(({ batteryId }) => !batteryId)
+                .map(({ serialNumber, location }) => ({
+                    code: 'BATTERY_NOT_FOUND' as 'BATTERY_NOT_FOUND',
+                    serialNumber,
+                    message: `no battery at ${location}`,
+                }));
+            if (unresolved.length && onConflict === 'reject') {
+                throw new UpdateSiteError(`Import Serial Numbers: ${unresolved.length} rows name no battery`, 'SERIAL_NUMBER_CONFLICT', 409, { conflicts: unresolved });
+            }
+
+            const resolved = rows.filter(({ batteryId }) => !!batteryId) as (ImportRow & SerialAssignment)[];
+            const { assigned, conflicts } = await applySerialAssignments(
+                tracker.track(ctx, { dryRun }),
+                resolved.map(({ batteryId, serialNumber }) => ({ batteryId, serialNumber })),
+                batteries,
+                { policy: onConflict, submitter, source: 'import' },
+            );
+
+            const results: ImportRowResult[] = rows.map(({ row, source, batteryId, serialNumber }) => {
+                const conflict = batteryId ?
+                    conflicts.find((candidate) => candidate.batteryId === batteryId && candidate.serialNumber === serialNumber) :
+                    unresolved.find((candidate) => candidate.serialNumber === serialNumber);
+                const wasAssigned = assigned.some((candidate) => candidate.batteryId === batteryId && candidate.serialNumber === serialNumber);
+                return {
+                    row,
+                    source,
+                    batteryId,
+                    serialNumber,
+                    status: conflict ? 'conflict' : wasAssigned ? 'assigned' : 'unchanged',
+                    conflict,
+                };
+            });
+
+            const diff = await tracker.diff();
+            if (!dryRun) {
+                await recordAudit(ctx, diff, { submitter });
+            }
+            return {
+                dryRun,
+                assigned: results.filter(({ status }) => status === 'assigned').length,
+                unchanged: results.filter(({ status }) => status === 'unchanged').length,
+                conflicts: results.filter(({ status }) => status === 'conflict').length,
+                rows: results,
+            };
+        } finally {
+            if (dryRun) {
+                tracker.restore();
+            }
+        }
+    }
+}
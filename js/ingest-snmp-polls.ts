@@ -0,0 +1,176 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { PowerPlant } from '../types/power-plant';
+import { Routine } from '../types/routine';
+import { Site } from '../types/site';
+import { CompanyConfig } from '../types/company-config';
+import { calcUtilization } from 'dugo-lib/lib/computers/power-plant';
+import { recomputeRoutineCondition, ConditionChange } from './recompute-conditions';
+import { PlantReadingSeries, PlantReadingBucket, MigratablePlantRecord, checkoutReadingSeries, bucketStartOf } from './plant-reading-series';
+import { SnmpPoll, stringReadingType } from './snmp-oid-maps';
+import { LivePlantConfig, PollSkip } from './list-snmp-targets';
+import { RegionRollup, regionChain, checkoutRollups, updateRollups } from './regions';
+import { notifyConditionChange } from './condition-notifications';
+import { readCompanyConfig, CompanyConfigServiceInput } from './company-config-service';
+import { bumpVersion } from './versioning';
+
+// what a plant's controller reported, polled outside the transaction
+export interface PlantPoll {
+    powerPlant: string;
+    // the plant config the controller was polled for
+    plantConfig: string;
+    poll: SnmpPoll;
+}
+
+export type IngestSnmpPollsTransactionInput = {
+    polls: PlantPoll[];
+    // the current company config when omitted
+    companyConfig?: CompanyConfig;
+} & CompanyConfigServiceInput;
+
+interface PolledPlant {
+    site: Site;
+    powerPlant: PowerPlant;
+    plantConfig: LivePlantConfig;
+    poll: SnmpPoll;
+    routine?: Routine;
+    plantRecord?: MigratablePlantRecord;
+    readingBuckets: PlantReadingBucket[];
+    regions: string[];
+}
+
+export interface IngestPage {
+    ingested: number;
+    skipped: PollSkip[];
+    changed: ConditionChange[];
+}
+
+type CCtx = CheckoutCtx<Store, IngestSnmpPollsTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    IngestSnmpPollsTransactionInput,
+    IngestSnmpPollsTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+// the series a poll writes to, utilization included as it is derived from load and voltage
+const readingTypesOf = ({ readings, strings }: SnmpPoll) => {
+    const types = [...Object.keys(readings), 'utilization'];
+    for (const { string, ...fields } of strings) {
+        Object.keys(fields).forEach((field) => types.push(stringReadingType(string, field)));
+    }
+    return types;
+};
+
+/**
+ * Appends polls of live plants' controllers to the plants' reading series. Each plant's
+ * latest reading is updated and, unless its latest routine is a manual one, that routine's
+ * condition is re-evaluated against it. A plant whose config stopped being its current
+ * live one since it was polled is skipped.
+ */
+export default class IngestSnmpPollsTransaction extends Transaction<IngestSnmpPollsTransactionInput, IngestPage> {
+    protected async checkout ({ checkout, queryIds, getStrict, input }: CCtx) {
+        const plants: PolledPlant[] = [];
+        const skipped: PollSkip[] = [];
+        const regionCodes = new Set<string>();
+        for (const { powerPlant: powerPlantId, plantConfig: configId, poll } of input.polls) {
+            const plantConfig: LivePlantConfig = await getStrict('plantConfigs', configId);
+            if (!plantConfig.isCurrent || plantConfig.connectionStatus !== 'live') {
+                skipped.push({ powerPlant: powerPlantId, reason: 'the plant config changed while polling' });
+                continue;
+            }
+            const powerPlant: PowerPlant = await checkout('powerPlants', powerPlantId);
+            const site: Site = await getStrict('sites', powerPlant.site.toString());
+            const [ routineId ] = await queryIds('routines', { filter: { powerPlant: powerPlantId }, sort: { date: -1 }, limit: 1 });
+            const routine: Routine | undefined = routineId ? await checkout('routines', routineId) : undefined;
+            const { plantRecord, readingBuckets } = await checkoutReadingSeries(
+                { checkout, queryIds }, powerPlantId, readingTypesOf(poll), [poll.date]
+            );
+            const regions = site.region ? await regionChain({ queryIds, getStrict }, site.region) : [];
+            regions.forEach((code) => regionCodes.add(code));
+            plants.push({ site, powerPlant, plantConfig, poll, routine, plantRecord, readingBuckets, regions });
+        }
+        const regionRollups: RegionRollup[] = await checkoutRollups({ checkout, queryIds }, Array.from(regionCodes));
+
+        return {
+            plants,
+            skipped,
+            regionRollups,
+        };
+    }
+
+    protected async operation (ctx: OCtx): Promise<IngestPage> {
+        const { plants, skipped, regionRollups } = ctx.data;
+        const companyConfig = ctx.input.companyConfig || await readCompanyConfig(ctx);
+        const page: IngestPage = { ingested: 0, skipped, changed: [] };
+
+        for (const plant of plants) {
+            const change = await this.ingest(ctx, plant, companyConfig);
+            if (change) {
+                page.changed.push(change);
+                await updateRollups(ctx, regionRollups, plant.regions, (rollupPlants) => {
+                    rollupPlants[plant.powerPlant.id] = change.new;
+                });
+            }
+            page.ingested += 1;
+        }
+        return page;
+    }
+
+    /**
+     * Appends a poll to the plant's series and latest reading and re-evaluates the condition
+     * of its latest routine; returns the condition change, if any.
+     */
+    async ingest (ctx: OCtx, plant: PolledPlant, companyConfig: CompanyConfig) {
+        const { site, powerPlant, plantConfig, poll, routine, plantRecord, readingBuckets } = plant;
+        const { readings, strings } = poll;
+        const date = new Date(poll.date);
+        const series = new PlantReadingSeries(ctx, powerPlant.id, readingBuckets, plantRecord);
+
+        const reading = { ...readings };
+        if (reading.load !== undefined && reading.voltage !== undefined && plantConfig.rectifierTypes) {
+            const rectifierPowers: number[] = [];
+            for (const id of plantConfig.rectifierTypes) {
+                if (id) {
+                    const { power } = await ctx.getStrict('rectifierTypes', id.toString());
+                    rectifierPowers.push(power);
+                }
+            }
+            reading.utilization = calcUtilization(reading.load, reading.voltage, rectifierPowers);
+        }
+        const written = new Set<string>();
+        for (const readingType of Object.keys(reading)) {
+            await series.set(readingType, date, reading[readingType]);
+            written.add(readingType);
+        }
+        for (const { string, ...fields } of strings) {
+            for (const field of Object.keys(fields)) {
+                await series.set(stringReadingType(string, field), date, fields[field]);
+                written.add(stringReadingType(string, field));
+            }
+        }
+        // buckets created for a new month start at version 0
+        const bucketStart = bucketStartOf(date).getTime();
+        readingBuckets
+            .filter((bucket) => written.has(bucket.readingType) && bucketStartOf(bucket.bucketStart).getTime() === bucketStart)
+            .forEach((bucket) => bumpVersion(bucket));
+        if (plantRecord && written.size) {
+            bumpVersion(plantRecord);
+        }
+
+        powerPlant.latestReading = Object.assign(powerPlant.latestReading || {}, reading, { date });
+        // a manual routine keeps the reading taken on site
+        if (!routine || routine.routineType === 'routine') {
+            return undefined;
+        }
+        routine.latestReading = Object.assign(routine.latestReading || {}, reading, { date });
+        const change = await recomputeRoutineCondition(ctx, routine, companyConfig, { submitter: 'snmp' });
+        if (change) {
+            bumpVersion(routine);
+            if (change.prev !== undefined) {
+                await notifyConditionChange(ctx, { site, powerPlant, routine, prev: change.prev, next: change.new, companyConfig });
+            }
+        }
+        return change;
+    }
+}
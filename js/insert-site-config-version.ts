@@ -0,0 +1,187 @@
+import * as moment from 'moment';
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { SiteConfig } from '../types/site-config';
+import { Routine } from '../types/routine';
+import { CompanyConfig } from '../types/company-config';
+import ChangeTracker, { ChangeSetDiff, cloneDeep } from './change-tracker';
+import { recordAudit } from './site-audit';
+import { versionedCollections } from './versioning';
+import { SiteNotFoundError, SiteConfigNotFoundError, UpdateSiteValidationError } from './update-site-errors';
+import { findRoutineIdsInScope, recomputeRoutineCondition, createRecomputeJob, ConditionChange } from './recompute-conditions';
+import { readCompanyConfig, CompanyConfigServiceInput } from './company-config-service';
+import { sortVersions, versionAt, contentOf, markCurrentVersion } from './site-config-history';
+import { ValidationIssue, isObject, isBlank, checkString, checkDate, checkSection } from './validation';
+
+type InsertSiteConfigVersionTransactionInput = {
+    siteNum: string;
+    effectiveDate: string | Date;
+    // site config fields that change from the effective date on
+    changes: { [field: string]: any };
+    // the current company config when omitted
+    companyConfig?: CompanyConfig;
+    submitter?: string;
+    dryRun?: boolean;
+} & CompanyConfigServiceInput;
+
+interface SiteConfigVersionResult {
+    version: SiteConfig;
+    diff: ChangeSetDiff;
+    // routines whose condition the change moved
+    recomputed: ConditionChange[];
+    // routines of the changed period beyond the first page, not re-evaluated yet
+    pendingRecompute: number;
+    // pass it to RecomputeConditionsTransaction to re-evaluate them; undefined on a dry run
+    recomputeCursor?: string;
+}
+
+type CCtx = CheckoutCtx<Store, InsertSiteConfigVersionTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    InsertSiteConfigVersionTransactionInput,
+    InsertSiteConfigVersionTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+// routines re-evaluated within the transaction, the rest are left to a recompute job
+const recomputePageSize = 100;
+
+const checkoutCollections = {
+    siteConfigs: 'siteConfigs',
+    routines: 'routines',
+};
+
+/**
+ * Checks the input of an InsertSiteConfigVersionTransaction. `changes` may set any site
+ * config field except the version bookkeeping, which the transaction manages.
+ */
+export const validateSiteConfigVersion = (input: any): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    if (!isObject(input)) {
+        return [{ path: '', code: 'invalid_type', message: 'input must be an object' }];
+    }
+    checkString(issues, 'siteNum', input.siteNum, true);
+    checkDate(issues, 'effectiveDate', input.effectiveDate, true);
+    checkString(issues, 'submitter', input.submitter);
+    if (checkSection(issues, 'changes', input.changes, true)) {
+        if (!Object.keys(input.changes).length) {
+            issues.push({ path: 'changes', code: 'required', message: 'changes must set at least one field' });
+        }
+        for (const field of ['id', 'site', 'date', 'isCurrent']) {
+            if (field in input.changes) {
+                issues.push({ path: `changes.${field}`, code: 'forbidden', message: `changes.${field} cannot be set` });
+            }
+        }
+    }
+    if (!isBlank(input.dryRun) && typeof input.dryRun !== 'boolean') {
+        issues.push({ path: 'dryRun', code: 'invalid_type', message: 'dryRun must be a boolean' });
+    }
+    return issues;
+};
+
+/**
+ * Changes a site's configuration from `effectiveDate` until the next version, in the past
+ * or the future. A version already dated exactly then is edited, otherwise a new version is
+ * inserted as a copy of the one in effect at that date with the changes applied.
+ *
+ * Routines dated within the changed period are re-evaluated against the new version, the
+ * first page of them in this transaction and the others through the recompute job returned
+ * as `recomputeCursor`. The change is audited like a site update and `dryRun` previews it
+ * without writing anything.
+ */
+export default class InsertSiteConfigVersionTransaction extends Transaction<InsertSiteConfigVersionTransactionInput, SiteConfigVersionResult> {
+    protected async checkout ({ checkout, queryIds, getStrict, input }: CCtx) {
+        const issues = validateSiteConfigVersion(input);
+        if (issues.length) {
+            throw new UpdateSiteValidationError(issues);
+        }
+        const { siteNum } = input;
+        const effectiveDate = moment(input.effectiveDate).toDate();
+        const [ siteId ] = await queryIds('sites', { filter: { siteNum }, limit: 1 });
+        if (!siteId) {
+            throw new SiteNotFoundError(siteNum);
+        }
+        const siteConfigIds = await queryIds('siteConfigs', { filter: { site: siteId } });
+        if (!siteConfigIds.length) {
+            throw new SiteConfigNotFoundError(siteNum, effectiveDate);
+        }
+        const siteConfigs: SiteConfig[] = await Promise.all(
+            siteConfigIds.map((id) => checkout('siteConfigs', id!))
+        );
+
+        // the change holds until the next version takes over
+        const nextVersion = sortVersions(siteConfigs)
+            .find((config) => moment(config.date).isAfter(effectiveDate));
+        const until = nextVersion ? moment(nextVersion.date).toDate() : undefined;
+        const routineIds = await findRoutineIdsInScope({ queryIds, getStrict }, { from: effectiveDate, to: until, siteNums: [siteNum] });
+        const routines: Routine[] = (await Promise.all(
+            routineIds.slice(0, recomputePageSize).map((id) => checkout('routines', id))
+        )).filter((routine) => !until || moment(routine.date).isBefore(until));
+
+        return {
+            siteId,
+            effectiveDate,
+            until,
+            siteConfigs,
+            routineIds,
+            routines,
+        };
+    }
+
+    protected async operation (ctx: OCtx): Promise<SiteConfigVersionResult> {
+        const { siteId, effectiveDate, until, siteConfigs, routineIds, routines } = ctx.data;
+        const { siteNum, changes, submitter } = ctx.input;
+        const companyConfig = ctx.input.companyConfig || await readCompanyConfig(ctx);
+        const dryRun = !!ctx.input.dryRun;
+        const tracker = new ChangeTracker(ctx.data, checkoutCollections);
+        const tctx = tracker.track(ctx, { dryRun });
+        // what routines without a stored condition were rated against before the change
+        const previousSiteConfigs: SiteConfig[] = siteConfigs.map((config) => cloneDeep(config));
+        try {
+            let version = siteConfigs.find((config) => moment(config.date).isSame(effectiveDate));
+            if (version) {
+                Object.assign(version, changes);
+            }
+            else {
+                // before the first version the earliest one is the closest description of the site
+                const base = versionAt(siteConfigs, effectiveDate) || sortVersions(siteConfigs)[0];
+                // flagged up front so the created document is written as it will stay
+                const inEffect = versionAt(siteConfigs, new Date());
+                version = await tctx.create('siteConfigs', {
+                    ...contentOf(base),
+                    ...changes,
+                    date: effectiveDate,
+                    isCurrent: !moment(effectiveDate).isAfter(new Date()) &&
+                        (!inEffect || moment(inEffect.date).isBefore(effectiveDate)),
+                }) as SiteConfig;
+            }
+            const versions = siteConfigs.includes(version) ? siteConfigs : [...siteConfigs, version];
+            markCurrentVersion(versions);
+
+            const recomputed: ConditionChange[] = [];
+            for (const routine of routines) {
+                const change = await recomputeRoutineCondition(tctx, routine, companyConfig, { dryRun, submitter, siteConfigs: versions, previousSiteConfigs });
+                // a routine getting its first stored condition did not change condition
+                if (change && change.prev !== undefined) {
+                    recomputed.push(change);
+                }
+            }
+
+            const diff = await tracker.diff();
+            const pendingRecompute = Math.max(routineIds.length - recomputePageSize, 0);
+            let recomputeCursor: string | undefined;
+            if (!dryRun) {
+                tracker.bumpVersions(diff, versionedCollections);
+                await recordAudit(ctx, diff, { submitter, site: siteId });
+            }
+            if (!dryRun && pendingRecompute) {
+                recomputeCursor = await createRecomputeJob(ctx, { from: effectiveDate, to: until, siteNums: [siteNum] }, recomputePageSize, routineIds[recomputePageSize - 1]);
+            }
+            return { version, diff, recomputed, pendingRecompute, recomputeCursor };
+        } finally {
+            if (dryRun) {
+                tracker.restore();
+            }
+        }
+    }
+}
@@ -0,0 +1,98 @@
+import * as moment from 'moment';
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { CompanyConfig } from '../types/company-config';
+import { Region } from './regions';
+import { FleetReport, collectFleetRows, summarizeFleet, fleetReportSettingsOf } from './fleet-report';
+import { FleetReportRun, deliveredScopes } from './record-fleet-report-delivery';
+import { readCompanyConfig, CompanyConfigServiceInput } from './company-config-service';
+
+export type ListDueFleetReportsTransactionInput = {
+    // lists every report of this week, even delivered ones or before they are due
+    force?: boolean;
+    // the current company config when omitted
+    companyConfig?: CompanyConfig;
+} & CompanyConfigServiceInput;
+
+export interface DueFleetReport {
+    scope: string;
+    recipients: string[];
+    report: FleetReport;
+}
+
+export interface DueFleetReports {
+    due: boolean;
+    week: string;
+    reports: DueFleetReport[];
+}
+
+type CCtx = CheckoutCtx<Store, ListDueFleetReportsTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    ListDueFleetReportsTransactionInput,
+    ListDueFleetReportsTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+const emailsOf = async ({ getStrict }, users: string[]) => {
+    const emails: string[] = [];
+    for (const user of users) {
+        const account = await getStrict('users', user).catch(() => undefined);
+        if (account && account.email) {
+            emails.push(account.email);
+        }
+    }
+    return emails;
+};
+
+/**
+ * Builds the weekly fleet condition reports still to be emailed: the company report for the
+ * recipients in the company config and each region's report for its managers. They are due
+ * from the configured weekday and UTC hour of each ISO week on, until delivered. Read-only.
+ */
+export default class ListDueFleetReportsTransaction extends Transaction<ListDueFleetReportsTransactionInput, DueFleetReports> {
+    protected async checkout ({ queryIds, getStrict, input }: CCtx) {
+        const now = new Date();
+        const week = moment.utc(now).format('GGGG-[W]WW');
+        const companyConfig = input.companyConfig || await readCompanyConfig({ queryIds, getStrict, input });
+        const settings = fleetReportSettingsOf(companyConfig);
+        const sendFrom = moment.utc(now).startOf('isoWeek').add((settings.weekday + 6) % 7, 'days').hour(settings.hour);
+        const due = !!input.force || !moment.utc(now).isBefore(sendFrom);
+        if (!due) {
+            return { due, week, now, companyConfig, scopes: [] };
+        }
+
+        const [ runId ] = await queryIds('fleetReportRuns', { filter: { week }, limit: 1 });
+        const run: FleetReportRun | undefined = runId ? await getStrict('fleetReportRuns', runId) : undefined;
+        const delivered = input.force ? [] : deliveredScopes(run);
+
+        const scopes: { scope: string, recipients: string[] }[] = [];
+        if (settings.recipients.length) {
+            scopes.push({ scope: 'company', recipients: settings.recipients });
+        }
+        const regionIds: string[] = await queryIds('regions', {});
+        for (const regionId of regionIds) {
+            const region: Region = await getStrict('regions', regionId);
+            const recipients = await emailsOf({ getStrict }, region.managers || []);
+            if (recipients.length) {
+                scopes.push({ scope: region.code, recipients });
+            }
+        }
+        return { due, week, now, companyConfig, scopes: scopes.filter(({ scope }) => !delivered.includes(scope)) };
+    }
+
+    protected async operation (ctx: OCtx): Promise<DueFleetReports> {
+        const { due, week, now, companyConfig, scopes } = ctx.data;
+        if (!scopes.length) {
+            return { due, week, reports: [] };
+        }
+        const settings = fleetReportSettingsOf(companyConfig);
+        // plants are evaluated once and every report is cut from the same rows
+        const rows = await collectFleetRows(ctx, [], companyConfig, now);
+        return {
+            due,
+            week,
+            reports: scopes.map(({ scope, recipients }) => ({ scope, recipients, report: summarizeFleet(scope, rows, settings, now) })),
+        };
+    }
+}
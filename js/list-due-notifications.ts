@@ -0,0 +1,36 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { OutboxEntry } from './notifications';
+
+export type ListDueNotificationsTransactionInput = {
+    limit?: number;
+};
+
+type CCtx = CheckoutCtx<Store, ListDueNotificationsTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    ListDueNotificationsTransactionInput,
+    ListDueNotificationsTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+/**
+ * Lists the pending outbox entries that are due, oldest first, for dispatchNotifications to
+ * deliver. Read-only.
+ */
+export default class ListDueNotificationsTransaction extends Transaction<ListDueNotificationsTransactionInput, OutboxEntry[]> {
+    protected async checkout ({ queryIds, getStrict, input }: CCtx) {
+        const { limit = 200 } = input;
+        const ids = await queryIds('notificationOutbox', {
+            filter: { status: 'pending', notBefore: { $lte: new Date() } },
+            sort: { createdAt: 1 },
+            limit,
+        });
+        const entries: OutboxEntry[] = await Promise.all(ids.map((id) => getStrict('notificationOutbox', id!)));
+        return { entries };
+    }
+
+    protected async operation (ctx: OCtx): Promise<OutboxEntry[]> {
+        return ctx.data.entries;
+    }
+}
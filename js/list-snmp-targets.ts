@@ -0,0 +1,109 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { PlantConfig } from '../types/plant-config';
+import { findSiteIdsInScope } from './recompute-conditions';
+import { SnmpTarget } from './snmp-client';
+import { SnmpOidMap, findOidMap } from './snmp-oid-maps';
+
+export type LivePlantConfig = PlantConfig & { snmpTarget?: SnmpTarget };
+
+export type ListSnmpTargetsTransactionInput = {
+    region?: string;
+    siteNums?: string[];
+    // id of the last plant config of the previous page
+    cursor?: string;
+    pageSize?: number;
+};
+
+// a live plant's controller and how to read it
+export interface SnmpPollTarget {
+    powerPlant: string;
+    plantConfig: string;
+    snmpTarget: SnmpTarget;
+    oidMap: SnmpOidMap;
+    stringCount: number;
+}
+
+export interface PollSkip {
+    powerPlant: string;
+    reason: string;
+}
+
+export interface SnmpTargetPage {
+    targets: SnmpPollTarget[];
+    skipped: PollSkip[];
+    // pass it back to continue; undefined once done
+    nextCursor?: string;
+}
+
+type CCtx = CheckoutCtx<Store, ListSnmpTargetsTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    ListSnmpTargetsTransactionInput,
+    ListSnmpTargetsTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+const defaultPageSize = 50;
+
+/**
+ * Ids of the current configs of plants in scope whose controllers are polled.
+ */
+const findLivePlantConfigIds = async ({ queryIds, getStrict }, scope: { region?: string, siteNums?: string[] }) => {
+    const configIds: string[] = [];
+    for (const siteId of await findSiteIdsInScope({ queryIds, getStrict }, scope)) {
+        const plantIds: string[] = await queryIds('powerPlants', { filter: { site: siteId } });
+        for (const plantId of plantIds) {
+            const [ configId ] = await queryIds('plantConfigs', { filter: { powerPlant: plantId, isCurrent: true, connectionStatus: 'live' }, limit: 1 });
+            if (configId) {
+                configIds.push(configId);
+            }
+        }
+    }
+    return configIds;
+};
+
+/**
+ * Lists the controllers of one page of live plants to poll, without checking anything out,
+ * so the polling itself can happen outside any transaction. Plants without an SNMP target
+ * or without an oid map for their model are reported as skipped.
+ */
+export default class ListSnmpTargetsTransaction extends Transaction<ListSnmpTargetsTransactionInput, SnmpTargetPage> {
+    protected async checkout ({ queryIds, getStrict, input }: CCtx) {
+        const { cursor, pageSize = defaultPageSize } = input;
+        const configIds = (await findLivePlantConfigIds({ queryIds, getStrict }, input)).sort();
+        const pageIds = (cursor ? configIds.filter((id) => id > cursor) : configIds).slice(0, pageSize);
+
+        const targets: SnmpPollTarget[] = [];
+        const skipped: PollSkip[] = [];
+        for (const configId of pageIds) {
+            const plantConfig: LivePlantConfig = await getStrict('plantConfigs', configId);
+            const powerPlant = plantConfig.powerPlant.toString();
+            const powerPlantType = await getStrict('powerPlantTypes', plantConfig.powerPlantType.toString());
+            const oidMap = await findOidMap({ queryIds, getStrict }, powerPlantType.model);
+            if (!plantConfig.snmpTarget || !oidMap) {
+                skipped.push({
+                    powerPlant,
+                    reason: !plantConfig.snmpTarget ? 'no snmp target configured' : `no oid map for model ${powerPlantType.model}`,
+                });
+                continue;
+            }
+            targets.push({
+                powerPlant,
+                plantConfig: configId,
+                snmpTarget: plantConfig.snmpTarget,
+                oidMap,
+                stringCount: plantConfig.snmpStrings.length,
+            });
+        }
+        return {
+            targets,
+            skipped,
+            nextCursor: pageIds.length === pageSize ? pageIds[pageIds.length - 1] : undefined,
+        };
+    }
+
+    protected async operation (ctx: OCtx): Promise<SnmpTargetPage> {
+        return ctx.data;
+    }
+}
@@ -0,0 +1,24 @@
+import LogGeneratorActivityTransaction from './log-generator-activity';
+
+const daysFromNow = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+describe('LogGeneratorActivityTransaction', () => {
+    it('logs against the generator of a future-dated version once its date has passed', async () => {
+        // the replacement generator was scheduled ahead of time, so only the old version is flagged
+        const siteConfigs = {
+            siteConfig1: { id: 'siteConfig1', site: 'site1', date: daysFromNow(-60), isCurrent: true, generator: 'generator1' },
+            siteConfig2: { id: 'siteConfig2', site: 'site1', date: daysFromNow(-10), isCurrent: false, generator: 'generator2' },
+        };
+        const checkout = jest.fn(async (collection: string, id: string) => ({ id }));
+        const log: any = Object.create(LogGeneratorActivityTransaction.prototype);
+        const data = await log.checkout({
+            input: { siteNum: 'S1', fuelLevels: [{ date: daysFromNow(-1), level: 40 }] },
+            queryIds: jest.fn(async (collection: string) => collection === 'sites' ? ['site1'] : Object.keys(siteConfigs)),
+            getStrict: jest.fn(async (collection: string, id: string) => siteConfigs[id]),
+            checkout,
+        });
+
+        expect(checkout).toHaveBeenCalledWith('generators', 'generator2');
+        expect(data.generator).toEqual({ id: 'generator2' });
+    });
+});
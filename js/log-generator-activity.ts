@@ -0,0 +1,142 @@
+import * as moment from 'moment';
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { SiteConfig } from '../types/site-config';
+import { SiteNotFoundError, GeneratorStateError, UpdateSiteValidationError } from './update-site-errors';
+import { versionAt } from './site-config-history';
+import { regionOf } from './regions';
+import { ManagedGenerator, GeneratorMaintenance, GeneratorTestRun, GeneratorFuelLevel } from './generator-lifecycle';
+import { ValidationIssue, isObject, isBlank, checkString, checkNumber, checkDate, checkSection } from './validation';
+
+type LogGeneratorActivityTransactionInput = {
+    siteNum: string;
+    maintenance?: GeneratorMaintenance[];
+    testRuns?: GeneratorTestRun[];
+    fuelLevels?: GeneratorFuelLevel[];
+    submitter?: string;
+};
+
+type CCtx = CheckoutCtx<Store, LogGeneratorActivityTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    LogGeneratorActivityTransactionInput,
+    LogGeneratorActivityTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+const newestFirst = (a: { date: Date }, b: { date: Date }) => moment(b.date).valueOf() - moment(a.date).valueOf();
+
+/**
+ * Checks the entries of a LogGeneratorActivityTransaction; fuel levels are litres and may
+ * not exceed what any tank holds.
+ */
+export const validateGeneratorActivity = (input: any): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    if (!isObject(input)) {
+        return [{ path: '', code: 'invalid_type', message: 'input must be an object' }];
+    }
+    checkString(issues, 'siteNum', input.siteNum, true);
+    checkString(issues, 'submitter', input.submitter);
+    const sections: { [section: string]: (path: string, entry: any) => void } = {
+        maintenance: (path, entry) => {
+            checkString(issues, `${path}.performedBy`, entry.performedBy);
+            checkString(issues, `${path}.notes`, entry.notes);
+        },
+        testRuns: (path, entry) => {
+            if (isBlank(entry.durationMinutes)) {
+                issues.push({ path: `${path}.durationMinutes`, code: 'required', message: `${path}.durationMinutes is required` });
+            }
+            checkNumber(issues, `${path}.durationMinutes`, entry.durationMinutes, [0, 24 * 60]);
+            if (typeof entry.passed !== 'boolean') {
+                issues.push({ path: `${path}.passed`, code: 'required', message: `${path}.passed must be a boolean` });
+            }
+            checkString(issues, `${path}.performedBy`, entry.performedBy);
+            checkString(issues, `${path}.notes`, entry.notes);
+        },
+        fuelLevels: (path, entry) => {
+            if (isBlank(entry.level)) {
+                issues.push({ path: `${path}.level`, code: 'required', message: `${path}.level is required` });
+            }
+            checkNumber(issues, `${path}.level`, entry.level, [0, 100000]);
+        },
+    };
+    for (const section of Object.keys(sections)) {
+        const entries = input[section];
+        if (isBlank(entries)) {
+            continue;
+        }
+        if (!Array.isArray(entries)) {
+            issues.push({ path: section, code: 'invalid_type', message: `${section} must be an array` });
+            continue;
+        }
+        entries.forEach((entry: any, i: number) => {
+            const path = `${section}[${i}]`;
+            if (checkSection(issues, path, entry, true)) {
+                checkDate(issues, `${path}.date`, entry.date, true);
+                sections[section](path, entry);
+            }
+        });
+    }
+    return issues;
+};
+
+/**
+ * Records maintenance, test runs and fuel-level readings against the generator currently
+ * installed on a site. Entries may be backdated but not to before the install date.
+ */
+export default class LogGeneratorActivityTransaction extends Transaction<LogGeneratorActivityTransactionInput, ManagedGenerator> {
+    protected async checkout ({ checkout, queryIds, getStrict, input }: CCtx) {
+        const issues = validateGeneratorActivity(input);
+        if (issues.length) {
+            throw new UpdateSiteValidationError(issues);
+        }
+        const { siteNum } = input;
+        const [ siteId ] = await queryIds('sites', { filter: { siteNum }, limit: 1 });
+        if (!siteId) {
+            throw new SiteNotFoundError(siteNum);
+        }
+        const siteConfigIds = await queryIds('siteConfigs', { filter: { site: siteId } });
+        const siteConfigs: SiteConfig[] = await Promise.all(siteConfigIds.map((id) => getStrict('siteConfigs', id!)));
+        // by date, as a future-dated version is in effect from its date before anything flags it
+        const siteConfig = versionAt(siteConfigs, new Date());
+        if (!siteConfig || !siteConfig.generator) {
+            throw new GeneratorStateError(siteNum, 'log activity for');
+        }
+        const generator: ManagedGenerator = await checkout('generators', siteConfig.generator);
+        return { siteId, generator };
+    }
+
+    protected async operation (ctx: OCtx): Promise<ManagedGenerator> {
+        const { siteId, generator } = ctx.data;
+        const { siteNum, maintenance = [], testRuns = [], fuelLevels = [], submitter } = ctx.input;
+
+        const entries = [...maintenance, ...testRuns, ...fuelLevels];
+        if (generator.installDate && entries.some(({ date }) => moment(date).isBefore(generator.installDate))) {
+            throw new GeneratorStateError(siteNum, 'log activity before the install of');
+        }
+        if (generator.tankCapacity && fuelLevels.some(({ level }) => level > generator.tankCapacity!)) {
+            throw new GeneratorStateError(siteNum, 'log more fuel than the tank holds for');
+        }
+
+        const withDates = <T extends { date: Date | string }>(items: T[]) =>
+            items.map((item) => ({ ...item, date: moment(item.date).toDate() }));
+        generator.maintenanceLog = [...(generator.maintenanceLog || []), ...withDates(maintenance)].sort(newestFirst);
+        generator.testRuns = [...(generator.testRuns || []), ...withDates(testRuns)].sort(newestFirst);
+        generator.fuelLevels = [...(generator.fuelLevels || []), ...withDates(fuelLevels)].sort(newestFirst);
+
+        const commentUpdates = [
+            ...testRuns.map(({ passed }) => ({ readingType: 'generator-test-run', new: passed ? 'passed' : 'failed', manual: true })),
+            ...fuelLevels.map(({ level }) => ({ readingType: 'generator-fuel-level', new: level, manual: true })),
+            ...maintenance.map(({ notes }) => ({ readingType: 'generator-maintenance', new: notes, manual: true })),
+        ];
+        await ctx.create('logItems', {
+            submitter,
+            date: new Date(),
+            site: siteId,
+            region: await regionOf(ctx, { site: siteId }),
+            type: 'generator',
+            commentUpdates,
+        });
+        return generator;
+    }
+}
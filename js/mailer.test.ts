@@ -0,0 +1,48 @@
+import { createMailer, createJsonMailer } from './mailer';
+
+jest.mock('../../envs', () => ({
+    MAIL_USER: 'reports@example.com',
+    MAIL_HOST: 'mail.example.com',
+}));
+
+const message = {
+    to: 'manager@example.com',
+    subject: 'Weekly fleet report',
+    text: 'attached',
+    attachments: [{ filename: 'fleet.csv', content: 'site,condition\r\nS1,2\r\n', contentType: 'text/csv' }],
+};
+
+describe('createJsonMailer', () => {
+    it('hands the message back as JSON with the sender and base64 attachments', async () => {
+        const { messageId, message: sent } = await createJsonMailer().send(message);
+        expect(messageId).toMatch(/^<\d+\.1@mail\.example\.com>$/);
+        expect(JSON.parse(sent)).toEqual({
+            to: 'manager@example.com',
+            subject: 'Weekly fleet report',
+            text: 'attached',
+            from: 'reports@example.com',
+            messageId,
+            attachments: [{
+                filename: 'fleet.csv',
+                contentType: 'text/csv',
+                content: Buffer.from('site,condition\r\nS1,2\r\n').toString('base64'),
+                encoding: 'base64',
+            }],
+        });
+    });
+
+    it('numbers the messages of each mailer on its own', async () => {
+        const first = createJsonMailer();
+        await first.send(message);
+        expect((await first.send(message)).messageId).toMatch(/\.2@/);
+        expect((await createJsonMailer().send(message)).messageId).toMatch(/\.1@/);
+    });
+});
+
+describe('createMailer', () => {
+    it('sends through the transport from the configured sender', async () => {
+        const transport = { sendMail: jest.fn(async () => ({ messageId: '<1@smtp>' })) };
+        expect(await createMailer(transport).send(message)).toEqual({ messageId: '<1@smtp>' });
+        expect(transport.sendMail).toHaveBeenCalledWith({ from: 'reports@example.com', ...message });
+    });
+});
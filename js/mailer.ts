@@ -0,0 +1,54 @@
+import { MAIL_USER, MAIL_HOST } from '../../envs';
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+    attachments?: { filename: string, content: string | Buffer, contentType?: string }[];
+}
+
+export interface Mailer {
+    send: (message: MailMessage) => Promise<{ messageId: string, message?: any }>;
+}
+
+/**
+ * What actually delivers mail, e.g. the app's SMTP transport; `sendMail` takes the message
+ * with its `from` address.
+ */
+export interface MailTransport {
+    sendMail: (message: MailMessage & { from: string }) => Promise<{ messageId: string, message?: any }>;
+}
+
+const sender = () => MAIL_USER || `no-reply@${MAIL_HOST || 'localhost'}`;
+
+/**
+ * Mailer sending through `transport` from the configured `MAIL_USER`.
+ */
+export const createMailer = (transport: MailTransport): Mailer => ({
+    send: (message) => transport.sendMail({ from: sender(), ...message }),
+});
+
+/**
+ * Stands in for SMTP locally and in tests: renders the message as JSON, attachments base64
+ * encoded, and hands it back instead of sending it.
+ */
+export const createJsonMailer = (): Mailer => {
+    let sent = 0;
+    return {
+        send: async (message) => {
+            sent += 1;
+            const messageId = `<${Date.now()}.${sent}@${MAIL_HOST || 'localhost'}>`;
+            const attachments = (message.attachments || []).map(({ filename, content, contentType }) => ({
+                filename,
+                contentType,
+                content: Buffer.from(content).toString('base64'),
+                encoding: 'base64',
+            }));
+            return {
+                messageId,
+                message: JSON.stringify({ ...message, from: sender(), messageId, attachments }),
+            };
+        },
+    };
+};
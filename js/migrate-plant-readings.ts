@@ -0,0 +1,125 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import createLogger from '../../logger';
+import { PlantReadingBucket, MigratablePlantRecord, bucketsFromPlantRecord, seriesTypesOf } from './plant-reading-series';
+
+const logger = createLogger({ label: 'Migrate Plant Readings' });
+
+type MigratePlantReadingsTransactionInput = {
+    // id of the last plant record of the previous page
+    cursor?: string;
+    pageSize?: number;
+};
+
+interface MigrationFailure {
+    plantRecord: string;
+    message: string;
+}
+
+export interface MigrationPage {
+    migrated: number;
+    buckets: number;
+    failed: MigrationFailure[];
+    // pass it back to continue; undefined once every plant record was visited
+    nextCursor?: string;
+}
+
+export interface MigrationSummary {
+    migrated: number;
+    buckets: number;
+    failed: MigrationFailure[];
+    cursor?: string;
+}
+
+interface PlantToMigrate {
+    plantRecord: MigratablePlantRecord;
+    existingBuckets: PlantReadingBucket[];
+}
+
+type CCtx = CheckoutCtx<Store, MigratePlantReadingsTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    MigratePlantReadingsTransactionInput,
+    MigratePlantReadingsTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+const defaultPageSize = 20;
+
+/**
+ * Moves the legacy plant record series of one page of not yet migrated plants into monthly
+ * reading buckets, replacing any buckets those plants already have, and marks each record
+ * `readingsMigratedAt`. Until a plant's record is marked every reading write goes to the
+ * record, and from then on to the buckets only; the record stays, small, as the holder of
+ * the readings' version.
+ */
+export default class MigratePlantReadingsTransaction extends Transaction<MigratePlantReadingsTransactionInput, MigrationPage> {
+    protected async checkout ({ checkout, queryIds, input }: CCtx) {
+        const { cursor, pageSize = defaultPageSize } = input;
+        const plantRecordIds: string[] = (await queryIds('plantRecords', { filter: { readingsMigratedAt: { $exists: false } } })).sort();
+        const pageIds = (cursor ? plantRecordIds.filter((id) => id > cursor) : plantRecordIds).slice(0, pageSize);
+
+        const plants: PlantToMigrate[] = [];
+        for (const plantRecordId of pageIds) {
+            const plantRecord: MigratablePlantRecord = await checkout('plantRecords', plantRecordId);
+            const bucketIds: string[] = await queryIds('plantReadingBuckets', { filter: { powerPlant: plantRecord.powerPlant } });
+            const existingBuckets: PlantReadingBucket[] = await Promise.all(
+                bucketIds.map((id) => checkout('plantReadingBuckets', id))
+            );
+            plants.push({ plantRecord, existingBuckets });
+        }
+        return {
+            plants,
+            nextCursor: pageIds.length === pageSize ? pageIds[pageIds.length - 1] : undefined,
+        };
+    }
+
+    protected async operation (ctx: OCtx): Promise<MigrationPage> {
+        const { plants, nextCursor } = ctx.data;
+        const page: MigrationPage = { migrated: 0, buckets: 0, failed: [], nextCursor };
+
+        for (const { plantRecord, existingBuckets } of plants) {
+            try {
+                for (const bucket of existingBuckets) {
+                    ctx.remove(bucket);
+                }
+                const buckets = bucketsFromPlantRecord(plantRecord);
+                for (const bucket of buckets) {
+                    await ctx.create('plantReadingBuckets', bucket);
+                }
+                for (const readingType of seriesTypesOf(plantRecord)) {
+                    delete plantRecord[readingType];
+                }
+                plantRecord.readingsMigratedAt = new Date();
+                page.migrated += 1;
+                page.buckets += buckets.length;
+            } catch (error) {
+                logger.error(error);
+                page.failed.push({ plantRecord: plantRecord.id, message: error.message });
+            }
+        }
+        return page;
+    }
+}
+
+/**
+ * Runs MigratePlantReadingsTransaction page by page until every plant record was visited.
+ * Plants that failed keep their record as their series and are picked up by the next run.
+ */
+export const runPlantReadingsMigration = async (
+    execute: (input: MigratePlantReadingsTransactionInput) => Promise<MigrationPage>,
+    input: MigratePlantReadingsTransactionInput = {},
+    onProgress: (summary: MigrationSummary) => void | Promise<void> = () => undefined,
+): Promise<MigrationSummary> => {
+    const summary: MigrationSummary = { migrated: 0, buckets: 0, failed: [], cursor: input.cursor };
+    do {
+        const page = await execute({ ...input, cursor: summary.cursor });
+        summary.migrated += page.migrated;
+        summary.buckets += page.buckets;
+        summary.failed.push(...page.failed);
+        summary.cursor = page.nextCursor;
+        logger.info(`migrated the readings of ${summary.migrated} plants into ${summary.buckets} buckets, ${summary.failed.length} failed`);
+        await onProgress(summary);
+    } while (summary.cursor);
+    return summary;
+};
@@ -0,0 +1,107 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import createLogger from '../../logger';
+import { SerialBattery, normalizeSerial } from './serial-registry';
+
+const logger = createLogger({ label: 'Normalize Serial Numbers' });
+
+type NormalizeSerialNumbersTransactionInput = {
+    // id of the last battery of the previous page
+    cursor?: string;
+    pageSize?: number;
+};
+
+// batteries whose serial only differs in case or surrounding whitespace
+interface SerialDuplicate {
+    serialNumber: string;
+    batteries: string[];
+}
+
+export interface NormalizePage {
+    normalized: number;
+    duplicates: SerialDuplicate[];
+    // pass it back to continue; undefined once done
+    nextCursor?: string;
+}
+
+export interface NormalizeSummary {
+    normalized: number;
+    duplicates: SerialDuplicate[];
+    cursor?: string;
+}
+
+type CCtx = CheckoutCtx<Store, NormalizeSerialNumbersTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    NormalizeSerialNumbersTransactionInput,
+    NormalizeSerialNumbersTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+const defaultPageSize = 500;
+
+// serials with lower case letters or surrounding whitespace, as entered before normalizing
+const unnormalizedSerial = { $regex: '[a-z]|^\\s|\\s$' };
+
+/**
+ * Stores one page of serials entered before serials were normalized the way normalizeSerial
+ * does, so the registry's duplicate checks find them. Batteries that turn out to share a
+ * serial are reported, not changed, for someone to sort out which one holds it.
+ */
+export default class NormalizeSerialNumbersTransaction extends Transaction<NormalizeSerialNumbersTransactionInput, NormalizePage> {
+    protected async checkout ({ checkout, queryIds, input }: CCtx) {
+        const { cursor, pageSize = defaultPageSize } = input;
+        const batteryIds: string[] = (await queryIds('batteries', { filter: { serialNumber: unnormalizedSerial } })).sort();
+        const pageIds = (cursor ? batteryIds.filter((id) => id > cursor) : batteryIds).slice(0, pageSize);
+        const batteries: SerialBattery[] = await Promise.all(pageIds.map((id) => checkout('batteries', id)));
+        return {
+            batteries,
+            nextCursor: pageIds.length === pageSize ? pageIds[pageIds.length - 1] : undefined,
+        };
+    }
+
+    protected async operation (ctx: OCtx): Promise<NormalizePage> {
+        const { batteries, nextCursor } = ctx.data;
+        const page: NormalizePage = { normalized: 0, duplicates: [], nextCursor };
+        const holders = new Map<string, string[]>();
+
+        for (const battery of batteries) {
+            const serial = normalizeSerial(battery.serialNumber);
+            battery.serialNumber = serial;
+            page.normalized += 1;
+            if (!holders.has(serial)) {
+                holders.set(serial, await ctx.queryIds('batteries', { filter: { serialNumber: serial } }));
+            }
+            const holderIds = holders.get(serial)!;
+            if (!holderIds.includes(battery.id)) {
+                holderIds.push(battery.id);
+            }
+        }
+        holders.forEach((holderIds, serialNumber) => {
+            if (holderIds.length > 1) {
+                page.duplicates.push({ serialNumber, batteries: holderIds });
+            }
+        });
+        return page;
+    }
+}
+
+/**
+ * Runs NormalizeSerialNumbersTransaction page by page over every battery.
+ */
+export const runSerialNormalization = async (
+    execute: (input: NormalizeSerialNumbersTransactionInput) => Promise<NormalizePage>,
+    input: NormalizeSerialNumbersTransactionInput = {},
+    onProgress: (summary: NormalizeSummary) => void | Promise<void> = () => undefined,
+): Promise<NormalizeSummary> => {
+    const summary: NormalizeSummary = { normalized: 0, duplicates: [], cursor: input.cursor };
+    do {
+        const page = await execute({ ...input, cursor: summary.cursor });
+        summary.normalized += page.normalized;
+        summary.duplicates.push(...page.duplicates);
+        summary.cursor = page.nextCursor;
+        logger.info(`normalized ${summary.normalized} serial numbers, ${summary.duplicates.length} shared`);
+        await onProgress(summary);
+    } while (summary.cursor);
+    return summary;
+};
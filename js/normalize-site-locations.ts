@@ -0,0 +1,97 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import createLogger from '../../logger';
+import { Site } from '../types/site';
+import { siteCoordinates } from './geo';
+import { bumpVersion } from './versioning';
+
+const logger = createLogger({ label: 'Normalize Site Locations' });
+
+type NormalizeSiteLocationsTransactionInput = {
+    // id of the last site of the previous page
+    cursor?: string;
+    pageSize?: number;
+};
+
+export interface LocationNormalizePage {
+    normalized: number;
+    // sites whose coordinates were not a usable [longitude, latitude] and lost their location
+    dropped: string[];
+    // pass it back to continue; undefined once done
+    nextCursor?: string;
+}
+
+export interface LocationNormalizeSummary {
+    normalized: number;
+    dropped: string[];
+    cursor?: string;
+}
+
+type CCtx = CheckoutCtx<Store, NormalizeSiteLocationsTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    NormalizeSiteLocationsTransactionInput,
+    NormalizeSiteLocationsTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+const defaultPageSize = 500;
+
+// locations written before sites stored GeoJSON, mostly with type 'point'
+const legacyLocation = { location: { $exists: true }, 'location.type': { $ne: 'Point' } };
+
+/**
+ * Rewrites one page of site locations stored before sites used GeoJSON Points, which the
+ * 2dsphere index on `location` rejects. Run it to the end before creating that index.
+ * Locations without usable coordinates are removed and their sites reported.
+ */
+export default class NormalizeSiteLocationsTransaction extends Transaction<NormalizeSiteLocationsTransactionInput, LocationNormalizePage> {
+    protected async checkout ({ checkout, queryIds, input }: CCtx) {
+        const { cursor, pageSize = defaultPageSize } = input;
+        const siteIds: string[] = (await queryIds('sites', { filter: legacyLocation })).sort();
+        const pageIds = (cursor ? siteIds.filter((id) => id > cursor) : siteIds).slice(0, pageSize);
+        const sites: Site[] = await Promise.all(pageIds.map((id) => checkout('sites', id)));
+        return {
+            sites,
+            nextCursor: pageIds.length === pageSize ? pageIds[pageIds.length - 1] : undefined,
+        };
+    }
+
+    protected async operation (ctx: OCtx): Promise<LocationNormalizePage> {
+        const { sites, nextCursor } = ctx.data;
+        const page: LocationNormalizePage = { normalized: 0, dropped: [], nextCursor };
+
+        for (const site of sites) {
+            const coordinates = siteCoordinates(site);
+            if (coordinates) {
+                site.location = { type: 'Point', coordinates };
+                page.normalized += 1;
+            } else {
+                delete site.location;
+                page.dropped.push(site.siteNum);
+            }
+            bumpVersion(site);
+        }
+        return page;
+    }
+}
+
+/**
+ * Runs NormalizeSiteLocationsTransaction page by page over every site.
+ */
+export const runSiteLocationNormalization = async (
+    execute: (input: NormalizeSiteLocationsTransactionInput) => Promise<LocationNormalizePage>,
+    input: NormalizeSiteLocationsTransactionInput = {},
+    onProgress: (summary: LocationNormalizeSummary) => void | Promise<void> = () => undefined,
+): Promise<LocationNormalizeSummary> => {
+    const summary: LocationNormalizeSummary = { normalized: 0, dropped: [], cursor: input.cursor };
+    do {
+        const page = await execute({ ...input, cursor: summary.cursor });
+        summary.normalized += page.normalized;
+        summary.dropped.push(...page.dropped);
+        summary.cursor = page.nextCursor;
+        logger.info(`normalized ${summary.normalized} site locations, ${summary.dropped.length} dropped`);
+        await onProgress(summary);
+    } while (summary.cursor);
+    return summary;
+};
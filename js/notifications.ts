@@ -0,0 +1,156 @@
+import * as moment from 'moment';
+
+export type NotificationChannel = 'email' | 'webhook' | 'in-app';
+
+export const notificationChannels: NotificationChannel[] = ['email', 'webhook', 'in-app'];
+
+export interface NotificationInput {
+    type: string;
+    title: string;
+    message: string;
+    site?: string;
+    context?: { [key: string]: any };
+}
+
+/**
+ * An in-app notification, one per recipient, shown until the user marks it read.
+ */
+export interface Notification extends NotificationInput {
+    id: string;
+    user: string;
+    read: boolean;
+    createdAt: Date;
+}
+
+/**
+ * Local times ('HH:mm') between which email and webhook deliveries wait, unless the
+ * notification is urgent and `allowUrgent` is set. `utcOffset` is in minutes.
+ */
+export interface QuietHours {
+    start: string;
+    end: string;
+    utcOffset?: number;
+    allowUrgent?: boolean;
+}
+
+/**
+ * A user's notification rules. Without one, users notified by role get email and in-app
+ * messages; with one, only the events, scope and channels it lists.
+ */
+export interface NotificationSubscription {
+    id: string;
+    user: string;
+    // notification types, e.g. 'condition-escalation'; every type when empty
+    events: string[];
+    channels: NotificationChannel[];
+    // region codes or site numbers to hear about beyond the sites the user has a role on
+    regions?: string[];
+    siteNums?: string[];
+    // lowest condition an escalation must reach to be sent
+    minCondition?: number;
+    webhookUrl?: string;
+    quietHours?: QuietHours;
+}
+
+export type OutboxStatus = 'pending' | 'sent' | 'failed';
+
+export interface OutboxEntry {
+    id: string;
+    channel: NotificationChannel;
+    user?: string;
+    // email address or webhook url, unset for in-app
+    address?: string;
+    notification: NotificationInput;
+    dedupeKey: string;
+    status: OutboxStatus;
+    attempts: number;
+    notBefore: Date;
+    createdAt: Date;
+    sentAt?: Date;
+    error?: string;
+}
+
+/**
+ * Creates an in-app notification for each distinct user.
+ */
+export const notifyUsers = async (ctx, users: string[], notification: NotificationInput): Promise<Notification[]> => {
+    const created: Notification[] = [];
+    for (const user of Array.from(new Set(users.filter((id) => !!id)))) {
+        created.push(await ctx.create('notifications', {
+            ...notification,
+            user,
+            read: false,
+            createdAt: new Date(),
+        }));
+    }
+    return created;
+};
+
+const minutesOf = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + (minutes || 0);
+};
+
+/**
+ * When a delivery due at `now` may go out: `now`, or the end of the quiet hours it falls in.
+ * Quiet hours may span midnight.
+ */
+export const deliveryTime = (quietHours: QuietHours | undefined, now = new Date(), urgent = false) => {
+    if (!quietHours || (urgent && quietHours.allowUrgent)) {
+        return now;
+    }
+    const local = moment.utc(now).utcOffset(quietHours.utcOffset || 0);
+    const minute = local.hours() * 60 + local.minutes();
+    const start = minutesOf(quietHours.start);
+    const end = minutesOf(quietHours.end);
+    const quiet = start <= end ?
+        minute >= start && minute < end :
+        minute >= start || minute < end;
+    if (!quiet) {
+        return now;
+    }
+    const resume = local.clone().startOf('day').add(end, 'minutes');
+    if (resume.isBefore(local)) {
+        resume.add(1, 'day');
+    }
+    return resume.toDate();
+};
+
+interface EnqueueOptions {
+    channel: NotificationChannel;
+    user?: string;
+    address?: string;
+    notification: NotificationInput;
+    dedupeKey: string;
+    quietHours?: QuietHours;
+    urgent?: boolean;
+    // a delivery with the same key within this many minutes is dropped
+    dedupeWindow?: number;
+}
+
+/**
+ * Queues one delivery in the outbox for dispatchNotifications, unless the same
+ * delivery was queued within the dedupe window. In-app messages ignore quiet hours.
+ */
+export const enqueueNotification = async (ctx, options: EnqueueOptions): Promise<OutboxEntry | undefined> => {
+    const { channel, user, address, notification, dedupeKey, quietHours, urgent, dedupeWindow = 360 } = options;
+    const now = new Date();
+    const [ duplicateId ] = await ctx.queryIds('notificationOutbox', {
+        filter: { dedupeKey, createdAt: { $gte: moment(now).subtract(dedupeWindow, 'minutes').toDate() } },
+        limit: 1,
+    });
+    if (duplicateId) {
+        return undefined;
+    }
+    return ctx.create('notificationOutbox', {
+        channel,
+        user,
+        address,
+        notification,
+        dedupeKey,
+        status: 'pending',
+        attempts: 0,
+        notBefore: channel === 'in-app' ? now : deliveryTime(quietHours, now, urgent),
+        createdAt: now,
+    });
+};
@@ -0,0 +1,380 @@
+import * as moment from 'moment';
+import { PlantRecord } from '../types/plant-record';
+import { ReadingSample, indexAtOrBefore, findSampleIndex, setSampleAt, removeSampleAt, sortSeries, timeOf, readingTypes } from './plant-record-readings';
+
+/**
+ * One calendar month (UTC) of a single reading series of a plant. Keeping months in
+ * separate documents means an edit only loads and rewrites its month.
+ */
+export interface PlantReadingBucket {
+    id: string;
+    powerPlant: string;
+    readingType: string;
+    bucketStart: Date;
+    // samples newest first, split into chunks of at most `maxChunkSize`, also newest first
+    chunks: ReadingSample[][];
+    version?: number;
+}
+
+// a plant record stays the plant's series until its readings are moved into buckets; its
+// version moves on with every reading write, wherever the readings are kept
+export type MigratablePlantRecord = PlantRecord & {
+    readingsMigratedAt?: Date;
+    readingsUpdatedAt?: Date;
+    version?: number;
+};
+
+export type DownsampleInterval = 'hour' | 'day';
+
+export interface DownsampledReading {
+    start: Date;
+    min: number;
+    max: number;
+    avg: number;
+    count: number;
+}
+
+export const bucketStartOf = (date: string | Date) => moment.utc(date).startOf('month').toDate();
+
+// an insert or removal shifts the samples of one chunk only, so a point update costs
+// O(log n) to find the chunk plus a bounded shift, however many samples the month holds
+export const maxChunkSize = 64;
+
+/**
+ * Index of the first of newest-first chunks whose oldest sample is at or before `time`, or
+ * the number of chunks when every sample is later.
+ */
+const chunkAtOrBefore = (chunks: ReadingSample[][], time: number) => {
+    let low = 0;
+    let high = chunks.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        const chunk = chunks[mid];
+        if (timeOf(chunk[chunk.length - 1][0]) <= time) {
+            high = mid;
+        }
+        else {
+            low = mid + 1;
+        }
+    }
+    return low;
+};
+
+/**
+ * Writes `value` at exactly `date` into a bucket's chunks, splitting the chunk it lands in
+ * once it outgrows `maxChunkSize`; returns the value it replaced.
+ */
+const setInChunks = (chunks: ReadingSample[][], date: string | Date, value: number) => {
+    if (!chunks.length) {
+        chunks.push([[moment(date).toDate(), value]]);
+        return undefined;
+    }
+    // a sample older than every other one goes into the oldest chunk
+    const chunkIndex = Math.min(chunkAtOrBefore(chunks, timeOf(date)), chunks.length - 1);
+    const chunk = chunks[chunkIndex];
+    const prev = setSampleAt(chunk, date, value);
+    if (chunk.length > maxChunkSize) {
+        const half = chunk.length >> 1;
+        chunks.splice(chunkIndex, 1, chunk.slice(0, half), chunk.slice(half));
+    }
+    return prev;
+};
+
+const removeFromChunks = (chunks: ReadingSample[][], date: string | Date) => {
+    const chunkIndex = chunkAtOrBefore(chunks, timeOf(date));
+    if (chunkIndex === chunks.length) {
+        return undefined;
+    }
+    const prev = removeSampleAt(chunks[chunkIndex], date);
+    if (!chunks[chunkIndex].length) {
+        chunks.splice(chunkIndex, 1);
+    }
+    return prev;
+};
+
+/**
+ * Splits newest-first samples into chunks.
+ */
+export const chunksOf = (samples: ReadingSample[]) => {
+    const chunks: ReadingSample[][] = [];
+    for (let start = 0; start < samples.length; start += maxChunkSize) {
+        chunks.push(samples.slice(start, start + maxChunkSize));
+    }
+    return chunks;
+};
+
+const samplesOf = (bucket: PlantReadingBucket) => ([] as ReadingSample[]).concat(...bucket.chunks);
+
+/**
+ * Id of the plant record of a plant, migrated or not.
+ */
+export const findPlantRecordId = async (queryIds, powerPlant: string): Promise<string | undefined> => {
+    const [ plantRecordId ] = await queryIds('plantRecords', { filter: { powerPlant }, limit: 1 });
+    return plantRecordId;
+};
+
+/**
+ * Id of the plant record of a plant whose readings were not migrated into buckets yet.
+ */
+export const findUnmigratedPlantRecordId = async (queryIds, powerPlant: string): Promise<string | undefined> => {
+    const [ plantRecordId ] = await queryIds('plantRecords', { filter: { powerPlant, readingsMigratedAt: { $exists: false } }, limit: 1 });
+    return plantRecordId;
+};
+
+/**
+ * Ids of the buckets holding `readingTypes` at each of `dates`, together with the newest
+ * earlier bucket of each, so at-or-before lookups work across month boundaries.
+ */
+export const findBucketIds = async (queryIds, powerPlant: string, readingTypes: string[], dates: (string | Date)[]): Promise<string[]> => {
+    const ids = new Set<string>();
+    for (const readingType of readingTypes) {
+        for (const date of dates) {
+            const bucketStart = bucketStartOf(date);
+            const [ bucketId ] = await queryIds('plantReadingBuckets', { filter: { powerPlant, readingType, bucketStart }, limit: 1 });
+            const [ previousId ] = await queryIds('plantReadingBuckets', {
+                filter: { powerPlant, readingType, bucketStart: { $lt: bucketStart } },
+                sort: { bucketStart: -1 },
+                limit: 1,
+            });
+            [bucketId, previousId].filter((id) => !!id).forEach((id) => ids.add(id));
+        }
+    }
+    return Array.from(ids);
+};
+
+/**
+ * Checks out a plant's record, which carries the version of its readings, and the series to
+ * write to: the record itself while its readings were not migrated, otherwise the buckets of
+ * `readingTypes` at `dates` found by findBucketIds.
+ */
+export const checkoutReadingSeries = async ({ checkout, queryIds }, powerPlant: string, readingTypes: string[], dates: (string | Date)[]) => {
+    const plantRecordId = await findPlantRecordId(queryIds, powerPlant);
+    const plantRecord: MigratablePlantRecord | undefined = plantRecordId ? await checkout('plantRecords', plantRecordId) : undefined;
+    if (plantRecord && !plantRecord.readingsMigratedAt) {
+        return { plantRecord, readingBuckets: [] as PlantReadingBucket[] };
+    }
+    const bucketIds = await findBucketIds(queryIds, powerPlant, readingTypes, dates);
+    const readingBuckets: PlantReadingBucket[] = await Promise.all(
+        bucketIds.map((id) => checkout('plantReadingBuckets', id))
+    );
+    return { plantRecord, readingBuckets };
+};
+
+/**
+ * The buckets of a plant between `from` and `to`, oldest first.
+ */
+export const readBuckets = async (ctx, powerPlant: string, readingType: string, from: string | Date, to: string | Date): Promise<PlantReadingBucket[]> => {
+    const ids: string[] = await ctx.queryIds('plantReadingBuckets', {
+        filter: { powerPlant, readingType, bucketStart: { $gte: bucketStartOf(from), $lte: bucketStartOf(to) } },
+    });
+    const buckets: PlantReadingBucket[] = await Promise.all(ids.map((id) => ctx.getStrict('plantReadingBuckets', id)));
+    return buckets.sort((a, b) => timeOf(a.bucketStart) - timeOf(b.bucketStart));
+};
+
+/**
+ * Samples of a series between `from` and `to` inclusive, oldest first.
+ */
+export const readRange = async (ctx, powerPlant: string, readingType: string, from: string | Date, to: string | Date): Promise<ReadingSample[]> => {
+    const fromTime = timeOf(from);
+    const toTime = timeOf(to);
+    const inRange = (samples: ReadingSample[]) =>
+        samples.filter(([date]) => timeOf(date) >= fromTime && timeOf(date) <= toTime).reverse();
+
+    const plantRecordId = await findUnmigratedPlantRecordId(ctx.queryIds, powerPlant);
+    if (plantRecordId) {
+        const plantRecord: PlantRecord = await ctx.getStrict('plantRecords', plantRecordId);
+        return inRange(sortSeries([...(plantRecord[readingType] || [])]));
+    }
+    const samples: ReadingSample[] = [];
+    for (const bucket of await readBuckets(ctx, powerPlant, readingType, from, to)) {
+        samples.push(...inRange(samplesOf(bucket)));
+    }
+    return samples;
+};
+
+/**
+ * Min, max and average per hour or day (UTC) of oldest-first samples.
+ */
+export const downsample = (samples: ReadingSample[], interval: DownsampleInterval): DownsampledReading[] => {
+    const groups = new Map<number, DownsampledReading>();
+    for (const [date, value] of samples) {
+        const start = moment.utc(date).startOf(interval).toDate();
+        const group = groups.get(start.getTime());
+        if (!group) {
+            groups.set(start.getTime(), { start, min: value, max: value, avg: value, count: 1 });
+            continue;
+        }
+        group.min = Math.min(group.min, value);
+        group.max = Math.max(group.max, value);
+        group.avg = (group.avg * group.count + value) / (group.count + 1);
+        group.count += 1;
+    }
+    return Array.from(groups.values());
+};
+
+/**
+ * Reads and writes samples of one plant. While the plant's readings were not migrated its
+ * plant record stays the series written to; otherwise its checked-out buckets are. Lookups
+ * are a binary search over a month's chunks and then within one chunk; writes to a month
+ * without a bucket create one. Every write stamps the plant record's `readingsUpdatedAt`, so
+ * the record is saved, and its version bumped, whenever the plant's readings change.
+ */
+export class PlantReadingSeries {
+    private buckets: PlantReadingBucket[];
+    // legacy series sorted once in this transaction, as they were not always stored in order
+    private sortedTypes = new Set<string>();
+
+    private legacy: boolean;
+
+    constructor (private ctx, private powerPlant: string, buckets: PlantReadingBucket[], private plantRecord?: MigratablePlantRecord) {
+        this.buckets = [...buckets];
+        this.legacy = !!plantRecord && !plantRecord.readingsMigratedAt;
+    }
+
+    private touch () {
+        if (this.plantRecord) {
+            this.plantRecord.readingsUpdatedAt = new Date();
+        }
+    }
+
+    private legacySeries (readingType: string): ReadingSample[] {
+        const plantRecord = this.plantRecord!;
+        if (!plantRecord[readingType]) {
+            plantRecord[readingType] = [];
+        }
+        if (!this.sortedTypes.has(readingType)) {
+            sortSeries(plantRecord[readingType]);
+            this.sortedTypes.add(readingType);
+        }
+        return plantRecord[readingType];
+    }
+
+    // buckets of a reading type, newest month first
+    private bucketsOf (readingType: string) {
+        return this.buckets
+            .filter((bucket) => bucket.readingType === readingType)
+            .sort((a, b) => timeOf(b.bucketStart) - timeOf(a.bucketStart));
+    }
+
+    private bucketAt (readingType: string, date: string | Date) {
+        const bucketStart = bucketStartOf(date).getTime();
+        return this.buckets.find((bucket) => bucket.readingType === readingType && timeOf(bucket.bucketStart) === bucketStart);
+    }
+
+    /**
+     * The newest sample at or before `date`, with the array holding it and its index there.
+     */
+    sampleAtOrBefore (readingType: string, date: string | Date) {
+        const time = timeOf(date);
+        if (this.legacy) {
+            const samples = this.legacySeries(readingType);
+            const index = indexAtOrBefore(samples, time);
+            return index < samples.length ? { samples, index, sample: samples[index] } : undefined;
+        }
+        for (const bucket of this.bucketsOf(readingType)) {
+            if (timeOf(bucket.bucketStart) > time) {
+                continue;
+            }
+            const chunkIndex = chunkAtOrBefore(bucket.chunks, time);
+            if (chunkIndex < bucket.chunks.length) {
+                const samples = bucket.chunks[chunkIndex];
+                const index = indexAtOrBefore(samples, time);
+                return { samples, index, sample: samples[index] };
+            }
+        }
+        return undefined;
+    }
+
+    valueAtOrBefore (readingType: string, date: string | Date) {
+        const found = this.sampleAtOrBefore(readingType, date);
+        return found ? found.sample[1] : undefined;
+    }
+
+    has (readingType: string, date: string | Date) {
+        if (this.legacy) {
+            return findSampleIndex(this.legacySeries(readingType), date) >= 0;
+        }
+        const bucket = this.bucketAt(readingType, date);
+        if (!bucket) {
+            return false;
+        }
+        const chunkIndex = chunkAtOrBefore(bucket.chunks, timeOf(date));
+        return chunkIndex < bucket.chunks.length && findSampleIndex(bucket.chunks[chunkIndex], date) >= 0;
+    }
+
+    /**
+     * Writes `value` at exactly `date`; returns the value it replaced.
+     */
+    async set (readingType: string, date: string | Date, value: number) {
+        this.touch();
+        if (this.legacy) {
+            return setSampleAt(this.legacySeries(readingType), date, value);
+        }
+        const bucket = this.bucketAt(readingType, date);
+        if (bucket) {
+            return setInChunks(bucket.chunks, date, value);
+        }
+        const created: PlantReadingBucket = await this.ctx.create('plantReadingBuckets', {
+            powerPlant: this.powerPlant,
+            readingType,
+            bucketStart: bucketStartOf(date),
+            chunks: [[[moment(date).toDate(), value]]],
+        });
+        this.buckets.push(created);
+        return undefined;
+    }
+
+    /**
+     * Overwrites the newest sample at or before `date`, or backdates a sample at `date` when
+     * the series has nothing that early; returns the value it replaced.
+     */
+    async replaceAtOrBefore (readingType: string, date: string | Date, value: number) {
+        const found = this.sampleAtOrBefore(readingType, date);
+        if (!found) {
+            return this.set(readingType, date, value);
+        }
+        const { samples, index, sample } = found;
+        this.touch();
+        samples[index] = [sample[0], value];
+        return sample[1];
+    }
+
+    remove (readingType: string, date: string | Date) {
+        const bucket = this.legacy ? undefined : this.bucketAt(readingType, date);
+        const removed = this.legacy ?
+            removeSampleAt(this.legacySeries(readingType), date) :
+            bucket && removeFromChunks(bucket.chunks, date);
+        if (removed !== undefined) {
+            this.touch();
+        }
+        return removed;
+    }
+}
+
+/**
+ * Reading types of the series a legacy plant record holds, string series included.
+ */
+export const seriesTypesOf = (plantRecord: PlantRecord) => Object.keys(plantRecord)
+    .filter((key) => readingTypes.includes(key) || /^string\d+\./.test(key))
+    .filter((key) => Array.isArray(plantRecord[key]));
+
+/**
+ * Splits the `[date, value]` arrays of a legacy plant record into monthly buckets.
+ */
+export const bucketsFromPlantRecord = (plantRecord: PlantRecord) => {
+    const samples = new Map<string, Pick<PlantReadingBucket, 'powerPlant' | 'readingType' | 'bucketStart'> & { samples: ReadingSample[] }>();
+    for (const readingType of seriesTypesOf(plantRecord)) {
+        const series: ReadingSample[] = plantRecord[readingType];
+        for (const [date, value] of series) {
+            const bucketStart = bucketStartOf(date);
+            const key = `${readingType}:${bucketStart.getTime()}`;
+            const bucket = samples.get(key) || { powerPlant: plantRecord.powerPlant, readingType, bucketStart, samples: [] };
+            bucket.samples.push([moment(date).toDate(), value]);
+            samples.set(key, bucket);
+        }
+    }
+    return Array.from(samples.values()).map(({ samples: bucketSamples, ...bucket }) => ({
+        ...bucket,
+        chunks: chunksOf(sortSeries(bucketSamples)),
+    }));
+};
@@ -0,0 +1,187 @@
+import * as moment from 'moment';
+import { calcUtilization } from 'dugo-lib/lib/computers/power-plant';
+import { UpdateSiteError, ReadingNotFoundError, ReadingTypeNotFoundError } from './update-site-errors';
+import { PlantReadingSeries } from './plant-reading-series';
+
+export type ReadingSample = [string | Date, number];
+
+// reading series a plant can hold
+export const readingTypes = [
+    'load',
+    'voltage',
+    'temperature',
+    'utilization',
+    'ambientTemperature',
+    'rectifierCount',
+    'acInput',
+];
+
+// series computed from others, recomputed whenever their inputs change
+export const derivedReadingTypes = ['utilization'];
+
+export interface ReadingEdit {
+    readingType: string;
+    date: string | Date;
+    action: 'insert' | 'correct' | 'delete';
+    value?: number;
+}
+
+export interface ReadingChange {
+    readingType: string;
+    date: string;
+    prev?: number;
+    new?: number;
+    manual: boolean;
+}
+
+interface EditContext {
+    siteNum?: string;
+    plantNum?: string;
+    rectifierPowers: number[];
+}
+
+export class ReadingExistsError extends UpdateSiteError {
+    constructor (context: { siteNum?: string, plantNum?: string, readingType: string, date: string }) {
+        super(`Plant Record: a ${context.readingType} reading already exists on ${context.date}`, 'READING_EXISTS', 409, context);
+    }
+}
+
+export class DerivedReadingError extends UpdateSiteError {
+    constructor (context: { siteNum?: string, plantNum?: string, readingType: string }) {
+        super(`Plant Record: ${context.readingType} is computed and cannot be edited`, 'DERIVED_READING', 422, context);
+    }
+}
+
+export const timeOf = (date: string | Date) => moment(date).valueOf();
+
+/**
+ * Sorts a series newest first, the order plant records have always been stored in.
+ */
+export const sortSeries = (series: ReadingSample[]) => series.sort((a, b) => timeOf(b[0]) - timeOf(a[0]));
+
+/**
+ * Index of the newest sample at or before `time` in a newest-first series, or the series
+ * length when every sample is later.
+ */
+export const indexAtOrBefore = (series: ReadingSample[], time: number) => {
+    let low = 0;
+    let high = series.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (timeOf(series[mid][0]) <= time) {
+            high = mid;
+        }
+        else {
+            low = mid + 1;
+        }
+    }
+    return low;
+};
+
+export const findSampleIndex = (series: ReadingSample[], date: string | Date) => {
+    const time = timeOf(date);
+    const index = indexAtOrBefore(series, time);
+    return index < series.length && timeOf(series[index][0]) === time ? index : -1;
+};
+
+/**
+ * Writes `value` at exactly `date`, inserting a sample when there is none; returns the
+ * value it replaced.
+ */
+export const setSampleAt = (series: ReadingSample[], date: string | Date, value: number) => {
+    const time = timeOf(date);
+    const index = indexAtOrBefore(series, time);
+    if (index < series.length && timeOf(series[index][0]) === time) {
+        const prev = series[index][1];
+        series[index] = [series[index][0], value];
+        return prev;
+    }
+    series.splice(index, 0, [moment(date).toDate(), value]);
+    return undefined;
+};
+
+export const removeSampleAt = (series: ReadingSample[], date: string | Date) => {
+    const index = findSampleIndex(series, date);
+    if (index < 0) {
+        return undefined;
+    }
+    const [ [, prev] ] = series.splice(index, 1);
+    return prev;
+};
+
+export const assertReadingType = (readingType: string, context: { siteNum?: string, plantNum?: string } = {}) => {
+    if (!readingTypes.includes(readingType)) {
+        throw new ReadingTypeNotFoundError({ ...context, readingType });
+    }
+};
+
+const recomputeUtilizationAt = async (series: PlantReadingSeries, date: string | Date, { rectifierPowers }: EditContext): Promise<ReadingChange | undefined> => {
+    const hasInputs = series.has('load', date) || series.has('voltage', date);
+    const load = series.valueAtOrBefore('load', date);
+    const voltage = series.valueAtOrBefore('voltage', date);
+
+    let prev: number | undefined;
+    let value: number | undefined;
+    if (hasInputs && load !== undefined && voltage !== undefined) {
+        value = calcUtilization(load, voltage, rectifierPowers);
+        prev = await series.set('utilization', date, value);
+    }
+    else {
+        prev = series.remove('utilization', date);
+    }
+    return prev === value ?
+        undefined :
+        { readingType: 'utilization', date: moment(date).toISOString(), prev, new: value, manual: false };
+};
+
+/**
+ * Applies edits at exact timestamps and recomputes derived series at every timestamp whose
+ * inputs changed. Returns one change per sample written, for the plant's log.
+ */
+export const applyReadingEdits = async (series: PlantReadingSeries, edits: ReadingEdit[], context: EditContext): Promise<ReadingChange[]> => {
+    const changes: ReadingChange[] = [];
+    const touched = new Map<number, string | Date>();
+
+    for (const { readingType, date, action, value } of edits) {
+        const errorContext = { siteNum: context.siteNum, plantNum: context.plantNum, readingType };
+        const isoDate = moment(date).toISOString();
+        if (derivedReadingTypes.includes(readingType)) {
+            throw new DerivedReadingError(errorContext);
+        }
+        assertReadingType(readingType, errorContext);
+        const exists = series.has(readingType, date);
+
+        let prev: number | undefined;
+        if (action === 'insert') {
+            if (exists) {
+                throw new ReadingExistsError({ ...errorContext, date: isoDate });
+            }
+            await series.set(readingType, date, value!);
+        }
+        else if (!exists) {
+            throw new ReadingNotFoundError({ ...errorContext, date: isoDate });
+        }
+        else if (action === 'correct') {
+            prev = await series.set(readingType, date, value!);
+        }
+        else {
+            prev = series.remove(readingType, date);
+        }
+
+        const next = action === 'delete' ? undefined : value;
+        if (prev !== next) {
+            changes.push({ readingType, date: isoDate, prev, new: next, manual: true });
+        }
+        if (readingType === 'load' || readingType === 'voltage') {
+            touched.set(timeOf(date), date);
+        }
+    }
+
+    for (const date of Array.from(touched.values())) {
+        const change = await recomputeUtilizationAt(series, date, context);
+        if (change) {
+            changes.push(change);
+        }
+    }
+    return changes;
+};
@@ -0,0 +1,72 @@
+import { pollTargets, runSnmpPolling } from './poll-snmp-plants';
+import { SnmpPollTarget } from './list-snmp-targets';
+import { createSimulatedSnmpClientFactory } from './snmp-simulator';
+
+const oidMap = {
+    id: 'map1',
+    model: 'RX-48',
+    readings: { load: { oid: '1.1.0' }, voltage: { oid: '1.2.0' } },
+};
+
+const target = (powerPlant: string, host: string): SnmpPollTarget => ({
+    powerPlant,
+    plantConfig: `${powerPlant}-config`,
+    snmpTarget: { host },
+    oidMap,
+    stringCount: 0,
+});
+
+const createClient = createSimulatedSnmpClientFactory({
+    'live.example': { '1.1.0': 40, '1.2.0': 53.5 },
+    'silent.example': { '9.9.0': 1 },
+});
+
+describe('pollTargets', () => {
+    it('fails only the plants whose controller is unreachable or reports nothing mapped', async () => {
+        const { polls, failed } = await pollTargets([
+            target('p1', 'live.example'),
+            target('p2', 'down.example'),
+            target('p3', 'silent.example'),
+        ], createClient);
+        expect(polls).toEqual([{ powerPlant: 'p1', plantConfig: 'p1-config', poll: expect.objectContaining({ readings: { load: 40, voltage: 53.5 } }) }]);
+        expect(failed).toEqual([
+            { powerPlant: 'p2', message: 'Request timed out: down.example' },
+            { powerPlant: 'p3', message: 'the controller reported none of the mapped oids' },
+        ]);
+    });
+});
+
+describe('runSnmpPolling', () => {
+    it('lists, polls and ingests page by page and ingests nothing for a page without answers', async () => {
+        const pages = [
+            { targets: [target('p1', 'live.example')], skipped: [{ powerPlant: 'p0', reason: 'no snmp target configured' }], nextCursor: 'c1' },
+            { targets: [target('p2', 'down.example')], skipped: [], nextCursor: undefined },
+        ];
+        const listTargets = jest.fn(async ({ cursor }) => pages[cursor ? 1 : 0]);
+        const ingest = jest.fn(async ({ polls }) => ({
+            ingested: polls.length,
+            skipped: [],
+            changed: [{ routine: 'r1', site: 's1', powerPlant: polls[0].powerPlant, date: new Date(), prev: 0, new: 1, breakdown: {} as any }],
+        }));
+        const progress: number[] = [];
+
+        const summary = await runSnmpPolling({ listTargets, ingest }, { region: 'north', pageSize: 1 }, ({ polled }) => {
+            progress.push(polled);
+        }, createClient);
+
+        expect(listTargets.mock.calls.map(([input]) => input)).toEqual([
+            { region: 'north', siteNums: undefined, pageSize: 1, cursor: undefined },
+            { region: 'north', siteNums: undefined, pageSize: 1, cursor: 'c1' },
+        ]);
+        expect(ingest).toHaveBeenCalledTimes(1);
+        expect(ingest.mock.calls[0][0].polls.map(({ powerPlant }) => powerPlant)).toEqual(['p1']);
+        expect(summary).toMatchObject({
+            polled: 1,
+            failed: [{ powerPlant: 'p2', message: 'Request timed out: down.example' }],
+            skipped: [{ powerPlant: 'p0', reason: 'no snmp target configured' }],
+            cursor: undefined,
+        });
+        expect(summary.changed.map(({ powerPlant }) => powerPlant)).toEqual(['p1']);
+        expect(progress).toEqual([1, 1]);
+    });
+});
@@ -0,0 +1,92 @@
+import { CompanyConfig } from '../types/company-config';
+import createLogger from '../../logger';
+import { ConditionChange } from './recompute-conditions';
+import { SnmpClientFactory, getSnmpClientFactory } from './snmp-client';
+import { oidsOf, readPoll } from './snmp-oid-maps';
+import { ListSnmpTargetsTransactionInput, SnmpTargetPage, SnmpPollTarget, PollSkip } from './list-snmp-targets';
+import { IngestSnmpPollsTransactionInput, IngestPage, PlantPoll } from './ingest-snmp-polls';
+import { CompanyConfigServiceInput } from './company-config-service';
+
+const logger = createLogger({ label: 'SNMP Polling' });
+
+export type SnmpPollingInput = ListSnmpTargetsTransactionInput & {
+    // the current company config when omitted
+    companyConfig?: CompanyConfig;
+} & CompanyConfigServiceInput;
+
+export interface PollFailure {
+    powerPlant: string;
+    message: string;
+}
+
+export interface PollSummary {
+    polled: number;
+    failed: PollFailure[];
+    skipped: PollSkip[];
+    changed: ConditionChange[];
+    cursor?: string;
+}
+
+/**
+ * Polls the controllers of `targets` one after the other; an unreachable controller, or one
+ * reporting none of the mapped oids, fails only its own plant.
+ */
+export const pollTargets = async (targets: SnmpPollTarget[], createClient: SnmpClientFactory = getSnmpClientFactory()) => {
+    const polls: PlantPoll[] = [];
+    const failed: PollFailure[] = [];
+    for (const { powerPlant, plantConfig, snmpTarget, oidMap, stringCount } of targets) {
+        const client = createClient(snmpTarget);
+        try {
+            const poll = readPoll(await client.get(oidsOf(oidMap, stringCount)), oidMap, stringCount);
+            if (!Object.keys(poll.readings).length && !poll.strings.length) {
+                failed.push({ powerPlant, message: 'the controller reported none of the mapped oids' });
+                continue;
+            }
+            if (Object.keys(poll.discarded).length) {
+                logger.warn(`discarded implausible readings of plant ${powerPlant}: ${JSON.stringify(poll.discarded)}`);
+            }
+            polls.push({ powerPlant, plantConfig, poll });
+        } catch (error) {
+            logger.error(error);
+            failed.push({ powerPlant, message: error.message });
+        } finally {
+            client.close();
+        }
+    }
+    return { polls, failed };
+};
+
+/**
+ * Polls the controllers of live plants page by page and appends what they report to the
+ * plants' reading series. Each page is listed by ListSnmpTargetsTransaction, polled with no
+ * transaction open, and then written by IngestSnmpPollsTransaction, so a retried write does
+ * not poll again and slow controllers hold no documents checked out. Meant to run on a
+ * schedule.
+ */
+export const runSnmpPolling = async (
+    { listTargets, ingest }: {
+        listTargets: (input: ListSnmpTargetsTransactionInput) => Promise<SnmpTargetPage>,
+        ingest: (input: IngestSnmpPollsTransactionInput) => Promise<IngestPage>,
+    },
+    input: SnmpPollingInput = {},
+    onProgress: (summary: PollSummary) => void | Promise<void> = () => undefined,
+    createClient?: SnmpClientFactory,
+): Promise<PollSummary> => {
+    const { region, siteNums, pageSize, companyConfig, companyConfigService } = input;
+    const summary: PollSummary = { polled: 0, failed: [], skipped: [], changed: [], cursor: input.cursor };
+    do {
+        const page = await listTargets({ region, siteNums, pageSize, cursor: summary.cursor });
+        const { polls, failed } = await pollTargets(page.targets, createClient);
+        const ingested = polls.length ?
+            await ingest({ polls, companyConfig, companyConfigService }) :
+            { ingested: 0, skipped: [], changed: [] };
+        summary.polled += ingested.ingested;
+        summary.failed.push(...failed);
+        summary.skipped.push(...page.skipped, ...ingested.skipped);
+        summary.changed.push(...ingested.changed);
+        summary.cursor = page.nextCursor;
+        logger.info(`polled ${summary.polled} plants, ${summary.failed.length} failed, ${summary.skipped.length} skipped`);
+        await onProgress(summary);
+    } while (summary.cursor);
+    return summary;
+};
@@ -0,0 +1,66 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { CompanyConfig } from '../types/company-config';
+import { SiteNotFoundError, PlantNotFoundError } from './update-site-errors';
+import { calcPlantBatteryHealth, PlantBatteryHealth } from './battery-health';
+import { readCompanyConfig, CompanyConfigServiceInput } from './company-config-service';
+
+type ReadBatteryHealthTransactionInput = {
+    siteNum: string;
+    // every plant on the site when omitted
+    plantNum?: string;
+    // the current company config when omitted
+    companyConfig?: CompanyConfig;
+} & CompanyConfigServiceInput;
+
+interface PlantBatteryHealthReport extends PlantBatteryHealth {
+    powerPlant: string;
+    plantNum: string;
+}
+
+type CCtx = CheckoutCtx<Store, ReadBatteryHealthTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    ReadBatteryHealthTransactionInput,
+    ReadBatteryHealthTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+/**
+ * Read-only battery health of a site's plants for dashboards; nothing is checked out for
+ * writing.
+ */
+export default class ReadBatteryHealthTransaction extends Transaction<ReadBatteryHealthTransactionInput, PlantBatteryHealthReport[]> {
+    protected async checkout ({ queryIds, getStrict, input }: CCtx) {
+        const { siteNum, plantNum } = input;
+        const [ siteId ] = await queryIds('sites', { filter: { siteNum }, limit: 1 });
+        if (!siteId) {
+            throw new SiteNotFoundError(siteNum);
+        }
+        const plantFilter = plantNum ? { site: siteId, name: plantNum } : { site: siteId };
+        const plantIds = await queryIds('powerPlants', { filter: plantFilter });
+        if (plantNum && !plantIds.length) {
+            throw new PlantNotFoundError(siteNum, plantNum);
+        }
+
+        const plants = [];
+        for (const plantId of plantIds) {
+            const powerPlant = await getStrict('powerPlants', plantId!);
+            const [ plantConfigId ] = await queryIds('plantConfigs', { filter: { powerPlant: plantId, isCurrent: true }, limit: 1 });
+            if (plantConfigId) {
+                plants.push({ powerPlant, plantConfig: await getStrict('plantConfigs', plantConfigId) });
+            }
+        }
+        return { plants };
+    }
+
+    protected async operation (ctx: OCtx): Promise<PlantBatteryHealthReport[]> {
+        const companyConfig = ctx.input.companyConfig || await readCompanyConfig(ctx);
+        const reports: PlantBatteryHealthReport[] = [];
+        for (const { powerPlant, plantConfig } of ctx.data.plants) {
+            const health = await calcPlantBatteryHealth(ctx, plantConfig, companyConfig, powerPlant.latestReading);
+            reports.push({ ...health, powerPlant: powerPlant.id, plantNum: powerPlant.name });
+        }
+        return reports;
+    }
+}
@@ -0,0 +1,55 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { SiteNotFoundError, PlantNotFoundError } from './update-site-errors';
+import { ReadingSample, assertReadingType } from './plant-record-readings';
+import { readRange, downsample, DownsampleInterval, DownsampledReading } from './plant-reading-series';
+
+type ReadPlantReadingsTransactionInput = {
+    siteNum: string;
+    plantNum: string;
+    readingTypes: string[];
+    from: string | Date;
+    to: string | Date;
+    // raw samples when omitted
+    interval?: DownsampleInterval;
+};
+
+type PlantReadings = { [readingType: string]: ReadingSample[] | DownsampledReading[] };
+
+type CCtx = CheckoutCtx<Store, ReadPlantReadingsTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    ReadPlantReadingsTransactionInput,
+    ReadPlantReadingsTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+/**
+ * Reads plant reading series over a date range, raw or downsampled per hour or day. Only
+ * the monthly buckets overlapping the range are loaded.
+ */
+export default class ReadPlantReadingsTransaction extends Transaction<ReadPlantReadingsTransactionInput, PlantReadings> {
+    protected async checkout ({ queryIds, input }: CCtx) {
+        const { siteNum, plantNum, readingTypes } = input;
+        readingTypes.forEach((readingType) => assertReadingType(readingType, { siteNum, plantNum }));
+        const [ siteId ] = await queryIds('sites', { filter: { siteNum }, limit: 1 });
+        if (!siteId) {
+            throw new SiteNotFoundError(siteNum);
+        }
+        const [ plantId ] = await queryIds('powerPlants', { filter: { site: siteId, name: plantNum }, limit: 1 });
+        if (!plantId) {
+            throw new PlantNotFoundError(siteNum, plantNum);
+        }
+        return { plantId };
+    }
+
+    protected async operation (ctx: OCtx): Promise<PlantReadings> {
+        const { readingTypes, from, to, interval } = ctx.input;
+        const readings: PlantReadings = {};
+        for (const readingType of readingTypes) {
+            const samples = await readRange(ctx, ctx.data.plantId, readingType, from, to);
+            readings[readingType] = interval ? downsample(samples, interval) : samples;
+        }
+        return readings;
+    }
+}
@@ -0,0 +1,61 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { SiteConfig } from '../types/site-config';
+import { FieldChange } from './change-tracker';
+import { SiteNotFoundError, UpdateSiteError } from './update-site-errors';
+import { buildTimeline, diffSiteConfigs, SiteConfigVersion } from './site-config-history';
+
+type ReadSiteConfigHistoryTransactionInput = {
+    siteNum: string;
+    // ids of two versions to diff, older first
+    compare?: [string, string];
+};
+
+interface SiteConfigHistory {
+    timeline: SiteConfigVersion[];
+    diff?: FieldChange[];
+}
+
+type CCtx = CheckoutCtx<Store, ReadSiteConfigHistoryTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    ReadSiteConfigHistoryTransactionInput,
+    ReadSiteConfigHistoryTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+/**
+ * Read-only timeline of a site's config versions with what each changed, and optionally
+ * the diff between any two versions.
+ */
+export default class ReadSiteConfigHistoryTransaction extends Transaction<ReadSiteConfigHistoryTransactionInput, SiteConfigHistory> {
+    protected async checkout ({ queryIds, getStrict, input }: CCtx) {
+        const { siteNum } = input;
+        const [ siteId ] = await queryIds('sites', { filter: { siteNum }, limit: 1 });
+        if (!siteId) {
+            throw new SiteNotFoundError(siteNum);
+        }
+        const siteConfigIds = await queryIds('siteConfigs', { filter: { site: siteId } });
+        const siteConfigs: SiteConfig[] = await Promise.all(
+            siteConfigIds.map((id) => getStrict('siteConfigs', id!))
+        );
+        return { siteConfigs };
+    }
+
+    protected async operation (ctx: OCtx): Promise<SiteConfigHistory> {
+        const { siteConfigs } = ctx.data;
+        const { siteNum, compare } = ctx.input;
+        const timeline = buildTimeline(siteConfigs);
+        if (!compare) {
+            return { timeline };
+        }
+        const [before, after] = compare.map((id) => {
+            const config = siteConfigs.find((version) => version.id === id);
+            if (!config) {
+                throw new UpdateSiteError(`Site Config: no version ${id} on site ${siteNum}`, 'SITE_CONFIG_VERSION_NOT_FOUND', 404, { siteNum, version: id });
+            }
+            return config;
+        });
+        return { timeline, diff: diffSiteConfigs(before, after) };
+    }
+}
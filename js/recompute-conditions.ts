@@ -0,0 +1,349 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { Routine } from '../types/routine';
+import { PlantReading } from '../types/shared';
+import { CompanyConfig } from '../types/company-config';
+import { SiteConfig } from '../types/site-config';
+import { findByDate } from './utils';
+import createLogger from '../../logger';
+import * as moment from 'moment';
+import { calculateRoutineCondition } from './routine-condition';
+import { ConditionEvaluation } from './condition-rules';
+import { bumpVersion } from './versioning';
+import { readCompanyConfig, CompanyConfigServiceInput } from './company-config-service';
+import { descendantRegionCodes } from './regions';
+
+const logger = createLogger({ label: 'Recompute Conditions' });
+
+export interface RecomputeScope {
+    from?: string | Date;
+    to?: string | Date;
+    region?: string;
+    siteNums?: string[];
+    // only routines without a stored condition, to backfill them once before the first recompute
+    missingCondition?: boolean;
+}
+
+type RecomputeConditionsTransactionInput = RecomputeScope & {
+    // the current company config when omitted
+    companyConfig?: CompanyConfig;
+    // opaque, from a previous page's nextCursor
+    cursor?: string;
+    pageSize?: number;
+    dryRun?: boolean;
+    submitter?: string;
+} & CompanyConfigServiceInput;
+
+export interface ConditionChange {
+    routine: string;
+    site: string;
+    powerPlant: string;
+    date: Date;
+    // undefined when the routine had no stored condition yet: a backfill, not a change
+    prev?: number;
+    new: number;
+    breakdown: ConditionEvaluation;
+}
+
+export interface RecomputeFailure {
+    routine: string;
+    message: string;
+}
+
+export interface RecomputePage {
+    total: number;
+    processed: number;
+    // pass it back to continue; undefined once done
+    nextCursor?: string;
+    changed: ConditionChange[];
+    // routines that got their first stored condition
+    backfilled: number;
+    failed: RecomputeFailure[];
+}
+
+export interface RecomputeSummary {
+    total: number;
+    processed: number;
+    cursor?: string;
+    changed: ConditionChange[];
+    backfilled: number;
+    failed: RecomputeFailure[];
+}
+
+// a recomputation continued over several pages; routines are walked in id order
+interface RecomputeJob {
+    id: string;
+    scope: RecomputeScope;
+    processed: number;
+    // id of the last routine recomputed so far
+    lastRoutineId: string;
+    createdAt: Date;
+}
+
+type CCtx = CheckoutCtx<Store, RecomputeConditionsTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    RecomputeConditionsTransactionInput,
+    RecomputeConditionsTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+const defaultPageSize = 100;
+
+/**
+ * Ids of the sites listed in `siteNums`, else of the sites in `region` or a region below it,
+ * else of every site.
+ */
+export const findSiteIdsInScope = async (ctx, { region, siteNums }: { region?: string, siteNums?: string[] }): Promise<string[]> => {
+    const siteFilter = siteNums && siteNums.length ?
+        { siteNum: { $in: siteNums } } :
+        region ? { region: { $in: await descendantRegionCodes(ctx, region) } } : {};
+    return ctx.queryIds('sites', { filter: siteFilter });
+};
+
+/**
+ * Finds the ids of every routine in scope, sorted so pages are stable between runs.
+ */
+export const findRoutineIdsInScope = async ({ queryIds, getStrict }, { from, to, region, siteNums, missingCondition }: RecomputeScope) => {
+    const siteIds = await findSiteIdsInScope({ queryIds, getStrict }, { region, siteNums });
+
+    const dateFilter: { $gte?: Date, $lte?: Date } = {};
+    if (from) {
+        dateFilter.$gte = moment(from).toDate();
+    }
+    if (to) {
+        dateFilter.$lte = moment(to).toDate();
+    }
+
+    const routineIds: string[] = [];
+    for (const siteId of siteIds) {
+        const plantIds: string[] = await queryIds('powerPlants', { filter: { site: siteId } });
+        for (const plantId of plantIds) {
+            const filter: { [field: string]: any } = Object.keys(dateFilter).length ?
+                { powerPlant: plantId, date: dateFilter } :
+                { powerPlant: plantId };
+            if (missingCondition) {
+                filter.condition = { $exists: false };
+            }
+            const ids: string[] = await queryIds('routines', { filter });
+            routineIds.push(...ids);
+        }
+    }
+    return routineIds.sort();
+};
+
+const readingOf = (routine: Routine): PlantReading | undefined =>
+    routine.plantReading || routine.latestReading;
+
+interface RecomputeOptions {
+    dryRun?: boolean;
+    submitter?: string;
+    // site config versions changed in the same transaction, used instead of the stored ones
+    siteConfigs?: SiteConfig[];
+    // the versions as they were before that change, to rate a routine without a stored
+    // condition against so the change is reported as one rather than as a backfill
+    previousSiteConfigs?: SiteConfig[];
+}
+
+/**
+ * Re-evaluates a checked-out routine's condition. When it changed, the routine is updated
+ * and a condition-change log item written (unless `dryRun`) and the change is returned.
+ * A routine without a stored condition gets one without a log item, and the change comes
+ * back with `prev` undefined, unless `previousSiteConfigs` tell what it was rated before.
+ */
+export const recomputeRoutineCondition = async (
+    ctx,
+    routine: Routine,
+    companyConfig: CompanyConfig,
+    { dryRun, submitter, siteConfigs, previousSiteConfigs }: RecomputeOptions = {},
+): Promise<ConditionChange | undefined> => {
+    const reading = readingOf(routine);
+    if (!reading) {
+        return undefined;
+    }
+    const powerPlant = await ctx.readStrict('powerPlants', routine.powerPlant);
+    const site = await ctx.readStrict('sites', powerPlant.site);
+    const plantConfig = await findByDate('plantConfigs', ctx.query, routine.date, { powerPlant: powerPlant.id });
+    if (!plantConfig) {
+        return undefined;
+    }
+    const evaluate = (configs?: SiteConfig[]) => calculateRoutineCondition(
+        ctx,
+        site,
+        routine.date,
+        routine,
+        plantConfig,
+        companyConfig,
+        reading.load,
+        reading.voltage,
+        reading.temperature,
+        reading.utilization,
+        reading.actualCapacity,
+        reading.worstBlockConductanceHealth,
+        configs,
+    );
+    const evaluation = await evaluate(siteConfigs);
+    const stored: number | undefined = routine.condition;
+    if (stored === evaluation.condition) {
+        return undefined;
+    }
+    const prev = stored === undefined && previousSiteConfigs ?
+        (await evaluate(previousSiteConfigs)).condition :
+        stored;
+    if (!dryRun) {
+        routine.condition = evaluation.condition;
+    }
+    if (prev === evaluation.condition) {
+        return undefined;
+    }
+    if (!dryRun && prev !== undefined) {
+        await ctx.create('logItems', {
+            submitter,
+            date: new Date(),
+            site: site.id,
+            powerPlant: powerPlant.id,
+            region: site.region,
+            commentUpdates: [{
+                readingType: 'condition',
+                prev: prev.toString(),
+                new: evaluation.condition.toString(),
+                manual: false,
+                breakdown: { new: evaluation },
+            }],
+        });
+    }
+    return {
+        routine: routine.id,
+        site: site.id,
+        powerPlant: powerPlant.id,
+        date: routine.date,
+        prev,
+        new: evaluation.condition,
+        breakdown: evaluation,
+    };
+};
+
+/**
+ * Keeps the scope of a recomputation and how far it got in a recomputeJobs document, and
+ * returns the cursor of the next page.
+ */
+export const createRecomputeJob = async (ctx, scope: RecomputeScope, processed: number, lastRoutineId: string) => {
+    const job: RecomputeJob = await ctx.create('recomputeJobs', {
+        scope,
+        processed,
+        lastRoutineId,
+        createdAt: new Date(),
+    });
+    return job.id;
+};
+
+/**
+ * Recomputes the condition of one page of routines with the current company config, using
+ * the same rules as UpdateSiteTransaction. Routines whose condition changed are updated and
+ * get a condition-change log item, unless `dryRun` is set.
+ *
+ * The first page keeps the scope in a recomputeJobs document the cursor points to, along with
+ * the id of the last routine recomputed; later pages list the scope again and go on after it.
+ * Run it once with `missingCondition` over every routine to store a condition on routines
+ * saved before conditions were; until then a routine's first recompute counts as a backfill.
+ */
+export default class RecomputeConditionsTransaction extends Transaction<RecomputeConditionsTransactionInput, RecomputePage> {
+    protected async checkout ({ checkout, queryIds, getStrict, input }: CCtx) {
+        const { cursor, pageSize = defaultPageSize } = input;
+        let job: RecomputeJob | undefined;
+        let routineIds: string[];
+        if (cursor) {
+            // the job keeps the scope, so a cursor handed out by another transaction needs nothing else
+            job = await checkout('recomputeJobs', cursor);
+            routineIds = (await findRoutineIdsInScope({ queryIds, getStrict }, job!.scope)).filter((id) => id > job!.lastRoutineId);
+        }
+        else {
+            routineIds = await findRoutineIdsInScope({ queryIds, getStrict }, input);
+        }
+        const pageIds = routineIds.slice(0, pageSize);
+        const routines: Routine[] = await Promise.all(
+            pageIds.map((id) => checkout('routines', id))
+        );
+
+        return {
+            job,
+            processedBefore: job ? job.processed : 0,
+            remaining: routineIds.length,
+            routines,
+        };
+    }
+
+    protected async operation (ctx: OCtx): Promise<RecomputePage> {
+        const { job, processedBefore, remaining, routines } = ctx.data;
+        const { dryRun, submitter, from, to, region, siteNums, missingCondition } = ctx.input;
+        const companyConfig = ctx.input.companyConfig || await readCompanyConfig(ctx);
+        const changed: ConditionChange[] = [];
+        const failed: RecomputeFailure[] = [];
+        let backfilled = 0;
+
+        for (const routine of routines) {
+            try {
+                const change = await recomputeRoutineCondition(ctx, routine, companyConfig, { dryRun, submitter });
+                if (change && !dryRun) {
+                    bumpVersion(routine);
+                }
+                if (change && change.prev === undefined) {
+                    backfilled += 1;
+                }
+                else if (change) {
+                    changed.push(change);
+                }
+            } catch (error) {
+                logger.error(error);
+                failed.push({ routine: routine.id, message: error.message });
+            }
+        }
+
+        const total = processedBefore + remaining;
+        const processed = processedBefore + routines.length;
+        const lastRoutineId = routines.length ? routines[routines.length - 1].id : undefined;
+        let nextCursor: string | undefined;
+        if (processed < total && job) {
+            job.processed = processed;
+            job.lastRoutineId = lastRoutineId!;
+            nextCursor = job.id;
+        }
+        else if (processed < total) {
+            nextCursor = await createRecomputeJob(ctx, { from, to, region, siteNums, missingCondition }, processed, lastRoutineId!);
+        }
+        return {
+            total,
+            processed,
+            nextCursor,
+            changed,
+            backfilled,
+            failed,
+        };
+    }
+}
+
+/**
+ * Runs RecomputeConditionsTransaction page by page until the scope is exhausted.
+ *
+ * `execute` runs one page; `onProgress` is called after each page with the running summary,
+ * whose `cursor` can be stored and passed back as `input.cursor` to resume an interrupted job.
+ */
+export const runConditionRecomputation = async (
+    execute: (input: RecomputeConditionsTransactionInput) => Promise<RecomputePage>,
+    input: RecomputeConditionsTransactionInput,
+    onProgress: (summary: RecomputeSummary) => void | Promise<void> = () => undefined,
+): Promise<RecomputeSummary> => {
+    const summary: RecomputeSummary = { total: 0, processed: 0, cursor: input.cursor, changed: [], backfilled: 0, failed: [] };
+    do {
+        const page = await execute({ ...input, cursor: summary.cursor });
+        summary.total = page.total;
+        summary.processed = page.processed;
+        summary.cursor = page.nextCursor;
+        summary.changed.push(...page.changed);
+        summary.backfilled += page.backfilled;
+        summary.failed.push(...page.failed);
+        logger.info(`recomputed ${summary.processed}/${summary.total} routines, ${summary.changed.length} changed, ${summary.backfilled} backfilled`);
+        await onProgress(summary);
+    } while (summary.cursor);
+    return summary;
+};
@@ -0,0 +1,63 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+
+export interface ReportDelivery {
+    scope: string;
+    recipients: string[];
+    sentAt: Date;
+    // set once the mailer accepted the report
+    messageId?: string;
+    error?: string;
+}
+
+export interface FleetReportRun {
+    id: string;
+    // ISO week, e.g. '2024-W07'
+    week: string;
+    // the latest delivery attempt
+    sentAt: Date;
+    // every attempt of the week, failed ones included
+    deliveries: ReportDelivery[];
+}
+
+export type RecordFleetReportDeliveryTransactionInput = {
+    week: string;
+    delivery: ReportDelivery;
+};
+
+type CCtx = CheckoutCtx<Store, RecordFleetReportDeliveryTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    RecordFleetReportDeliveryTransactionInput,
+    RecordFleetReportDeliveryTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+/**
+ * Scopes whose report of the run's week reached the mailer; the others are still due.
+ */
+export const deliveredScopes = (run?: Pick<FleetReportRun, 'deliveries'>) =>
+    run ? run.deliveries.filter(({ messageId }) => messageId).map(({ scope }) => scope) : [];
+
+/**
+ * Adds one attempt to email a fleet report to the run of its week, creating the run with the
+ * week's first attempt.
+ */
+export default class RecordFleetReportDeliveryTransaction extends Transaction<RecordFleetReportDeliveryTransactionInput, FleetReportRun> {
+    protected async checkout ({ checkout, queryIds, input }: CCtx) {
+        const [ runId ] = await queryIds('fleetReportRuns', { filter: { week: input.week }, limit: 1 });
+        const run: FleetReportRun | undefined = runId ? await checkout('fleetReportRuns', runId) : undefined;
+        return { run };
+    }
+
+    protected async operation (ctx: OCtx): Promise<FleetReportRun> {
+        const { run } = ctx.data;
+        const { week, delivery } = ctx.input;
+        if (!run) {
+            return ctx.create('fleetReportRuns', { week, sentAt: delivery.sentAt, deliveries: [delivery] });
+        }
+        run.sentAt = delivery.sentAt;
+        run.deliveries.push(delivery);
+        return run;
+    }
+}
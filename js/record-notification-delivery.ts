@@ -0,0 +1,60 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { OutboxEntry, notifyUsers } from './notifications';
+
+export interface NotificationDelivery {
+    attemptedAt: Date;
+    // unset when the email or webhook went out
+    error?: string;
+}
+
+export type RecordNotificationDeliveryTransactionInput = {
+    // id of the outbox entry
+    entry: string;
+    delivery: NotificationDelivery;
+    // failed deliveries are retried until they have been attempted this often
+    maxAttempts?: number;
+};
+
+type CCtx = CheckoutCtx<Store, RecordNotificationDeliveryTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    RecordNotificationDeliveryTransactionInput,
+    RecordNotificationDeliveryTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+/**
+ * Records one attempt to deliver an outbox entry, failing it for good after `maxAttempts`.
+ * In-app notifications only need the store and are created here. An entry another run
+ * settled in the meantime is left as it is.
+ */
+export default class RecordNotificationDeliveryTransaction extends Transaction<RecordNotificationDeliveryTransactionInput, OutboxEntry> {
+    protected async checkout ({ checkout, input }: CCtx) {
+        const entry: OutboxEntry = await checkout('notificationOutbox', input.entry);
+        return { entry };
+    }
+
+    protected async operation (ctx: OCtx): Promise<OutboxEntry> {
+        const { entry } = ctx.data;
+        const { delivery, maxAttempts = 5 } = ctx.input;
+        if (entry.status !== 'pending') {
+            return entry;
+        }
+        entry.attempts += 1;
+        if (delivery.error) {
+            entry.error = delivery.error;
+            if (entry.attempts >= maxAttempts) {
+                entry.status = 'failed';
+            }
+            return entry;
+        }
+        if (entry.channel === 'in-app') {
+            await notifyUsers(ctx, [entry.user!], entry.notification);
+        }
+        entry.status = 'sent';
+        entry.sentAt = delivery.attemptedAt;
+        entry.error = undefined;
+        return entry;
+    }
+}
@@ -0,0 +1,76 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { Routine } from '../types/routine';
+import { RegionNotFoundError } from './update-site-errors';
+import { Region, RegionRollup, findRegion, regionChain, descendantRegionCodes, checkoutRollups, updateRollups } from './regions';
+
+type RefreshRegionRollupsTransactionInput = {
+    // every region when omitted
+    region?: string;
+};
+
+type CCtx = CheckoutCtx<Store, RefreshRegionRollupsTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    RefreshRegionRollupsTransactionInput,
+    RefreshRegionRollupsTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+/**
+ * Rebuilds region rollups from the latest routine condition of every plant, for a region
+ * together with the regions above and below it. Site updates keep rollups current; this is
+ * for bulk changes such as a condition recomputation or a change to the hierarchy.
+ */
+export default class RefreshRegionRollupsTransaction extends Transaction<RefreshRegionRollupsTransactionInput, RegionRollup[]> {
+    protected async checkout ({ checkout, queryIds, getStrict, input }: CCtx) {
+        const ctx = { queryIds, getStrict };
+        let codes: string[];
+        if (input.region) {
+            if (!await findRegion(ctx, input.region)) {
+                throw new RegionNotFoundError(input.region);
+            }
+            codes = Array.from(new Set([
+                ...await regionChain(ctx, input.region),
+                ...await descendantRegionCodes(ctx, input.region),
+            ]));
+        }
+        else {
+            const regionIds = await queryIds('regions', {});
+            codes = (await Promise.all(regionIds.map((id) => getStrict('regions', id!))))
+                .map((region: Region) => region.code);
+        }
+
+        const plantConditions: { [region: string]: { [powerPlant: string]: number } } = {};
+        for (const code of codes) {
+            const districts = await descendantRegionCodes(ctx, code);
+            const siteIds = await queryIds('sites', { filter: { region: { $in: districts } } });
+            const plants: { [powerPlant: string]: number } = {};
+            for (const siteId of siteIds) {
+                const plantIds: string[] = await queryIds('powerPlants', { filter: { site: siteId } });
+                for (const plantId of plantIds) {
+                    const [ routineId ] = await queryIds('routines', { filter: { powerPlant: plantId }, sort: { date: -1 }, limit: 1 });
+                    const routine: Routine | undefined = routineId ? await getStrict('routines', routineId) : undefined;
+                    if (routine && routine.condition !== undefined) {
+                        plants[plantId] = routine.condition;
+                    }
+                }
+            }
+            plantConditions[code] = plants;
+        }
+
+        const regionRollups = await checkoutRollups({ checkout, queryIds }, codes);
+        return { codes, plantConditions, regionRollups };
+    }
+
+    protected async operation (ctx: OCtx): Promise<RegionRollup[]> {
+        const { codes, plantConditions, regionRollups } = ctx.data;
+        for (const code of codes) {
+            await updateRollups(ctx, regionRollups, [code], (plants) => {
+                Object.keys(plants).forEach((plantId) => delete plants[plantId]);
+                Object.assign(plants, plantConditions[code]);
+            });
+        }
+        return regionRollups;
+    }
+}
@@ -0,0 +1,142 @@
+import { RegionNotFoundError, UpdateSiteError } from './update-site-errors';
+
+export const regionLevels = ['country', 'area', 'district'];
+
+/**
+ * A node of the region hierarchy. Sites and the documents hanging off them store the `code`
+ * of their district, which is what the plain region strings were before regions existed.
+ */
+export interface Region {
+    id: string;
+    code: string;
+    name: string;
+    level: 'country' | 'area' | 'district';
+    // code of the enclosing region, unset for countries
+    parent?: string;
+    // user ids
+    managers: string[];
+}
+
+/**
+ * Plant conditions of every plant in a region and below it, kept up to date by the
+ * transactions that change a plant's condition or move a site between regions.
+ */
+export interface RegionRollup {
+    id: string;
+    region: string;
+    // latest routine condition per power plant id
+    plants: { [powerPlant: string]: number };
+    // number of plants in condition 0 (ok), 1 (warn) and 2 (critical)
+    counts: number[];
+    updatedAt: Date;
+}
+
+export const findRegion = async (ctx, code: string): Promise<Region | undefined> => {
+    const [ regionId ] = await ctx.queryIds('regions', { filter: { code }, limit: 1 });
+    return regionId ? ctx.getStrict('regions', regionId) : undefined;
+};
+
+/**
+ * Codes of a region and each region above it, the region itself first.
+ */
+export const regionChain = async (ctx, code: string): Promise<string[]> => {
+    const chain: string[] = [];
+    let region = await findRegion(ctx, code);
+    while (region && !chain.includes(region.code)) {
+        chain.push(region.code);
+        region = region.parent ? await findRegion(ctx, region.parent) : undefined;
+    }
+    return chain;
+};
+
+/**
+ * Codes of a region and every region below it.
+ */
+export const descendantRegionCodes = async (ctx, code: string): Promise<string[]> => {
+    const codes = [code];
+    for (let i = 0; i < codes.length; i++) {
+        const childIds: string[] = await ctx.queryIds('regions', { filter: { parent: codes[i] } });
+        for (const id of childIds) {
+            const child: Region = await ctx.getStrict('regions', id);
+            if (!codes.includes(child.code)) {
+                codes.push(child.code);
+            }
+        }
+    }
+    return codes;
+};
+
+/**
+ * Sites may only be assigned to districts. A code without a region that sites already carry
+ * is a plain region string from before regions existed and stays assignable until a region
+ * is saved under it; returns undefined for one.
+ */
+export const assertAssignableRegion = async (ctx, code: string): Promise<Region | undefined> => {
+    const region = await findRegion(ctx, code);
+    if (!region) {
+        const [ legacySiteId ] = await ctx.queryIds('sites', { filter: { region: code }, limit: 1 });
+        if (legacySiteId) {
+            return undefined;
+        }
+        throw new RegionNotFoundError(code);
+    }
+    if (region.level !== 'district') {
+        throw new UpdateSiteError(`Region: sites are assigned to districts, ${code} is a${region.level === 'area' ? 'n' : ''} ${region.level}`, 'REGION_NOT_ASSIGNABLE', 422, { region: code, level: region.level });
+    }
+    return region;
+};
+
+/**
+ * Region code to store on a new document hanging off a site, such as a routine or log item.
+ * UpdateSiteTransaction rewrites it on the existing ones when the site is reassigned.
+ */
+export const regionOf = async (ctx, doc: { site?: string, powerPlant?: string }): Promise<string | undefined> => {
+    let siteId = doc.site;
+    if (!siteId && doc.powerPlant) {
+        siteId = (await ctx.getStrict('powerPlants', doc.powerPlant.toString())).site;
+    }
+    return siteId ? (await ctx.getStrict('sites', siteId.toString())).region : undefined;
+};
+
+export const countConditions = (plants: { [powerPlant: string]: number }) => {
+    const counts = [0, 0, 0];
+    for (const powerPlant of Object.keys(plants)) {
+        counts[plants[powerPlant]] = (counts[plants[powerPlant]] || 0) + 1;
+    }
+    return counts;
+};
+
+/**
+ * Checks out the rollups of `codes`; regions without a rollup yet are left out and get one
+ * from `updateRollups` when needed.
+ */
+export const checkoutRollups = async ({ checkout, queryIds }, codes: string[]): Promise<RegionRollup[]> => {
+    const ids: string[] = codes.length ?
+        await queryIds('regionRollups', { filter: { region: { $in: codes } } }) :
+        [];
+    return Promise.all(ids.map((id) => checkout('regionRollups', id)));
+};
+
+/**
+ * Applies `update` to the rollup of every region in `codes`, creating missing rollups.
+ */
+export const updateRollups = async (
+    ctx,
+    rollups: RegionRollup[],
+    codes: string[],
+    update: (plants: RegionRollup['plants']) => void,
+) => {
+    for (const region of codes) {
+        let rollup = rollups.find((candidate) => candidate.region === region);
+        if (!rollup) {
+            const plants = {};
+            update(plants);
+            rollup = await ctx.create('regionRollups', { region, plants, counts: countConditions(plants), updatedAt: new Date() });
+            rollups.push(rollup!);
+            continue;
+        }
+        update(rollup.plants);
+        rollup.counts = countConditions(rollup.plants);
+        rollup.updatedAt = new Date();
+    }
+};
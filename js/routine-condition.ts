@@ -0,0 +1,146 @@
+import { BatteryType } from '../types/battery-type';
+import { BatteryString } from '../types/plant-config';
+import { SiteConfig } from '../types/site-config';
+import { getBatteryTypeIdByString } from '../functions/plant-battery-info';
+import { SiteConfigNotFoundError } from './update-site-errors';
+import { evaluateConditionRules, ConditionEvaluation, ConditionFacts } from './condition-rules';
+import { ManagedGenerator, isInstalledAt, calcGeneratorAutonomy } from './generator-lifecycle';
+
+/**
+ * Loads the site config, plant type, battery type and routine upload a routine's condition
+ * depends on, alongside the given reading, as the facts the condition rules look at.
+ *
+ * `siteConfigs` replaces the stored site config versions, for callers that changed them
+ * earlier in the same transaction.
+ */
+export const loadConditionFacts = async (
+    ctx,
+    site,
+    date,
+    routine,
+    plantConfig,
+    companyConfig,
+    load,
+    voltage,
+    temperature,
+    utilization,
+    actualCapacity,
+    worstBlockConductanceHealth,
+    siteConfigs?: SiteConfig[],
+    ): Promise<ConditionFacts> => {
+    if (!siteConfigs) {
+        const siteConfigIds = await ctx.queryIds('siteConfigs', {
+            filter: {
+              site: site.id
+            }
+        }) as string[];
+        siteConfigs = await Promise.all(siteConfigIds.map(async (id) => await ctx.readStrict('siteConfigs', id))) as SiteConfig[];
+    }
+    const dateSortedSiteConfigs = [...siteConfigs]
+        .sort(({ date: a}, { date: b}) =>
+          a > b ?
+            -1 :
+          a < b ?
+            1 :
+            0
+        );
+    const siteConfig = dateSortedSiteConfigs.find((config) => config.date.valueOf() <= Date.parse(date));
+    if (!siteConfig) {
+        throw new SiteConfigNotFoundError(site.siteNum, date);
+    }
+
+    const powerPlantType = await ctx.readStrict('powerPlantTypes', plantConfig.powerPlantType);
+
+    let generator: ManagedGenerator | undefined;
+    let generatorAutonomy: number | undefined;
+    if (siteConfig.generator) {
+        const configGenerator: ManagedGenerator = await ctx.readStrict('generators', siteConfig.generator);
+        if (isInstalledAt(configGenerator, date)) {
+            generator = configGenerator;
+            generatorAutonomy = calcGeneratorAutonomy(generator, load, voltage, companyConfig, date);
+        }
+    }
+
+    let conditionOverride: string | undefined;
+    if (routine.routineUpload) {
+        const routineUpload = await ctx.readStrict('routineUploads', routine.routineUpload);
+        conditionOverride = routineUpload.conditionOverride;
+    }
+
+    let primaryBatTypeId: string | undefined;
+    let primaryBatteryType: BatteryType | undefined;
+    if (plantConfig.strings.length || plantConfig.snmpStrings.length) {
+        let strings: BatteryString[];
+        if (routine.routineType === 'routine') {
+            strings = plantConfig.strings
+        }
+        else if (plantConfig.connectionStatus === 'live') {
+            strings = plantConfig.snmpStrings
+        }
+        else {
+            strings = plantConfig.strings
+        }
+        let batteryIds: string[] = [];
+        for (const string of strings) {
+            batteryIds = [...batteryIds, ...string.batteries];
+        }
+        const batteries = (await Promise.all(batteryIds.map(async (id) => await ctx.readStrict('batteries', id))));
+        primaryBatTypeId = getBatteryTypeIdByString(strings, batteries);
+    }
+    if (primaryBatTypeId!) {
+        primaryBatteryType = await ctx.getStrict('batteryTypes', primaryBatTypeId!);
+    }
+
+    return {
+        site,
+        siteConfig,
+        plantConfig,
+        routine,
+        companyConfig,
+        powerPlantType,
+        primaryBatteryType,
+        conditionOverride,
+        generator,
+        generatorAutonomy,
+        load,
+        voltage,
+        temperature,
+        utilization,
+        actualCapacity,
+        worstBlockConductanceHealth,
+    };
+};
+
+/**
+ * Evaluates the company's condition rules against a routine's reading; see
+ * loadConditionFacts for what is loaded and `siteConfigs`.
+ */
+export const calculateRoutineCondition = async (
+    ctx,
+    site,
+    date,
+    routine,
+    plantConfig,
+    companyConfig,
+    load,
+    voltage,
+    temperature,
+    utilization,
+    actualCapacity,
+    worstBlockConductanceHealth,
+    siteConfigs?: SiteConfig[],
+    ): Promise<ConditionEvaluation> => evaluateConditionRules(await loadConditionFacts(
+        ctx,
+        site,
+        date,
+        routine,
+        plantConfig,
+        companyConfig,
+        load,
+        voltage,
+        temperature,
+        utilization,
+        actualCapacity,
+        worstBlockConductanceHealth,
+        siteConfigs,
+    ));
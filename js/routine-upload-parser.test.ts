@@ -0,0 +1,108 @@
+import * as XLSX from 'xlsx';
+import { parseRoutineUpload, matchUploadRows } from './routine-upload-parser';
+
+const testerExport = [
+    'String: 2',
+    'Test Date,01/03/2024 10:30',
+    '',
+    'Cell #,Serial No,Conductance (S),Voltage (V)',
+    '1,ab-1001,1520,12.7',
+    '2,,1498,25.1',
+    '3,AB-1003,-4,12.6',
+].join('\n');
+
+const template = [
+    'readingType,value',
+    'load,42',
+    'voltage,900',
+    'humidity,40',
+    'string,position,conductance',
+    '1,1,1500',
+].join('\n');
+
+describe('parseRoutineUpload', () => {
+    it('reads a tester export with its header lines and flags implausible blocks', () => {
+        const parsed = parseRoutineUpload({ name: 'tester.csv', content: testerExport });
+        expect(parsed.format).toBe('tester');
+        expect(parsed.testedAt).toEqual(new Date(2024, 2, 1, 10, 30));
+        expect(parsed.blocks.map(({ row, string, position, serialNumber, conductance }) => ({ row, string, position, serialNumber, conductance }))).toEqual([
+            { row: 5, string: 2, position: 1, serialNumber: 'ab-1001', conductance: 1520 },
+            { row: 6, string: 2, position: 2, serialNumber: undefined, conductance: 1498 },
+            { row: 7, string: 2, position: 3, serialNumber: 'AB-1003', conductance: -4 },
+        ]);
+        expect(parsed.blocks[0].issues).toEqual([]);
+        expect(parsed.blocks[1].issues).toEqual([{ level: 'warning', message: 'voltage 25.1 is outside 0-20 V' }]);
+        expect(parsed.blocks[2].issues).toEqual([{ level: 'error', message: 'conductance must be a positive number' }]);
+    });
+
+    it('reads the plant readings of the routine spreadsheet and reports the ones it cannot use', () => {
+        const parsed = parseRoutineUpload({ name: 'routine.csv', content: template });
+        expect(parsed.format).toBe('template');
+        expect(parsed.plantReading).toEqual({ load: 42 });
+        expect(parsed.issues).toEqual([
+            { row: 3, level: 'error', message: 'voltage must be a number between 0 and 600' },
+            { row: 4, level: 'warning', message: 'unknown plant reading humidity is ignored' },
+        ]);
+        expect(parsed.blocks).toHaveLength(1);
+        expect(parsed.blocks[0]).toMatchObject({ row: 6, string: 1, position: 1, conductance: 1500, issues: [] });
+    });
+
+    it('reads xlsx workbooks given as a buffer', () => {
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+            ['Position', 'Conductance'],
+            [1, 1510],
+            [2, ''],
+        ]), 'String 1');
+        const content: Buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+        const parsed = parseRoutineUpload({ name: 'routine.xlsx', content });
+        expect(parsed.blocks.map(({ sheet, row, position, conductance, issues }) => ({ sheet, row, position, conductance, issues }))).toEqual([
+            { sheet: 'String 1', row: 2, position: 1, conductance: 1510, issues: [] },
+            { sheet: 'String 1', row: 3, position: 2, conductance: undefined, issues: [{ level: 'error', message: 'conductance is missing' }] },
+        ]);
+    });
+});
+
+describe('matchUploadRows', () => {
+    const strings: any[] = [{ batteries: ['b1', 'b2'] }, { batteries: ['b3', 'b4'] }];
+    const batteries: any[] = [
+        { id: 'b1', serialNumber: 'AB-1001' },
+        { id: 'b2', serialNumber: 'AB-1002' },
+        { id: 'b3', serialNumber: 'AB-1003' },
+        { id: 'b4' },
+    ];
+    const block = (fields: object) => ({ row: 1, issues: [], ...fields });
+
+    it('matches by serial where the plant has it and by position otherwise', () => {
+        const matches = matchUploadRows([
+            block({ row: 1, string: 2, position: 1, serialNumber: ' ab-1003 ' }),
+            block({ row: 2, string: 2, position: 2, serialNumber: 'ZZ-9999' }),
+        ], strings, batteries);
+        expect(matches).toEqual([
+            { battery: 'b3', matchedBy: 'serial', issues: [] },
+            { battery: 'b4', matchedBy: 'position', issues: [{ level: 'warning', message: 'serial ZZ-9999 is not on this plant, matched by position' }] },
+        ]);
+    });
+
+    it('reports a serial found at another position than the row says', () => {
+        const [ match ] = matchUploadRows([block({ string: 1, position: 2, serialNumber: 'AB-1001' })], strings, batteries);
+        expect(match.battery).toBe('b1');
+        expect(match.issues).toEqual([{ level: 'error', message: 'serial AB-1001 is at string 1 position 1, not string 1 position 2' }]);
+    });
+
+    it('asks for a string on plants with several and reports a battery matched twice', () => {
+        const matches = matchUploadRows([
+            block({ row: 1, position: 1 }),
+            block({ row: 2, string: 1, position: 1 }),
+            block({ row: 3, string: 1, position: 1 }),
+        ], strings, batteries, 'position');
+        expect(matches[0].issues).toEqual([{ level: 'error', message: 'a string is required, the plant has 2' }]);
+        expect(matches[1]).toEqual({ battery: 'b1', matchedBy: 'position', issues: [] });
+        expect(matches[2].issues).toEqual([{ level: 'error', message: 'row 2 already has a reading for this battery' }]);
+    });
+
+    it('requires a known serial when matching by serial only', () => {
+        const [ match ] = matchUploadRows([block({ string: 1, position: 1, serialNumber: 'ZZ-9999' })], strings, batteries, 'serial');
+        expect(match).toEqual({ issues: [{ level: 'error', message: 'no battery with serial ZZ-9999 on this plant' }] });
+    });
+});
@@ -0,0 +1,299 @@
+import * as moment from 'moment';
+import * as XLSX from 'xlsx';
+import { Battery } from '../types/battery';
+import { BatteryString } from '../types/plant-config';
+import { parseCsv } from './csv';
+import { normalizeSerial } from './serial-registry';
+import { readingRanges } from './validation';
+
+export interface UploadFile {
+    name: string;
+    // text for .csv and .txt files, base64 or a buffer for .xlsx
+    content: string | Buffer;
+}
+
+export type UploadMatchMode = 'auto' | 'serial' | 'position';
+export const uploadMatchModes = ['auto', 'serial', 'position'];
+
+interface SheetRow {
+    sheet?: string;
+    // 1-based, as numbered by the spreadsheet or text editor
+    row: number;
+    cells: string[];
+}
+
+export interface UploadIssue {
+    level: 'error' | 'warning';
+    message: string;
+}
+
+export interface UploadBlockRow {
+    sheet?: string;
+    row: number;
+    string?: number;
+    position?: number;
+    serialNumber?: string;
+    conductance?: number;
+    voltage?: number;
+    date?: Date;
+    issues: UploadIssue[];
+}
+
+export interface ParsedRoutineUpload {
+    // 'template' when the file has the plant reading section of our routine spreadsheet
+    format: 'template' | 'tester';
+    plantReading: { [readingType: string]: number };
+    blocks: UploadBlockRow[];
+    // problems outside the block rows, e.g. an unknown plant reading
+    issues: (UploadIssue & { sheet?: string, row: number })[];
+    testedAt?: Date;
+}
+
+export interface UploadRowMatch {
+    battery?: string;
+    matchedBy?: 'serial' | 'position';
+    issues: UploadIssue[];
+}
+
+// block columns by their normalized header; testers label the same column differently
+const blockColumns: { [column: string]: string[] } = {
+    string: ['string', 'stringno', 'stringnumber', 'str'],
+    position: ['position', 'pos', 'cell', 'cellno', 'cellnumber', 'block', 'blockno', 'jar', 'jarno', 'unit', 'unitno', 'batteryno'],
+    serialNumber: ['serialnumber', 'serial', 'serialno', 'sn'],
+    conductance: ['conductance', 'cond', 'mhos', 'siemens'],
+    voltage: ['voltage', 'volts', 'cellvoltage', 'blockvoltage', 'v'],
+    date: ['date', 'datetime', 'testdate', 'timestamp', 'time'],
+};
+
+const plantSectionHeaders = ['readingtype', 'reading', 'plantreading'];
+
+// block voltages outside this range are kept but flagged, they hint at a misread cell
+const blockVoltageRange: [number, number] = [0, 20];
+
+/**
+ * Lowercases a header and drops units in parentheses and punctuation, so 'Conductance (S)'
+ * and 'conductance' or 'Cell #' and 'cell' name the same column.
+ */
+const normalizeHeader = (cell: string) => cell.toLowerCase().replace(/\(.*?\)/g, '').replace(/[^a-z0-9]/g, '');
+
+const parseNumber = (cell: string | undefined) => {
+    const text = (cell || '').trim();
+    return text === '' ? undefined : Number(text.replace(',', '.'));
+};
+
+const parseDate = (cell: string | undefined) => {
+    const text = (cell || '').trim();
+    if (!text) {
+        return undefined;
+    }
+    const date = moment(text, [moment.ISO_8601, 'DD/MM/YYYY HH:mm:ss', 'DD/MM/YYYY HH:mm', 'DD/MM/YYYY', 'YYYY-MM-DD HH:mm:ss'], true);
+    return date.isValid() ? date.toDate() : undefined;
+};
+
+const isXlsx = ({ name }: UploadFile) => /\.xlsx?$/i.test(name);
+
+const sheetRowsOf = (file: UploadFile): SheetRow[] => {
+    if (!isXlsx(file)) {
+        const text = Buffer.isBuffer(file.content) ? file.content.toString('utf8') : file.content;
+        return parseCsv(text, { keepBlank: true })
+            .map((cells, i) => ({ row: i + 1, cells }))
+            .filter(({ cells }) => cells.some((cell) => cell.trim() !== ''));
+    }
+    const workbook = XLSX.read(file.content, { type: Buffer.isBuffer(file.content) ? 'buffer' : 'base64', cellDates: true });
+    const rows: SheetRow[] = [];
+    for (const sheet of workbook.SheetNames) {
+        const sheetRows: any[][] = XLSX.utils.sheet_to_json(workbook.Sheets[sheet], { header: 1, raw: false, blankrows: true, defval: '' });
+        sheetRows.forEach((cells, i) => {
+            const texts = cells.map((cell) => cell === undefined || cell === null ? '' : String(cell));
+            if (texts.some((cell) => cell.trim() !== '')) {
+                rows.push({ sheet, row: i + 1, cells: texts });
+            }
+        });
+    }
+    return rows;
+};
+
+const blockHeaderOf = (cells: string[]) => {
+    const columns: { [column: string]: number } = {};
+    cells.forEach((cell, i) => {
+        const header = normalizeHeader(cell);
+        for (const column of Object.keys(blockColumns)) {
+            if (columns[column] === undefined && blockColumns[column].includes(header)) {
+                columns[column] = i;
+            }
+        }
+    });
+    const identifies = columns.position !== undefined || columns.serialNumber !== undefined;
+    return identifies && columns.conductance !== undefined ? columns : undefined;
+};
+
+// 'String: 2' in one cell or 'String', '2' in two, as testers write their file headers
+const metadataOf = (cells: string[]) => {
+    const [first, second] = cells;
+    const [key, value] = second === undefined || second.trim() === '' ?
+        first.split(/:(.*)/) :
+        [first, second];
+    return { key: normalizeHeader(key || ''), value: (value || '').trim() };
+};
+
+const checkBlock = (block: UploadBlockRow) => {
+    const { string, position, serialNumber, conductance, voltage } = block;
+    if (!serialNumber && (position === undefined || isNaN(position))) {
+        block.issues.push({ level: 'error', message: 'a position or serial number is required' });
+    }
+    if (conductance === undefined) {
+        block.issues.push({ level: 'error', message: 'conductance is missing' });
+    }
+    else if (isNaN(conductance) || conductance <= 0) {
+        block.issues.push({ level: 'error', message: 'conductance must be a positive number' });
+    }
+    if (string !== undefined && (isNaN(string) || string < 1 || !Number.isInteger(string))) {
+        block.issues.push({ level: 'error', message: 'string must be a whole number from 1' });
+    }
+    if (position !== undefined && (isNaN(position) || position < 1 || !Number.isInteger(position))) {
+        block.issues.push({ level: 'error', message: 'position must be a whole number from 1' });
+    }
+    if (voltage !== undefined && (isNaN(voltage) || voltage < blockVoltageRange[0] || voltage > blockVoltageRange[1])) {
+        block.issues.push({ level: 'warning', message: `voltage ${voltage} is outside ${blockVoltageRange.join('-')} V` });
+    }
+};
+
+/**
+ * Reads a conductance tester export or a filled-in routine spreadsheet. Both have a table of
+ * blocks with a conductance column and a position or serial column; the spreadsheet also
+ * has a section of plant readings under a 'readingType, value' header. Lines above the
+ * first table are tester file headers, of which the string number and test date are used.
+ */
+export const parseRoutineUpload = (file: UploadFile): ParsedRoutineUpload => {
+    const parsed: ParsedRoutineUpload = { format: 'tester', plantReading: {}, blocks: [], issues: [] };
+    let section: 'header' | 'plant' | 'blocks' = 'header';
+    let columns: { [column: string]: number } = {};
+    let defaultString: number | undefined;
+
+    for (const { sheet, row, cells } of sheetRowsOf(file)) {
+        const blockHeader = blockHeaderOf(cells);
+        if (blockHeader) {
+            section = 'blocks';
+            columns = blockHeader;
+            continue;
+        }
+        if (plantSectionHeaders.includes(normalizeHeader(cells[0]))) {
+            section = 'plant';
+            parsed.format = 'template';
+            continue;
+        }
+        if (section === 'header') {
+            const { key, value } = metadataOf(cells);
+            if (blockColumns.string.includes(key)) {
+                defaultString = parseNumber(value);
+            }
+            else if (blockColumns.date.includes(key)) {
+                parsed.testedAt = parseDate(value) || parsed.testedAt;
+            }
+            continue;
+        }
+        if (section === 'plant') {
+            const readingType = cells[0].trim();
+            const value = parseNumber(cells[1]);
+            const range = readingRanges[readingType];
+            if (!range) {
+                parsed.issues.push({ sheet, row, level: 'warning', message: `unknown plant reading ${readingType} is ignored` });
+            }
+            else if (value === undefined || isNaN(value) || value < range[0] || value > range[1]) {
+                parsed.issues.push({ sheet, row, level: 'error', message: `${readingType} must be a number between ${range[0]} and ${range[1]}` });
+            }
+            else {
+                parsed.plantReading[readingType] = value;
+            }
+            continue;
+        }
+        const cell = (column: string) => columns[column] === undefined ? undefined : cells[columns[column]];
+        const block: UploadBlockRow = {
+            sheet,
+            row,
+            string: parseNumber(cell('string')) === undefined ? defaultString : parseNumber(cell('string')),
+            position: parseNumber(cell('position')),
+            serialNumber: (cell('serialNumber') || '').trim() || undefined,
+            conductance: parseNumber(cell('conductance')),
+            voltage: parseNumber(cell('voltage')),
+            date: parseDate(cell('date')),
+            issues: [],
+        };
+        checkBlock(block);
+        parsed.blocks.push(block);
+    }
+    return parsed;
+};
+
+/**
+ * Finds the battery of each block row on a plant config's strings, by serial, by string and
+ * position, or (in 'auto' mode) by serial where the row has one that is on the plant and by
+ * position otherwise. Rows naming a battery an earlier row already matched are errors.
+ */
+export const matchUploadRows = (
+    blocks: UploadBlockRow[],
+    strings: BatteryString[],
+    batteries: Battery[],
+    matchBy: UploadMatchMode = 'auto',
+): UploadRowMatch[] => {
+    const matchedRows = new Map<string, number>();
+    const locationOf = (batteryId: string) => {
+        for (let s = 0; s < strings.length; s++) {
+            const position = strings[s].batteries.indexOf(batteryId);
+            if (position >= 0) {
+                return `string ${s + 1} position ${position + 1}`;
+            }
+        }
+        return undefined;
+    };
+
+    return blocks.map(({ row, position, serialNumber, ...block }) => {
+        const match: UploadRowMatch = { issues: [] };
+        // the string may be left out for plants with only one
+        const string = block.string === undefined && strings.length === 1 ? 1 : block.string;
+        const bySerial = serialNumber ?
+            batteries.find((battery) => !!battery.serialNumber && normalizeSerial(battery.serialNumber) === normalizeSerial(serialNumber)) :
+            undefined;
+        const batteryString = string === undefined ? undefined : strings[string - 1];
+        const byPosition = position !== undefined && batteryString ? batteryString.batteries[position - 1] : undefined;
+
+        if (matchBy === 'serial' || (matchBy === 'auto' && bySerial)) {
+            if (!bySerial) {
+                match.issues.push({ level: 'error', message: serialNumber ? `no battery with serial ${serialNumber} on this plant` : 'a serial number is required' });
+            }
+            else {
+                match.battery = bySerial.id;
+                match.matchedBy = 'serial';
+                if (matchBy === 'auto' && byPosition && byPosition !== bySerial.id) {
+                    match.issues.push({ level: 'error', message: `serial ${serialNumber} is at ${locationOf(bySerial.id)}, not string ${string} position ${position}` });
+                }
+            }
+        }
+        else if (!byPosition) {
+            match.issues.push({
+                level: 'error',
+                message: position === undefined ? 'a position is required' :
+                    string === undefined ? `a string is required, the plant has ${strings.length}` :
+                    `the plant has no string ${string} position ${position}`,
+            });
+        }
+        else {
+            match.battery = byPosition;
+            match.matchedBy = 'position';
+            if (serialNumber) {
+                match.issues.push({ level: 'warning', message: `serial ${serialNumber} is not on this plant, matched by position` });
+            }
+        }
+
+        if (match.battery) {
+            const earlierRow = matchedRows.get(match.battery);
+            if (earlierRow !== undefined) {
+                match.issues.push({ level: 'error', message: `row ${earlierRow} already has a reading for this battery` });
+            }
+            else {
+                matchedRows.set(match.battery, row);
+            }
+        }
+        return match;
+    });
+};
@@ -0,0 +1,77 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { CompanyConfig } from '../types/company-config';
+import { CompanyConfigNotFoundError, UpdateSiteValidationError } from './update-site-errors';
+import { validateConditionRuleConfig } from './condition-rules';
+import { CompanyConfigServiceInput, serviceFor } from './company-config-service';
+import { assertExpectedVersion, bumpVersion } from './versioning';
+import { ValidationIssue, isObject, checkSection, checkString, checkNumber } from './validation';
+
+type SaveCompanyConfigTransactionInput = {
+    // the fields to set on the current company config
+    changes: Partial<CompanyConfig>;
+    // version of the config the changes were made to
+    expectedVersion?: number;
+    submitter?: string;
+} & CompanyConfigServiceInput;
+
+type CCtx = CheckoutCtx<Store, SaveCompanyConfigTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    SaveCompanyConfigTransactionInput,
+    SaveCompanyConfigTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+/**
+ * Checks the input of a SaveCompanyConfigTransaction, including the condition rule settings
+ * the changes carry.
+ */
+export const validateCompanyConfigChanges = (input: any): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    if (!isObject(input)) {
+        return [{ path: '', code: 'invalid_type', message: 'input must be an object' }];
+    }
+    checkString(issues, 'submitter', input.submitter);
+    checkNumber(issues, 'expectedVersion', input.expectedVersion, [0, Number.MAX_SAFE_INTEGER]);
+    if (checkSection(issues, 'changes', input.changes, true)) {
+        for (const field of ['id', 'isCurrent', 'version']) {
+            if (field in input.changes) {
+                issues.push({ path: `changes.${field}`, code: 'forbidden', message: `changes.${field} cannot be set` });
+            }
+        }
+        for (const issue of validateConditionRuleConfig(input.changes)) {
+            issues.push({ ...issue, path: `changes.${issue.path}`, message: `changes.${issue.message}` });
+        }
+    }
+    return issues;
+};
+
+/**
+ * Sets fields of the current company config and moves it on a version, so transactions
+ * reading it through the company config service see the change at once.
+ */
+export default class SaveCompanyConfigTransaction extends Transaction<SaveCompanyConfigTransactionInput, CompanyConfig> {
+    protected async checkout ({ checkout, queryIds, input }: CCtx) {
+        const issues = validateCompanyConfigChanges(input);
+        if (issues.length) {
+            throw new UpdateSiteValidationError(issues);
+        }
+        const [ configId ] = await queryIds('companyConfigs', { filter: { isCurrent: true }, limit: 1 });
+        if (!configId) {
+            throw new CompanyConfigNotFoundError();
+        }
+        const companyConfig: CompanyConfig & { version?: number } = await checkout('companyConfigs', configId);
+        assertExpectedVersion('companyConfigs', companyConfig, input.expectedVersion);
+        return { companyConfig };
+    }
+
+    protected async operation (ctx: OCtx): Promise<CompanyConfig> {
+        const { companyConfig } = ctx.data;
+        Object.assign(companyConfig, ctx.input.changes);
+        bumpVersion(companyConfig);
+        // the new version alone makes cached copies stale; this also drops the cached object
+        serviceFor(ctx.input).invalidate();
+        return companyConfig;
+    }
+}
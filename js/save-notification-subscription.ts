@@ -0,0 +1,82 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { UpdateSiteValidationError } from './update-site-errors';
+import { NotificationSubscription, notificationChannels } from './notifications';
+import { webhookUrlProblem } from './webhook-url';
+import { ValidationIssue, isObject, isBlank, checkString, checkEnum, checkNumber, checkStringArray, checkSection } from './validation';
+
+type SaveNotificationSubscriptionTransactionInput = Pick<NotificationSubscription, 'user'> &
+    Partial<Pick<NotificationSubscription, 'events' | 'channels' | 'regions' | 'siteNums' | 'minCondition' | 'webhookUrl' | 'quietHours'>>;
+
+type CCtx = CheckoutCtx<Store, SaveNotificationSubscriptionTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    SaveNotificationSubscriptionTransactionInput,
+    SaveNotificationSubscriptionTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+const timeOfDayPattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Checks the input of a SaveNotificationSubscriptionTransaction.
+ */
+export const validateNotificationSubscription = (input: any): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    if (!isObject(input)) {
+        return [{ path: '', code: 'invalid_type', message: 'input must be an object' }];
+    }
+    checkString(issues, 'user', input.user, true);
+    checkStringArray(issues, 'events', input.events);
+    checkStringArray(issues, 'channels', input.channels);
+    (Array.isArray(input.channels) ? input.channels : []).forEach((channel: any, i: number) =>
+        checkEnum(issues, `channels[${i}]`, channel, notificationChannels));
+    checkStringArray(issues, 'regions', input.regions);
+    checkStringArray(issues, 'siteNums', input.siteNums);
+    checkNumber(issues, 'minCondition', input.minCondition, [0, 2]);
+    checkString(issues, 'webhookUrl', input.webhookUrl);
+    const webhookProblem = typeof input.webhookUrl === 'string' && input.webhookUrl ? webhookUrlProblem(input.webhookUrl) : undefined;
+    if (webhookProblem) {
+        issues.push({ path: 'webhookUrl', code: 'invalid_format', message: `webhookUrl ${webhookProblem}` });
+    }
+    if (Array.isArray(input.channels) && input.channels.includes('webhook') && isBlank(input.webhookUrl)) {
+        issues.push({ path: 'webhookUrl', code: 'required', message: 'webhookUrl is required for the webhook channel' });
+    }
+    if (checkSection(issues, 'quietHours', input.quietHours)) {
+        for (const field of ['start', 'end']) {
+            const value = input.quietHours[field];
+            if (typeof value !== 'string' || !timeOfDayPattern.test(value)) {
+                issues.push({ path: `quietHours.${field}`, code: 'invalid_format', message: `quietHours.${field} must be a time as HH:mm` });
+            }
+        }
+        checkNumber(issues, 'quietHours.utcOffset', input.quietHours.utcOffset, [-720, 840]);
+    }
+    return issues;
+};
+
+/**
+ * Creates or replaces a user's notification subscription; each user has at most one.
+ */
+export default class SaveNotificationSubscriptionTransaction extends Transaction<SaveNotificationSubscriptionTransactionInput, NotificationSubscription> {
+    protected async checkout ({ checkout, queryIds, input }: CCtx) {
+        const issues = validateNotificationSubscription(input);
+        if (issues.length) {
+            throw new UpdateSiteValidationError(issues);
+        }
+        const [ subscriptionId ] = await queryIds('notificationSubscriptions', { filter: { user: input.user }, limit: 1 });
+        const subscription: NotificationSubscription | undefined = subscriptionId ?
+            await checkout('notificationSubscriptions', subscriptionId) :
+            undefined;
+        return { subscription };
+    }
+
+    protected async operation (ctx: OCtx): Promise<NotificationSubscription> {
+        const { subscription } = ctx.data;
+        const { user, events = [], channels = ['email', 'in-app'], regions = [], siteNums = [], minCondition, webhookUrl, quietHours } = ctx.input;
+        const fields = { user, events, channels, regions, siteNums, minCondition, webhookUrl, quietHours };
+        if (!subscription) {
+            return ctx.create('notificationSubscriptions', fields);
+        }
+        return Object.assign(subscription, fields);
+    }
+}
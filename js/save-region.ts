@@ -0,0 +1,97 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { RegionNotFoundError, UpdateSiteError, UpdateSiteValidationError } from './update-site-errors';
+import { Region, regionLevels, findRegion } from './regions';
+import { ValidationIssue, isObject, isBlank, checkString, checkEnum, checkStringArray } from './validation';
+
+type SaveRegionTransactionInput = {
+    code: string;
+    name: string;
+    level: Region['level'];
+    parent?: string;
+    managers?: string[];
+};
+
+type CCtx = CheckoutCtx<Store, SaveRegionTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    SaveRegionTransactionInput,
+    SaveRegionTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+/**
+ * Checks the input of a SaveRegionTransaction; where the region sits in the hierarchy is
+ * checked by the transaction against the stored parent.
+ */
+export const validateRegion = (input: any): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    if (!isObject(input)) {
+        return [{ path: '', code: 'invalid_type', message: 'input must be an object' }];
+    }
+    checkString(issues, 'code', input.code, true);
+    checkString(issues, 'name', input.name, true);
+    checkEnum(issues, 'level', input.level, regionLevels);
+    if (isBlank(input.level)) {
+        issues.push({ path: 'level', code: 'required', message: 'level is required' });
+    }
+    checkString(issues, 'parent', input.parent);
+    checkStringArray(issues, 'managers', input.managers);
+    return issues;
+};
+
+/**
+ * Creates a region or updates the one with the same code. Each level nests directly in the
+ * one above it: districts in areas, areas in countries, and countries in nothing.
+ */
+export default class SaveRegionTransaction extends Transaction<SaveRegionTransactionInput, Region> {
+    protected async checkout ({ checkout, queryIds, getStrict, input }: CCtx) {
+        const issues = validateRegion(input);
+        if (issues.length) {
+            throw new UpdateSiteValidationError(issues);
+        }
+        const { code, level, parent } = input;
+        const expectedParentLevel = regionLevels[regionLevels.indexOf(level) - 1];
+        if (!!parent !== !!expectedParentLevel) {
+            throw new UpdateSiteError(
+                `Region: a ${level} ${expectedParentLevel ? `belongs to a ${expectedParentLevel}` : 'has no parent'}`,
+                'REGION_HIERARCHY_INVALID',
+                422,
+                { region: code, level, parent }
+            );
+        }
+        if (parent) {
+            const parentRegion = await findRegion({ queryIds, getStrict }, parent);
+            if (!parentRegion) {
+                throw new RegionNotFoundError(parent);
+            }
+            if (parentRegion.level !== expectedParentLevel) {
+                throw new UpdateSiteError(
+                    `Region: a ${level} belongs to a ${expectedParentLevel}, ${parent} is a ${parentRegion.level}`,
+                    'REGION_HIERARCHY_INVALID',
+                    422,
+                    { region: code, level, parent }
+                );
+            }
+        }
+        const [ regionId ] = await queryIds('regions', { filter: { code }, limit: 1 });
+        const region: Region | undefined = regionId ? await checkout('regions', regionId) : undefined;
+        if (region && region.level !== level) {
+            // sites and child regions depend on the level, so it is fixed once created
+            throw new UpdateSiteError(`Region: ${code} is a ${region.level}`, 'REGION_HIERARCHY_INVALID', 422, { region: code, level });
+        }
+        return { region };
+    }
+
+    protected async operation (ctx: OCtx): Promise<Region> {
+        const { region } = ctx.data;
+        const { code, name, level, parent, managers = [] } = ctx.input;
+        if (!region) {
+            return ctx.create('regions', { code, name, level, parent, managers });
+        }
+        region.name = name;
+        region.parent = parent;
+        region.managers = managers;
+        return region;
+    }
+}
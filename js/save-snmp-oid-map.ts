@@ -0,0 +1,78 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { UpdateSiteValidationError } from './update-site-errors';
+import { SnmpOidMap, snmpPlantReadings, snmpStringReadings } from './snmp-oid-maps';
+import { ValidationIssue, isObject, checkString, checkEnum, checkNumber, checkSection } from './validation';
+
+type SaveSnmpOidMapTransactionInput = Pick<SnmpOidMap, 'model' | 'readings' | 'strings'>;
+
+type CCtx = CheckoutCtx<Store, SaveSnmpOidMapTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    SaveSnmpOidMapTransactionInput,
+    SaveSnmpOidMapTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+const oidPattern = /^\.?\d+(\.\d+)+$/;
+
+const checkOidSpecs = (issues: ValidationIssue[], path: string, value: any, allowed: string[], { required = false, stringTemplate = false }) => {
+    if (!checkSection(issues, path, value, required)) {
+        return;
+    }
+    for (const key of Object.keys(value)) {
+        checkEnum(issues, `${path}.${key}`, key, allowed);
+        if (!checkSection(issues, `${path}.${key}`, value[key], true)) {
+            continue;
+        }
+        const { oid, scale } = value[key];
+        const concrete = typeof oid === 'string' && stringTemplate ? oid.replace('{string}', '1') : oid;
+        if (typeof oid !== 'string' || !oidPattern.test(concrete) || (stringTemplate && !oid.includes('{string}'))) {
+            issues.push({
+                path: `${path}.${key}.oid`,
+                code: 'invalid_format',
+                message: `${path}.${key}.oid must be a numeric oid${stringTemplate ? ' containing {string}' : ''}`,
+            });
+        }
+        checkNumber(issues, `${path}.${key}.scale`, scale, [-1e6, 1e6]);
+    }
+};
+
+/**
+ * Checks the input of a SaveSnmpOidMapTransaction.
+ */
+export const validateSnmpOidMap = (input: any): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    if (!isObject(input)) {
+        return [{ path: '', code: 'invalid_type', message: 'input must be an object' }];
+    }
+    checkString(issues, 'model', input.model, true);
+    checkOidSpecs(issues, 'readings', input.readings, snmpPlantReadings, { required: true });
+    checkOidSpecs(issues, 'strings', input.strings, snmpStringReadings, { stringTemplate: true });
+    return issues;
+};
+
+/**
+ * Creates or replaces the oid map of a power plant type model; each model has at most one.
+ */
+export default class SaveSnmpOidMapTransaction extends Transaction<SaveSnmpOidMapTransactionInput, SnmpOidMap> {
+    protected async checkout ({ checkout, queryIds, input }: CCtx) {
+        const issues = validateSnmpOidMap(input);
+        if (issues.length) {
+            throw new UpdateSiteValidationError(issues);
+        }
+        const [ mapId ] = await queryIds('snmpOidMaps', { filter: { model: input.model }, limit: 1 });
+        const oidMap: SnmpOidMap | undefined = mapId ? await checkout('snmpOidMaps', mapId) : undefined;
+        return { oidMap };
+    }
+
+    protected async operation (ctx: OCtx): Promise<SnmpOidMap> {
+        const { oidMap } = ctx.data;
+        const { model, readings, strings = {} } = ctx.input;
+        const fields = { model, readings, strings };
+        if (!oidMap) {
+            return ctx.create('snmpOidMaps', fields);
+        }
+        return Object.assign(oidMap, fields);
+    }
+}
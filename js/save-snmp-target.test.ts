@@ -0,0 +1,39 @@
+import { validateSnmpTarget } from './save-snmp-target';
+
+describe('validateSnmpTarget', () => {
+    const input = (snmpTarget: any) => ({ siteNum: 'S1', plantNum: 'P1', snmpTarget });
+    const paths = (snmpTarget: any) => validateSnmpTarget(input(snmpTarget)).map(({ path, code }) => `${path}:${code}`);
+
+    it('accepts host names and IP addresses with the optional fields in range', () => {
+        expect(paths({ host: 'rx48.plant-7.example.net' })).toEqual([]);
+        expect(paths({ host: '10.20.0.5', port: 1161, community: 'n0rth!', version: '1', timeout: 2000 })).toEqual([]);
+        expect(paths({ host: 'fd00::12' })).toEqual([]);
+    });
+
+    it('lets a null target remove the configured one', () => {
+        expect(paths(null)).toEqual([]);
+    });
+
+    it('reports a missing or malformed host', () => {
+        expect(paths({})).toEqual(['snmpTarget.host:required']);
+        expect(paths({ host: 'http://10.20.0.5' })).toEqual(['snmpTarget.host:invalid_format']);
+        expect(paths({ host: '-controller' })).toEqual(['snmpTarget.host:invalid_format']);
+    });
+
+    it('reports ports outside 1-65535 or not whole', () => {
+        expect(paths({ host: '10.20.0.5', port: 0 })).toEqual(['snmpTarget.port:out_of_range']);
+        expect(paths({ host: '10.20.0.5', port: 70000 })).toEqual(['snmpTarget.port:out_of_range']);
+        expect(paths({ host: '10.20.0.5', port: 161.5 })).toEqual(['snmpTarget.port:invalid_type']);
+    });
+
+    it('reports communities with spaces, control characters or over 32 characters', () => {
+        expect(paths({ host: '10.20.0.5', community: 'pub lic' })).toEqual(['snmpTarget.community:invalid_format']);
+        expect(paths({ host: '10.20.0.5', community: 'public\n' })).toEqual(['snmpTarget.community:invalid_format']);
+        expect(paths({ host: '10.20.0.5', community: 'c'.repeat(33) })).toEqual(['snmpTarget.community:invalid_format']);
+        expect(paths({ host: '10.20.0.5', community: 161 })).toEqual(['snmpTarget.community:invalid_type']);
+    });
+
+    it('requires the plant and a target', () => {
+        expect(validateSnmpTarget({ snmpTarget: undefined }).map(({ path }) => path)).toEqual(['siteNum', 'plantNum', 'snmpTarget']);
+    });
+});
@@ -0,0 +1,106 @@
+import * as net from 'net';
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { PlantConfig } from '../types/plant-config';
+import { SiteNotFoundError, UpdateSiteValidationError, PlantConfigNotFoundError, PlantNotFoundError } from './update-site-errors';
+import { SnmpTarget, snmpVersions } from './snmp-client';
+import { bumpVersion } from './versioning';
+import { ValidationIssue, isObject, checkString, checkEnum, checkNumber, checkSection } from './validation';
+
+type SaveSnmpTargetTransactionInput = {
+    siteNum: string;
+    plantNum: string;
+    // null stops the plant from being polled
+    snmpTarget: SnmpTarget | null;
+};
+
+type CCtx = CheckoutCtx<Store, SaveSnmpTargetTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    SaveSnmpTargetTransactionInput,
+    SaveSnmpTargetTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+// host names as resolvers accept them: dot-separated labels of letters, digits and inner hyphens
+const hostnamePattern = /^(?=.{1,253}$)[A-Za-z0-9]([A-Za-z0-9-]{0,61}[A-Za-z0-9])?(\.[A-Za-z0-9]([A-Za-z0-9-]{0,61}[A-Za-z0-9])?)*$/;
+// printable ASCII without spaces, as controllers accept it
+const communityPattern = /^[\x21-\x7e]{1,32}$/;
+
+/**
+ * Checks the input of a SaveSnmpTargetTransaction; `snmpTarget` null removes the target.
+ */
+export const validateSnmpTarget = (input: any): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    if (!isObject(input)) {
+        return [{ path: '', code: 'invalid_type', message: 'input must be an object' }];
+    }
+    checkString(issues, 'siteNum', input.siteNum, true);
+    checkString(issues, 'plantNum', input.plantNum, true);
+    if (input.snmpTarget === null || !checkSection(issues, 'snmpTarget', input.snmpTarget, true)) {
+        return issues;
+    }
+    const { host, port, community, version, timeout } = input.snmpTarget;
+    checkString(issues, 'snmpTarget.host', host, true);
+    if (typeof host === 'string' && !net.isIP(host) && !hostnamePattern.test(host)) {
+        issues.push({ path: 'snmpTarget.host', code: 'invalid_format', message: 'snmpTarget.host must be a host name or an IP address' });
+    }
+    checkNumber(issues, 'snmpTarget.port', port, [1, 65535]);
+    if (typeof port === 'number' && !Number.isInteger(port)) {
+        issues.push({ path: 'snmpTarget.port', code: 'invalid_type', message: 'snmpTarget.port must be an integer' });
+    }
+    checkString(issues, 'snmpTarget.community', community);
+    if (typeof community === 'string' && community && !communityPattern.test(community)) {
+        issues.push({ path: 'snmpTarget.community', code: 'invalid_format', message: 'snmpTarget.community must be 1 to 32 printable characters without spaces' });
+    }
+    checkEnum(issues, 'snmpTarget.version', version, snmpVersions);
+    checkNumber(issues, 'snmpTarget.timeout', timeout, [100, 60000]);
+    return issues;
+};
+
+/**
+ * Sets or removes where the controller of a plant is polled, on its current plant config.
+ */
+export default class SaveSnmpTargetTransaction extends Transaction<SaveSnmpTargetTransactionInput, PlantConfig> {
+    protected async checkout ({ checkout, queryIds, input }: CCtx) {
+        const issues = validateSnmpTarget(input);
+        if (issues.length) {
+            throw new UpdateSiteValidationError(issues);
+        }
+        const { siteNum, plantNum } = input;
+        const [ siteId ] = await queryIds('sites', { filter: { siteNum }, limit: 1 });
+        if (!siteId) {
+            throw new SiteNotFoundError(siteNum);
+        }
+        const [ plantId ] = await queryIds('powerPlants', { filter: { site: siteId, name: plantNum }, limit: 1 });
+        if (!plantId) {
+            throw new PlantNotFoundError(siteNum, plantNum);
+        }
+        const [ plantConfigId ] = await queryIds('plantConfigs', { filter: { powerPlant: plantId, isCurrent: true }, limit: 1 });
+        if (!plantConfigId) {
+            throw new PlantConfigNotFoundError(siteNum, plantNum);
+        }
+        const plantConfig: PlantConfig & { snmpTarget?: SnmpTarget } = await checkout('plantConfigs', plantConfigId);
+        return { plantConfig };
+    }
+
+    protected async operation (ctx: OCtx): Promise<PlantConfig> {
+        const { plantConfig } = ctx.data;
+        const { snmpTarget } = ctx.input;
+        if (snmpTarget) {
+            // only the validated fields, and only those given, so defaults apply to the rest
+            const target: SnmpTarget = { host: snmpTarget.host };
+            for (const field of ['port', 'community', 'version', 'timeout']) {
+                if (snmpTarget[field] !== undefined && snmpTarget[field] !== null) {
+                    target[field] = snmpTarget[field];
+                }
+            }
+            plantConfig.snmpTarget = target;
+        }
+        else {
+            delete plantConfig.snmpTarget;
+        }
+        bumpVersion(plantConfig);
+        return plantConfig;
+    }
+}
@@ -0,0 +1,33 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { UpdateSiteValidationError } from './update-site-errors';
+import { SiteSearch, SiteSearchResult, findSites, validateSiteSearch } from './site-search';
+
+type SearchSitesTransactionInput = SiteSearch;
+
+type CCtx = CheckoutCtx<Store, SearchSitesTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    SearchSitesTransactionInput,
+    SearchSitesTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+/**
+ * Finds sites within a radius of a point, the nearest ones to it or those inside a polygon,
+ * with the current condition of their plants. Read-only; nothing is checked out for writing.
+ */
+export default class SearchSitesTransaction extends Transaction<SearchSitesTransactionInput, SiteSearchResult[]> {
+    protected async checkout ({ queryIds, getStrict, input }: CCtx) {
+        const issues = validateSiteSearch(input);
+        if (issues.length) {
+            throw new UpdateSiteValidationError(issues);
+        }
+        const results = await findSites({ queryIds, getStrict }, input);
+        return { results };
+    }
+
+    protected async operation (ctx: OCtx): Promise<SiteSearchResult[]> {
+        return ctx.data.results;
+    }
+}
@@ -0,0 +1,45 @@
+import { sendFleetReports } from './send-fleet-reports';
+import { summarizeFleet, fleetReportSettingsOf } from './fleet-report';
+import { deliveredScopes } from './record-fleet-report-delivery';
+
+jest.mock('../../envs', () => ({}));
+
+const now = new Date('2024-02-12T06:30:00Z');
+const settings = fleetReportSettingsOf();
+
+const dueReport = (scope: string) => ({ scope, recipients: [`${scope}@example.com`], report: summarizeFleet(scope, [], settings, now) });
+
+describe('sendFleetReports', () => {
+    it('records each delivery as it is attempted and carries on past a failed one', async () => {
+        const listDue = jest.fn(async () => ({ due: true, week: '2024-W07', reports: [dueReport('company'), dueReport('n1')] }));
+        const record = jest.fn(async (input: any) => ({}) as any);
+        const mailer = {
+            send: jest.fn()
+                .mockRejectedValueOnce(new Error('mailbox unavailable'))
+                .mockResolvedValueOnce({ messageId: '<2@smtp>' }),
+        };
+
+        const summary = await sendFleetReports({ listDue, record }, { force: true, mailer });
+
+        expect(listDue).toHaveBeenCalledWith({ force: true, companyConfig: undefined, companyConfigService: undefined });
+        expect(mailer.send.mock.calls.map(([message]) => message.subject)).toEqual([
+            'Fleet condition report company 2024-W07',
+            'Fleet condition report n1 2024-W07',
+        ]);
+        expect(record.mock.calls.map(([{ week, delivery }]) => [week, delivery.scope, delivery.messageId, delivery.error])).toEqual([
+            ['2024-W07', 'company', undefined, 'mailbox unavailable'],
+            ['2024-W07', 'n1', '<2@smtp>', undefined],
+        ]);
+        // the failed company report stays due for the next run
+        expect(deliveredScopes({ deliveries: summary.deliveries })).toEqual(['n1']);
+    });
+
+    it('sends nothing when no report is due', async () => {
+        const record = jest.fn();
+        const mailer = { send: jest.fn() };
+        const summary = await sendFleetReports({ listDue: async () => ({ due: false, week: '2024-W07', reports: [] }), record }, { mailer });
+        expect(summary).toEqual({ due: false, week: '2024-W07', deliveries: [] });
+        expect(mailer.send).not.toHaveBeenCalled();
+        expect(record).not.toHaveBeenCalled();
+    });
+});
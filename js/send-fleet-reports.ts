@@ -0,0 +1,82 @@
+import createLogger from '../../logger';
+import { CompanyConfig } from '../types/company-config';
+import { fleetReportCsv, fleetReportPdf, fleetReportFileName } from './fleet-report';
+import { Mailer, MailMessage } from './mailer';
+import { ListDueFleetReportsTransactionInput, DueFleetReports, DueFleetReport } from './list-due-fleet-reports';
+import { RecordFleetReportDeliveryTransactionInput, FleetReportRun, ReportDelivery } from './record-fleet-report-delivery';
+import { CompanyConfigServiceInput } from './company-config-service';
+
+const logger = createLogger({ label: 'Fleet Report' });
+
+export type SendFleetReportsInput = {
+    // sends this week's reports even if they went out already or are not due yet
+    force?: boolean;
+    // the current company config when omitted
+    companyConfig?: CompanyConfig;
+    // e.g. the app's SMTP mailer, or a json mailer locally and in tests
+    mailer: Mailer;
+} & CompanyConfigServiceInput;
+
+export interface SendSummary {
+    due: boolean;
+    week: string;
+    deliveries: ReportDelivery[];
+}
+
+/**
+ * The email carrying one scope's report, with its CSV files and PDF attached.
+ */
+export const fleetReportMessage = async ({ scope, recipients, report }: DueFleetReport, week: string): Promise<MailMessage> => {
+    const { settings } = report;
+    const { ok, warn, critical, unknown } = report.counts;
+    return {
+        to: recipients.join(', '),
+        subject: `Fleet condition report ${scope} ${week}`,
+        text: [
+            `Plants: ${ok} ok, ${warn} warn, ${critical} critical, ${unknown} unknown.`,
+            `${report.belowRuntime.length} below runtime threshold, ${report.pastAgeLimit.length} with strings past ${settings.maxBatteryAgeYears} years, ${report.overdue.length} with overdue routines.`,
+            'Details are in the attached PDF and CSV files.',
+        ].join('\n'),
+        attachments: [
+            { filename: fleetReportFileName(report, '.pdf'), content: await fleetReportPdf(report), contentType: 'application/pdf' },
+            ...fleetReportCsv(report).map((file) => ({ ...file, contentType: 'text/csv' })),
+        ],
+    };
+};
+
+/**
+ * Emails the weekly fleet condition reports that are due. They are built by
+ * ListDueFleetReportsTransaction and sent with no transaction open, and each delivery is
+ * recorded by RecordFleetReportDeliveryTransaction as soon as it was attempted, so a failed
+ * write resends at most that one report. Reports that failed to send stay due and are
+ * retried by the next run. Meant to run on a schedule, e.g. hourly.
+ */
+export const sendFleetReports = async (
+    { listDue, record }: {
+        listDue: (input: ListDueFleetReportsTransactionInput) => Promise<DueFleetReports>,
+        record: (input: RecordFleetReportDeliveryTransactionInput) => Promise<FleetReportRun>,
+    },
+    input: SendFleetReportsInput,
+): Promise<SendSummary> => {
+    const { force, companyConfig, companyConfigService, mailer } = input;
+    const { due, week, reports } = await listDue({ force, companyConfig, companyConfigService });
+
+    const deliveries: ReportDelivery[] = [];
+    for (const dueReport of reports) {
+        const { scope, recipients } = dueReport;
+        let delivery: ReportDelivery;
+        try {
+            const { messageId } = await mailer.send(await fleetReportMessage(dueReport, week));
+            delivery = { scope, recipients, sentAt: new Date(), messageId };
+        } catch (error) {
+            logger.error(error);
+            delivery = { scope, recipients, sentAt: new Date(), error: error.message };
+        }
+        await record({ week, delivery });
+        deliveries.push(delivery);
+    }
+    if (reports.length) {
+        logger.info(`sent ${deliveries.filter(({ messageId }) => messageId).length} of ${reports.length} fleet reports for ${week}`);
+    }
+    return { due, week, deliveries };
+};
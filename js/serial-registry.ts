@@ -0,0 +1,205 @@
+import { Battery } from '../types/battery';
+import { BatteryType } from '../types/battery-type';
+import { UpdateSiteError } from './update-site-errors';
+
+// serial format for battery types without a manufacturer format of their own
+export const serialNumberPattern = /^[A-Za-z0-9][A-Za-z0-9-]{3,31}$/;
+
+export type SerialConflictCode = 'DUPLICATE' | 'DUPLICATE_IN_BATCH' | 'INVALID_FORMAT' | 'BATTERY_NOT_FOUND';
+
+export interface SerialConflict {
+    code: SerialConflictCode;
+    batteryId?: string;
+    serialNumber: string;
+    // the battery already holding the serial, for duplicates
+    conflictingBattery?: string;
+    message: string;
+}
+
+export interface SerialAssignment {
+    batteryId: string;
+    serialNumber: string;
+}
+
+export interface SerialHistoryEntry {
+    serialNumber?: string;
+    previous?: string;
+    date: Date;
+    submitter?: string;
+    // 'update' for site updates, 'import' for bulk imports
+    source: string;
+}
+
+export type SerialBattery = Battery & { serialNumberHistory?: SerialHistoryEntry[] };
+
+// optional battery type field: a regular expression the manufacturer's serials match
+type SerialFormat = BatteryType & { serialNumberFormat?: string };
+
+export type ConflictPolicy = 'reject' | 'flag';
+
+export class SerialNumberConflictError extends UpdateSiteError {
+    conflicts: SerialConflict[];
+
+    constructor (conflicts: SerialConflict[]) {
+        super(
+            `Serial Numbers: ${conflicts.length} conflicting serial number${conflicts.length === 1 ? '' : 's'}`,
+            'SERIAL_NUMBER_CONFLICT',
+            409,
+            { conflicts }
+        );
+        this.conflicts = conflicts;
+    }
+}
+
+/**
+ * Serials are compared without surrounding whitespace and case, as scanners and people
+ * disagree on both. They are stored normalized, so duplicates are found by an exact match;
+ * NormalizeSerialNumbersTransaction brings serials stored before that in line.
+ */
+export const normalizeSerial = (serialNumber: string) => serialNumber.trim().toUpperCase();
+
+const formatOf = async (ctx, battery: Battery, formats: Map<string, RegExp | undefined>) => {
+    const typeId = battery.batteryType ? battery.batteryType.toString() : undefined;
+    if (!typeId) {
+        return undefined;
+    }
+    if (!formats.has(typeId)) {
+        const batteryType: SerialFormat | undefined = await ctx.getStrict('batteryTypes', typeId).catch(() => undefined);
+        formats.set(typeId, batteryType && batteryType.serialNumberFormat ?
+            new RegExp(`^(?:${batteryType.serialNumberFormat})$`, 'i') :
+            undefined);
+    }
+    return formats.get(typeId);
+};
+
+/**
+ * Checks serial assignments against the manufacturer format of each battery's type (or the
+ * generic format when the type has none), against each other, and against the serials of
+ * batteries outside the batch. Swapping serials between batteries of the batch is allowed.
+ */
+export const checkSerialAssignments = async (
+    ctx,
+    assignments: SerialAssignment[],
+    batteries: Battery[],
+): Promise<SerialConflict[]> => {
+    const conflicts: SerialConflict[] = [];
+    const formats = new Map<string, RegExp | undefined>();
+    const batchIds = new Set(assignments.map(({ batteryId }) => batteryId));
+    const seen = new Map<string, string>();
+
+    for (const { batteryId, serialNumber } of assignments) {
+        const serial = normalizeSerial(serialNumber);
+        const battery = batteries.find(({ id }) => id === batteryId);
+        if (!battery) {
+            conflicts.push({ code: 'BATTERY_NOT_FOUND', batteryId, serialNumber, message: `no battery ${batteryId}` });
+            continue;
+        }
+        const format = await formatOf(ctx, battery, formats) || serialNumberPattern;
+        if (!format.test(serial)) {
+            conflicts.push({ code: 'INVALID_FORMAT', batteryId, serialNumber, message: `${serialNumber} does not match the format of the battery type` });
+            continue;
+        }
+        const batchHolder = seen.get(serial);
+        if (batchHolder && batchHolder !== batteryId) {
+            conflicts.push({
+                code: 'DUPLICATE_IN_BATCH',
+                batteryId,
+                serialNumber,
+                conflictingBattery: batchHolder,
+                message: `${serialNumber} is assigned to both ${batchHolder} and ${batteryId}`,
+            });
+            continue;
+        }
+        seen.set(serial, batteryId);
+        const holderIds: string[] = await ctx.queryIds('batteries', { filter: { serialNumber: serial } });
+        const holder = holderIds.find((id) => id !== batteryId && !batchIds.has(id));
+        if (holder) {
+            conflicts.push({
+                code: 'DUPLICATE',
+                batteryId,
+                serialNumber,
+                conflictingBattery: holder,
+                message: `${serialNumber} already belongs to battery ${holder}`,
+            });
+        }
+    }
+    return conflicts;
+};
+
+/**
+ * Sets a battery's serial and appends the change to its history; returns false when the
+ * serial was already set.
+ */
+export const assignSerial = (battery: SerialBattery, serialNumber: string, { submitter, source }: { submitter?: string, source: string }) => {
+    const serial = normalizeSerial(serialNumber);
+    if (battery.serialNumber === serial) {
+        return false;
+    }
+    battery.serialNumberHistory = [
+        ...(battery.serialNumberHistory || []),
+        { serialNumber: serial, previous: battery.serialNumber, date: new Date(), submitter, source },
+    ];
+    battery.serialNumber = serial;
+    return true;
+};
+
+/**
+ * Conflicts of assignments taking the serial a battery of the batch keeps because its own
+ * assignment was skipped.
+ */
+const keptSerialConflicts = (assignments: SerialAssignment[], kept: Battery[]): SerialConflict[] => {
+    const conflicts: SerialConflict[] = [];
+    for (const { batteryId, serialNumber } of assignments) {
+        const holder = kept.find((battery) => battery.id !== batteryId && !!battery.serialNumber &&
+            normalizeSerial(battery.serialNumber) === normalizeSerial(serialNumber));
+        if (holder) {
+            conflicts.push({
+                code: 'DUPLICATE',
+                batteryId,
+                serialNumber,
+                conflictingBattery: holder.id,
+                message: `${serialNumber} stays with battery ${holder.id}, whose new serial was skipped`,
+            });
+        }
+    }
+    return conflicts;
+};
+
+/**
+ * Checks and applies serial assignments. With the 'reject' policy any conflict fails the
+ * whole batch; with 'flag' the conflicting assignments are skipped and reported, together
+ * with those that would take a serial a skipped battery keeps.
+ */
+export const applySerialAssignments = async (
+    ctx,
+    assignments: SerialAssignment[],
+    batteries: SerialBattery[],
+    { policy = 'reject', submitter, source }: { policy?: ConflictPolicy, submitter?: string, source: string },
+) => {
+    const conflicts = await checkSerialAssignments(ctx, assignments, batteries);
+    if (conflicts.length && policy === 'reject') {
+        throw new SerialNumberConflictError(conflicts);
+    }
+    const skips = (assignment: SerialAssignment) => conflicts.some(({ batteryId }) => batteryId === assignment.batteryId);
+    // a skipped battery can free nothing up, so skipping can cascade through swaps
+    let taken: SerialConflict[];
+    do {
+        const applied = assignments.filter((assignment) => !skips(assignment));
+        const kept = batteries.filter(({ id }) => assignments.some(({ batteryId }) => batteryId === id) &&
+            !applied.some(({ batteryId }) => batteryId === id));
+        taken = keptSerialConflicts(applied, kept);
+        conflicts.push(...taken);
+    } while (taken.length);
+
+    const assigned: SerialAssignment[] = [];
+    for (const assignment of assignments) {
+        if (skips(assignment)) {
+            continue;
+        }
+        const battery = batteries.find(({ id }) => id === assignment.batteryId)!;
+        if (assignSerial(battery, assignment.serialNumber, { submitter, source })) {
+            assigned.push(assignment);
+        }
+    }
+    return { assigned, conflicts };
+};
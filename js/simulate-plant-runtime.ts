@@ -0,0 +1,322 @@
+import { calcUtilization } from 'dugo-lib/lib/computers/power-plant';
+import { calcCapacity as bCalcCapacity } from 'dugo-lib/lib/computers/battery';
+import { calcCapacity as bPCalcCapacity } from 'dugo-lib/lib/computers/battery-plant';
+import { calcActualCapacity } from 'dugo-lib/lib/computers/string';
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import { CompanyConfig } from '../types/company-config';
+import { PlantConfig } from '../types/plant-config';
+import { Routine } from '../types/routine';
+import { SiteNotFoundError, UpdateSiteError, UpdateSiteValidationError, PlantNotFoundError } from './update-site-errors';
+import { ConditionFacts, ConditionRuleResult, evaluateConditionRules } from './condition-rules';
+import { loadConditionFacts } from './routine-condition';
+import { calcStringHealth } from './battery-health';
+import { GeneratorDetails, ManagedGenerator, calcGeneratorAutonomy, generatorFields, checkGeneratorDetails } from './generator-lifecycle';
+import { locationTypes } from './update-site-validation';
+import { readCompanyConfig, CompanyConfigServiceInput } from './company-config-service';
+import { ValidationIssue, isObject, isBlank, checkString, checkEnum, checkNumber, checkSection, checkObjectArray } from './validation';
+
+export interface RuntimeScenario {
+    name?: string;
+    // e.g. 20 for a fifth more load, negative for less
+    loadGrowthPercent?: number;
+    // strings are numbered from 1 in plant config order; new blocks count as fully healthy
+    replaceStrings?: { string: number, batteryType: string }[];
+    generator?: { action: 'add' | 'remove', details?: GeneratorDetails };
+    transmissionConfig?: string;
+    locationType?: string;
+    addRectifiers?: { rectifierType: string, count?: number }[];
+}
+
+type SimulatePlantRuntimeTransactionInput = {
+    siteNum: string;
+    plantNum: string;
+    // simulated separately, each against the plant as it is now
+    scenarios: RuntimeScenario[];
+    // the current company config when omitted
+    companyConfig?: CompanyConfig;
+} & CompanyConfigServiceInput;
+
+export interface RuntimeProjection {
+    name: string;
+    load: number;
+    actualCapacity: number;
+    utilization: number;
+    runtime?: number;
+    // the thresholds the runtime was rated against, the plant's override when it has one
+    runtimeThresholds?: PlantConfig['optimalRuntimeThresholdsOverride'];
+    runtimeStatus?: number;
+    hasGenerator: boolean;
+    generatorAutonomy?: number;
+    condition: number;
+    results: ConditionRuleResult[];
+}
+
+interface PlantSimulation {
+    siteNum: string;
+    plantNum: string;
+    powerPlant: string;
+    // the routine whose reading the projections start from
+    routine: string;
+    date: Date;
+    baseline: RuntimeProjection;
+    scenarios: RuntimeProjection[];
+}
+
+type CCtx = CheckoutCtx<Store, SimulatePlantRuntimeTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    SimulatePlantRuntimeTransactionInput,
+    SimulatePlantRuntimeTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+const projectionOf = (name: string, facts: ConditionFacts): RuntimeProjection => {
+    const { condition, results } = evaluateConditionRules(facts);
+    const runtimeResult = results.find(({ rule }) => rule === 'runtime');
+    const details = runtimeResult && !runtimeResult.skipped && runtimeResult.details || {};
+    return {
+        name,
+        load: facts.load,
+        actualCapacity: facts.actualCapacity,
+        utilization: facts.utilization,
+        runtime: details.runtime,
+        runtimeThresholds: details.runtimeThresholds,
+        runtimeStatus: runtimeResult && runtimeResult.status,
+        hasGenerator: !!details.hasGenerator,
+        generatorAutonomy: facts.generatorAutonomy,
+        condition,
+        results,
+    };
+};
+
+const rectifierPowersOf = async (ctx, rectifierTypes: any[] = []) => {
+    const rectifierPowers: number[] = [];
+    for (const id of rectifierTypes) {
+        if (id) {
+            const { power } = await ctx.getStrict('rectifierTypes', id.toString());
+            rectifierPowers.push(power);
+        }
+    }
+    return rectifierPowers;
+};
+
+export const simulationGeneratorActions = ['add', 'remove'];
+
+/**
+ * Checks the input of a SimulatePlantRuntimeTransaction, scenario by scenario.
+ */
+export const validatePlantSimulation = (input: any): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    if (!isObject(input)) {
+        return [{ path: '', code: 'invalid_type', message: 'input must be an object' }];
+    }
+    checkString(issues, 'siteNum', input.siteNum, true);
+    checkString(issues, 'plantNum', input.plantNum, true);
+    if (!Array.isArray(input.scenarios) || !input.scenarios.length) {
+        issues.push({ path: 'scenarios', code: 'required', message: 'scenarios must be a non-empty array' });
+        return issues;
+    }
+    if (input.scenarios.length > 20) {
+        issues.push({ path: 'scenarios', code: 'out_of_range', message: 'at most 20 scenarios can be simulated at once' });
+    }
+    input.scenarios.forEach((scenario: any, i: number) => {
+        const path = `scenarios[${i}]`;
+        if (!checkSection(issues, path, scenario, true)) {
+            return;
+        }
+        checkString(issues, `${path}.name`, scenario.name);
+        checkNumber(issues, `${path}.loadGrowthPercent`, scenario.loadGrowthPercent, [-100, 1000]);
+        checkObjectArray(issues, `${path}.replaceStrings`, scenario.replaceStrings, (itemPath, item) => {
+            checkNumber(issues, `${itemPath}.string`, item.string, [1, 100]);
+            if (isBlank(item.string)) {
+                issues.push({ path: `${itemPath}.string`, code: 'required', message: `${itemPath}.string is required` });
+            }
+            checkString(issues, `${itemPath}.batteryType`, item.batteryType, true);
+        });
+        if (checkSection(issues, `${path}.generator`, scenario.generator)) {
+            if (isBlank(scenario.generator.action)) {
+                issues.push({ path: `${path}.generator.action`, code: 'required', message: `${path}.generator.action is required` });
+            }
+            checkEnum(issues, `${path}.generator.action`, scenario.generator.action, simulationGeneratorActions);
+            if (checkSection(issues, `${path}.generator.details`, scenario.generator.details)) {
+                checkGeneratorDetails(issues, `${path}.generator.details`, scenario.generator.details);
+            }
+        }
+        checkString(issues, `${path}.transmissionConfig`, scenario.transmissionConfig);
+        checkEnum(issues, `${path}.locationType`, scenario.locationType, locationTypes);
+        checkObjectArray(issues, `${path}.addRectifiers`, scenario.addRectifiers, (itemPath, item) => {
+            checkString(issues, `${itemPath}.rectifierType`, item.rectifierType, true);
+            checkNumber(issues, `${itemPath}.count`, item.count, [1, 100]);
+        });
+    });
+    return issues;
+};
+
+/**
+ * Projects a plant's runtime, utilization and condition under what-if scenarios (more load,
+ * new strings, a generator added or removed, another transmission config or location type,
+ * extra rectifiers) through the same condition rules routines are rated with. Starts from
+ * the latest routine's reading and saves nothing.
+ */
+export default class SimulatePlantRuntimeTransaction extends Transaction<SimulatePlantRuntimeTransactionInput, PlantSimulation> {
+    protected async checkout ({ queryIds, getStrict, input }: CCtx) {
+        const issues = validatePlantSimulation(input);
+        if (issues.length) {
+            throw new UpdateSiteValidationError(issues);
+        }
+        const { siteNum, plantNum } = input;
+        const [ siteId ] = await queryIds('sites', { filter: { siteNum }, limit: 1 });
+        if (!siteId) {
+            throw new SiteNotFoundError(siteNum);
+        }
+        const site = await getStrict('sites', siteId);
+        const [ plantId ] = await queryIds('powerPlants', { filter: { site: siteId, name: plantNum }, limit: 1 });
+        if (!plantId) {
+            throw new PlantNotFoundError(siteNum, plantNum);
+        }
+        const powerPlant = await getStrict('powerPlants', plantId);
+        const [ plantConfigId ] = await queryIds('plantConfigs', { filter: { powerPlant: plantId, isCurrent: true }, limit: 1 });
+        const [ routineId ] = await queryIds('routines', { filter: { powerPlant: plantId }, sort: { date: -1 }, limit: 1 });
+        const plantConfig: PlantConfig | undefined = plantConfigId ? await getStrict('plantConfigs', plantConfigId) : undefined;
+        const routine: Routine | undefined = routineId ? await getStrict('routines', routineId) : undefined;
+        const reading = routine && (routine.plantReading || routine.latestReading);
+        // load and voltage are what every projection scales from
+        if (!plantConfig || !routine || !reading || typeof reading.load !== 'number' || typeof reading.voltage !== 'number') {
+            throw new UpdateSiteError(
+                `Runtime Simulation: plant ${plantNum} on site ${siteNum} has no current config and routine reading with load and voltage to start from`,
+                'SIMULATION_BASELINE_NOT_FOUND',
+                422,
+                { siteNum, plantNum }
+            );
+        }
+        return { site, powerPlant, plantConfig, routine, reading };
+    }
+
+    protected async operation (ctx: OCtx): Promise<PlantSimulation> {
+        const { site, powerPlant, plantConfig, routine, reading } = ctx.data;
+        const { siteNum, plantNum, scenarios } = ctx.input;
+        const companyConfig = ctx.input.companyConfig || await readCompanyConfig(ctx);
+
+        const rectifierPowers = await rectifierPowersOf(ctx, plantConfig.rectifierTypes);
+        const utilizationAt = (load: number, powers: number[]) => powers.length ?
+            calcUtilization(load, reading.voltage, powers) :
+            // without rectifier ratings utilization can only scale with the load
+            reading.load ? reading.utilization * load / reading.load : reading.utilization;
+
+        const baselineFacts = await loadConditionFacts(
+            ctx,
+            site,
+            routine.date,
+            routine,
+            plantConfig,
+            companyConfig,
+            reading.load,
+            reading.voltage,
+            reading.temperature,
+            utilizationAt(reading.load, rectifierPowers),
+            reading.actualCapacity,
+            reading.worstBlockConductanceHealth,
+        );
+        // a manual override rates the plant as it is, not as a scenario would leave it
+        baselineFacts.conditionOverride = undefined;
+
+        const projections: RuntimeProjection[] = [];
+        for (let i = 0; i < scenarios.length; i++) {
+            const scenario = scenarios[i];
+            const facts: ConditionFacts = { ...baselineFacts };
+
+            if (scenario.loadGrowthPercent) {
+                facts.load = reading.load * (1 + scenario.loadGrowthPercent / 100);
+            }
+
+            let powers = rectifierPowers;
+            if (scenario.addRectifiers && scenario.addRectifiers.length) {
+                powers = [...rectifierPowers];
+                const rectifierTypes = [...(plantConfig.rectifierTypes || [])];
+                for (const { rectifierType, count = 1 } of scenario.addRectifiers) {
+                    const { power } = await ctx.getStrict('rectifierTypes', rectifierType);
+                    for (let n = 0; n < count; n++) {
+                        powers.push(power);
+                        rectifierTypes.push(rectifierType);
+                    }
+                }
+                facts.plantConfig = { ...facts.plantConfig, rectifierTypes };
+            }
+            if (facts.load !== baselineFacts.load || powers !== rectifierPowers) {
+                facts.utilization = utilizationAt(facts.load, powers);
+            }
+
+            if (scenario.replaceStrings && scenario.replaceStrings.length) {
+                const replacements = new Map<number, string>(scenario.replaceStrings.map(({ string, batteryType }) => [string - 1, batteryType]));
+                for (const { string } of scenario.replaceStrings) {
+                    if (string > plantConfig.strings.length) {
+                        throw new UpdateSiteValidationError([{
+                            path: `scenarios[${i}].replaceStrings`,
+                            code: 'out_of_range',
+                            message: `plant ${plantNum} has no string ${string}`,
+                        }]);
+                    }
+                }
+                const capacities: number[] = [];
+                const healths: number[] = [];
+                const batteryTypes: string[] = [];
+                for (let n = 0; n < plantConfig.strings.length; n++) {
+                    const string = plantConfig.strings[n];
+                    const replacement = replacements.get(n);
+                    if (replacement === undefined) {
+                        const health = await calcStringHealth(ctx, string, companyConfig);
+                        capacities.push(health.actualCapacity);
+                        if (health.worstBlockConductanceHealth !== undefined) {
+                            healths.push(health.worstBlockConductanceHealth);
+                        }
+                        batteryTypes.push(string.batteryType.toString());
+                        continue;
+                    }
+                    const batteryType = await ctx.getStrict('batteryTypes', replacement);
+                    const capacity = bCalcCapacity(100, companyConfig.batteryCapacityTable);
+                    capacities.push(batteryType.capacity && capacity ? calcActualCapacity(capacity, batteryType.capacity) : 0);
+                    healths.push(100);
+                    batteryTypes.push(replacement);
+                }
+                facts.actualCapacity = bPCalcCapacity(capacities);
+                facts.worstBlockConductanceHealth = healths.length ? Math.min(...healths) : facts.worstBlockConductanceHealth;
+                // the float voltage follows the new batteries once every string is of one type
+                if (batteryTypes.every((batteryType) => batteryType === batteryTypes[0])) {
+                    facts.primaryBatteryType = await ctx.getStrict('batteryTypes', batteryTypes[0]);
+                }
+            }
+
+            if (scenario.generator && scenario.generator.action === 'remove') {
+                facts.generator = undefined;
+                facts.generatorAutonomy = undefined;
+            }
+            else if (scenario.generator && scenario.generator.action === 'add') {
+                // a full tank, as no fuel level was ever recorded
+                facts.generator = generatorFields(site.id, scenario.generator.details) as ManagedGenerator;
+            }
+            if (facts.generator && (facts.generator !== baselineFacts.generator || facts.load !== baselineFacts.load)) {
+                facts.generatorAutonomy = calcGeneratorAutonomy(facts.generator, facts.load, facts.voltage, companyConfig, routine.date);
+            }
+
+            if (scenario.transmissionConfig) {
+                facts.plantConfig = { ...facts.plantConfig, transmissionConfig: scenario.transmissionConfig };
+            }
+            if (scenario.locationType) {
+                facts.site = { ...facts.site, locationType: scenario.locationType };
+            }
+
+            projections.push(projectionOf(scenario.name || `scenario ${i + 1}`, facts));
+        }
+
+        return {
+            siteNum,
+            plantNum,
+            powerPlant: powerPlant.id,
+            routine: routine.id,
+            date: routine.date,
+            baseline: projectionOf('baseline', baselineFacts),
+            scenarios: projections,
+        };
+    }
+}
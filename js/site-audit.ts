@@ -0,0 +1,64 @@
+import { ChangeSetDiff } from './change-tracker';
+import { regionOf } from './regions';
+
+export interface AuditEntry {
+    action: 'update' | 'create' | 'remove';
+    entity: string;
+    entityId: string;
+    field?: string;
+    prev?: any;
+    new?: any;
+}
+
+interface AuditInfo {
+    submitter?: string;
+    site?: string;
+    powerPlant?: string;
+    // looked up through the site when omitted
+    region?: string;
+    undoOf?: string;
+}
+
+/**
+ * Flattens a change-set diff into one entry per mutated field, plus one per created or
+ * removed document carrying the full document so it can be replayed.
+ */
+export const auditEntriesFromDiff = (diff: ChangeSetDiff): AuditEntry[] => {
+    const entries: AuditEntry[] = [];
+    for (const entity of Object.keys(diff)) {
+        const { updated, created, removed } = diff[entity];
+        for (const { id, changes } of updated) {
+            for (const change of changes) {
+                entries.push({ action: 'update', entity, entityId: id, field: change.field, prev: change.before, new: change.after });
+            }
+        }
+        for (const doc of created) {
+            entries.push({ action: 'create', entity, entityId: doc.id, new: doc });
+        }
+        for (const doc of removed) {
+            entries.push({ action: 'remove', entity, entityId: doc.id, prev: doc });
+        }
+    }
+    return entries;
+};
+
+/**
+ * Writes the change set as an 'audit' log item. The log item id identifies the change set
+ * for UndoSiteUpdateTransaction. Nothing is written when the diff is empty.
+ */
+export const recordAudit = async (ctx, diff: ChangeSetDiff, { submitter, site, powerPlant, region, undoOf }: AuditInfo) => {
+    const auditEntries = auditEntriesFromDiff(diff);
+    if (!auditEntries.length) {
+        return undefined;
+    }
+    return ctx.create('logItems', {
+        submitter,
+        date: new Date(),
+        site,
+        powerPlant,
+        region: region !== undefined ? region : await regionOf(ctx, { site, powerPlant }),
+        type: 'audit',
+        auditEntries,
+        undoOf,
+    });
+};
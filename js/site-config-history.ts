@@ -0,0 +1,72 @@
+import * as moment from 'moment';
+import { SiteConfig } from '../types/site-config';
+import { FieldChange, diffFields } from './change-tracker';
+
+// bookkeeping fields that differ between every pair of versions
+export const versionFields = ['id', 'date', 'isCurrent'];
+
+export interface SiteConfigVersion {
+    config: SiteConfig;
+    validFrom: Date;
+    // start of the next version, undefined for the latest one
+    validTo?: Date;
+    current: boolean;
+    // changes from the previous version, empty for the first one
+    changes: FieldChange[];
+}
+
+export const contentOf = (config: SiteConfig) => {
+    const content: { [field: string]: any } = { ...config };
+    versionFields.forEach((field) => delete content[field]);
+    return content;
+};
+
+export const sortVersions = (configs: SiteConfig[]) =>
+    [...configs].sort((a, b) => moment(a.date).valueOf() - moment(b.date).valueOf());
+
+/**
+ * Field changes between two site config versions, ignoring id, date and isCurrent.
+ */
+export const diffSiteConfigs = (before: SiteConfig, after: SiteConfig) =>
+    diffFields(contentOf(before), contentOf(after));
+
+/**
+ * The version in effect at `date`: the newest one dated at or before it.
+ */
+export const versionAt = (configs: SiteConfig[], date: string | Date) => {
+    const time = moment(date).valueOf();
+    return sortVersions(configs)
+        .filter((config) => moment(config.date).valueOf() <= time)
+        .pop();
+};
+
+/**
+ * Versions oldest first with the period each was in effect and what it changed.
+ */
+export const buildTimeline = (configs: SiteConfig[], now = new Date()): SiteConfigVersion[] => {
+    const sorted = sortVersions(configs);
+    const inEffect = versionAt(configs, now);
+    return sorted.map((config, i) => ({
+        config,
+        validFrom: moment(config.date).toDate(),
+        validTo: sorted[i + 1] ? moment(sorted[i + 1].date).toDate() : undefined,
+        current: config === inEffect,
+        changes: i ? diffSiteConfigs(sorted[i - 1], config) : [],
+    }));
+};
+
+/**
+ * Flags the version in effect now as current and clears the flag on every other one. A
+ * future-dated version is only flagged by the first edit made after its date, so readers
+ * resolve the version in effect with versionAt rather than by the flag.
+ */
+export const markCurrentVersion = (configs: SiteConfig[], now = new Date()) => {
+    const current = versionAt(configs, now);
+    for (const config of configs) {
+        const isCurrent = config === current;
+        if (!!config.isCurrent !== isCurrent) {
+            config.isCurrent = isCurrent;
+        }
+    }
+    return current;
+};
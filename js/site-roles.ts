@@ -0,0 +1,181 @@
+import * as moment from 'moment';
+import { SiteUserAssociation } from '../types/site-user-association';
+import { ChangeSetDiff, FieldChange } from './change-tracker';
+import { NotificationInput } from './notifications';
+import { UpdateSiteError } from './update-site-errors';
+
+export const siteRoles = ['primary-technician', 'backup-technician', 'supervisor', 'contractor'];
+
+// names used in messages, matching the association type labels in the app
+export const siteRoleLabels: { [role: string]: string } = {
+    'primary-technician': 'Primary Technician',
+    'backup-technician': 'Backup Technician',
+    'supervisor': 'Supervisor',
+    'contractor': 'Contractor',
+};
+
+// roles a site has at most one holder of at a time
+const exclusiveRoles = ['primary-technician', 'supervisor'];
+
+export const roleAssignmentActions = ['assign', 'end'];
+
+export interface RoleAssignment {
+    role: string;
+    user: string;
+    // 'assign' by default
+    action?: 'assign' | 'end';
+    startDate?: string | Date;
+    endDate?: string | Date;
+}
+
+// associations created before roles were dated have neither date and count as open-ended
+export type RoleAssociation = SiteUserAssociation & { startDate?: Date, endDate?: Date, region?: string };
+
+export const isActiveAt = (association: RoleAssociation, date: string | Date) => {
+    const time = moment(date).valueOf();
+    return (!association.startDate || moment(association.startDate).valueOf() <= time) &&
+        (!association.endDate || moment(association.endDate).valueOf() > time);
+};
+
+/**
+ * Store filter matching the associations active at `date`, for queries by association type:
+ * a role's earlier holders stay stored with an end date.
+ */
+export const activeAssociationFilter = (date: string | Date) => {
+    const at = moment(date).toDate();
+    return {
+        $and: [
+            { $or: [{ startDate: null }, { startDate: { $lte: at } }] },
+            { $or: [{ endDate: null }, { endDate: { $gt: at } }] },
+        ],
+    };
+};
+
+/**
+ * The role assignments of a general update; the older `primaryTech` field is an assignment
+ * of the primary technician role starting now.
+ */
+export const roleAssignmentsOf = (generalUpdates?: { primaryTech?: string, roleAssignments?: RoleAssignment[] }): RoleAssignment[] => {
+    if (!generalUpdates) {
+        return [];
+    }
+    const assignments = [...(generalUpdates.roleAssignments || [])];
+    if (generalUpdates.primaryTech) {
+        assignments.unshift({ role: 'primary-technician', user: generalUpdates.primaryTech });
+    }
+    return assignments;
+};
+
+/**
+ * Applies role assignments to a site's checked-out associations. Assigning an exclusive role
+ * ends the current holder's association where the new one starts and cancels holders due to
+ * start while it runs; ending a role sets the end date of the user's association that is
+ * active then. Only cancelled associations are removed, so the others keep the history of
+ * who held each role.
+ */
+export const applyRoleAssignments = async (
+    ctx,
+    site: { id: string, siteNum: string, region?: string },
+    associations: RoleAssociation[],
+    roleTypeIds: { [role: string]: string },
+    assignments: RoleAssignment[],
+) => {
+    for (const { role, user, action = 'assign', startDate, endDate } of assignments) {
+        const associationType = roleTypeIds[role];
+        const ofRole = associations.filter((association) => association.associationType === associationType);
+
+        if (action === 'end') {
+            const date = endDate ? moment(endDate).toDate() : new Date();
+            const association = ofRole.find((candidate) => candidate.user === user && isActiveAt(candidate, date));
+            if (!association) {
+                throw new UpdateSiteError(
+                    `Update Site: ${user} is not ${siteRoleLabels[role]} of site ${site.siteNum} on ${date.toISOString()}`,
+                    'ROLE_ASSIGNMENT_NOT_FOUND',
+                    404,
+                    { siteNum: site.siteNum, role, user, date }
+                );
+            }
+            association.endDate = date;
+            continue;
+        }
+
+        const start = startDate ? moment(startDate).toDate() : new Date();
+        const end = endDate ? moment(endDate).toDate() : undefined;
+        const existing = ofRole.find((candidate) => candidate.user === user && isActiveAt(candidate, start));
+        if (existing) {
+            // already holds the role, only the end date can change
+            if (endDate) {
+                existing.endDate = end;
+            }
+            continue;
+        }
+        if (exclusiveRoles.includes(role)) {
+            for (const holder of ofRole.filter((candidate) => isActiveAt(candidate, start))) {
+                holder.endDate = start;
+            }
+            const cancelled = ofRole.filter((candidate) => !!candidate.startDate &&
+                moment(candidate.startDate).isAfter(start) &&
+                (!end || moment(candidate.startDate).isBefore(end)));
+            for (const holder of cancelled) {
+                await ctx.remove(holder);
+                associations.splice(associations.indexOf(holder), 1);
+            }
+        }
+        const created = await ctx.create('siteUserAssociations', {
+            user,
+            site: site.id,
+            associationType,
+            startDate: start,
+            endDate: end,
+            region: site.region,
+        });
+        associations.push(created);
+    }
+};
+
+/**
+ * Notifications for the users whose role on the site an audited change set started or
+ * ended, derived from its site user association changes.
+ */
+export const roleChangeNotifications = (
+    diff: ChangeSetDiff,
+    associations: RoleAssociation[],
+    roleNames: { [associationType: string]: string },
+    site: { id: string, siteNum: string },
+): { users: string[], notification: NotificationInput }[] => {
+    const changes = diff.siteUserAssociations;
+    if (!changes) {
+        return [];
+    }
+    const notificationFor = (association: RoleAssociation, started: boolean) => {
+        const role = roleNames[association.associationType];
+        if (!role) {
+            return undefined;
+        }
+        const label = siteRoleLabels[role] || role;
+        return {
+            users: [association.user],
+            notification: {
+                type: 'site-role',
+                title: started ? `${label} of site ${site.siteNum}` : `No longer ${label} of site ${site.siteNum}`,
+                message: started ?
+                    `You are ${label} of site ${site.siteNum}${association.startDate ? ` from ${moment(association.startDate).format('YYYY-MM-DD')}` : ''}.` :
+                    `Your role as ${label} of site ${site.siteNum} ${association.endDate ? `ends on ${moment(association.endDate).format('YYYY-MM-DD')}` : 'was removed'}.`,
+                site: site.id,
+                context: { role, association: association.id, started },
+            },
+        };
+    };
+    // an end date set or brought forward ends the role, one extended or cleared does not
+    const ends = ({ field, before, after }: FieldChange) => field === 'endDate' && !!after &&
+        (!before || moment(after).isBefore(before));
+    const ended = changes.updated
+        .filter(({ changes: fields }) => fields.some(ends))
+        .map(({ id }) => associations.find((association) => association.id === id))
+        .filter((association) => !!association) as RoleAssociation[];
+    return [
+        ...changes.created.map((association) => notificationFor(association, true)),
+        ...ended.map((association) => notificationFor(association, false)),
+        ...changes.removed.map((association) => notificationFor(association, false)),
+    ].filter((entry) => !!entry) as { users: string[], notification: NotificationInput }[];
+};
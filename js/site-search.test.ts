@@ -0,0 +1,43 @@
+import { findSites } from './site-search';
+
+const sites: Record<string, any> = {
+    s1: { id: 's1', siteNum: 'S1', name: 'North', region: 'd1', location: { type: 'Point', coordinates: [36.82, -1.29] } },
+    s2: { id: 's2', siteNum: 'S2', name: 'East', region: 'd1', location: { type: 'Point', coordinates: [36.9, -1.3] } },
+};
+
+// the store answers the site query with the given ids; plants are out of scope here
+const storeCtx = (siteIds: string[]) => ({
+    queryIds: jest.fn(async (collection: string) => collection === 'sites' ? siteIds : []),
+    getStrict: jest.fn(async (collection: string, id: string) => sites[id]),
+});
+
+describe('findSites', () => {
+    it('asks the store for the nearest sites within the radius and keeps its order', async () => {
+        const ctx = storeCtx(['s2', 's1']);
+        const results = await findSites(ctx, { siteNums: ['S1', 'S2'], near: [36.9, -1.3], radiusKm: 20, nearest: 2 });
+
+        expect(ctx.queryIds).toHaveBeenCalledWith('sites', {
+            filter: {
+                siteNum: { $in: ['S1', 'S2'] },
+                location: { $near: { $geometry: { type: 'Point', coordinates: [36.9, -1.3] }, $maxDistance: 20000 } },
+            },
+            limit: 2,
+        });
+        expect(results.map(({ siteNum }) => siteNum)).toEqual(['S2', 'S1']);
+        expect(results[0].distanceKm).toBe(0);
+        expect(results[1].distanceKm).toBeCloseTo(8.96, 1);
+        expect(ctx.getStrict.mock.calls.filter(([collection]) => collection === 'sites')).toHaveLength(2);
+    });
+
+    it('closes the polygon ring and ranks the sites inside by distance', async () => {
+        const ctx = storeCtx(['s1', 's2']);
+        const polygon: [number, number][] = [[36.7, -1.4], [37, -1.4], [37, -1.2], [36.7, -1.2]];
+        const results = await findSites(ctx, { polygon, near: [36.95, -1.3], nearest: 1 });
+
+        expect(ctx.queryIds).toHaveBeenCalledWith('sites', {
+            filter: { location: { $geoWithin: { $geometry: { type: 'Polygon', coordinates: [[...polygon, polygon[0]]] } } } },
+            sort: { siteNum: 1 },
+        });
+        expect(results.map(({ siteNum }) => siteNum)).toEqual(['S2']);
+    });
+});
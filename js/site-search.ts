@@ -0,0 +1,162 @@
+import { Site } from '../types/site';
+import { PowerPlant } from '../types/power-plant';
+import { Routine } from '../types/routine';
+import { LngLat, siteCoordinates, distanceKm } from './geo';
+import { RegionRollup, descendantRegionCodes } from './regions';
+import { ValidationIssue, isObject, isBlank, checkString, checkEnum, checkNumber, checkStringArray, checkCoords } from './validation';
+
+export interface SiteSearch {
+    // a district or any region above it
+    region?: string;
+    siteNums?: string[];
+    // searches around this point, e.g. a technician's position
+    near?: LngLat;
+    // with `near`, only sites at most this far
+    radiusKm?: number;
+    // with `near`, only this many of the closest sites
+    nearest?: number;
+    // only sites inside this ring of [longitude, latitude] points
+    polygon?: LngLat[];
+}
+
+export interface SitePlantCondition {
+    powerPlant: string;
+    plantNum: string;
+    // condition of the plant's latest routine, unset for plants never visited
+    condition?: number;
+}
+
+export interface SiteSearchResult {
+    site: string;
+    siteNum: string;
+    name: string;
+    region: string;
+    coordinates: LngLat;
+    distanceKm?: number;
+    // worst condition of the site's plants
+    condition?: number;
+    plants: SitePlantCondition[];
+}
+
+/**
+ * Current condition of each plant of a site, from the rollup of the site's district. Plants
+ * the rollup does not know yet fall back to their latest routine.
+ */
+export const plantConditionsOf = async (ctx, site: Site, rollups: Map<string, RegionRollup | undefined>): Promise<SitePlantCondition[]> => {
+    if (site.region && !rollups.has(site.region)) {
+        const [ rollupId ] = await ctx.queryIds('regionRollups', { filter: { region: site.region }, limit: 1 });
+        rollups.set(site.region, rollupId ? await ctx.getStrict('regionRollups', rollupId) : undefined);
+    }
+    const rollup = site.region ? rollups.get(site.region) : undefined;
+    const plantIds: string[] = await ctx.queryIds('powerPlants', { filter: { site: site.id } });
+    const plants: SitePlantCondition[] = [];
+    for (const plantId of plantIds) {
+        const powerPlant: PowerPlant = await ctx.getStrict('powerPlants', plantId);
+        let condition = rollup ? rollup.plants[plantId.toString()] : undefined;
+        if (condition === undefined) {
+            const [ routineId ] = await ctx.queryIds('routines', { filter: { powerPlant: plantId }, sort: { date: -1 }, limit: 1 });
+            const routine: Routine | undefined = routineId ? await ctx.getStrict('routines', routineId) : undefined;
+            condition = routine ? routine.condition : undefined;
+        }
+        plants.push({ powerPlant: powerPlant.id, plantNum: powerPlant.name, condition });
+    }
+    return plants;
+};
+
+// GeoJSON rings repeat their first point at the end
+const closedRing = (polygon: LngLat[]): LngLat[] => {
+    const [ firstLng, firstLat ] = polygon[0];
+    const [ lastLng, lastLat ] = polygon[polygon.length - 1];
+    return firstLng === lastLng && firstLat === lastLat ? polygon : [...polygon, polygon[0]];
+};
+
+/**
+ * Sites matching every given criterion, nearest first when searching around a point and by
+ * site number otherwise. Sites without a location never match. The geospatial criteria are
+ * answered by the 2dsphere index on `location` (see schemas/site-location.ts), so only the
+ * matching sites are loaded.
+ */
+export const findSites = async (ctx, { region, siteNums, near, radiusKm, nearest, polygon }: SiteSearch): Promise<SiteSearchResult[]> => {
+    const filter: Record<string, any> = siteNums && siteNums.length ?
+        { siteNum: { $in: siteNums } } :
+        region ? { region: { $in: await descendantRegionCodes(ctx, region) } } : {};
+    let query: Record<string, any>;
+    if (polygon) {
+        // $near cannot be combined with $geoWithin, so sites inside are ranked by distance below
+        filter.location = { $geoWithin: { $geometry: { type: 'Polygon', coordinates: [closedRing(polygon)] } } };
+        query = { filter, sort: { siteNum: 1 } };
+    } else if (near) {
+        const geometry = { $geometry: { type: 'Point', coordinates: near } };
+        filter.location = { $near: radiusKm !== undefined ? { ...geometry, $maxDistance: radiusKm * 1000 } : geometry };
+        query = nearest ? { filter, limit: nearest } : { filter };
+    } else {
+        filter.location = { $exists: true };
+        query = { filter, sort: { siteNum: 1 } };
+    }
+    const siteIds: string[] = await ctx.queryIds('sites', query);
+
+    let candidates: { site: Site, coordinates: LngLat, distanceKm?: number }[] = [];
+    for (const siteId of siteIds) {
+        const site: Site = await ctx.getStrict('sites', siteId);
+        const coordinates = siteCoordinates(site);
+        if (coordinates) {
+            candidates.push({ site, coordinates, distanceKm: near ? distanceKm(near, coordinates) : undefined });
+        }
+    }
+    if (polygon && near) {
+        candidates = candidates
+            .filter(({ distanceKm: distance }) => radiusKm === undefined || distance! <= radiusKm)
+            .sort((a, b) => a.distanceKm! - b.distanceKm!)
+            .slice(0, nearest || candidates.length);
+    }
+
+    const rollups = new Map<string, RegionRollup | undefined>();
+    const results: SiteSearchResult[] = [];
+    for (const { site, coordinates, distanceKm: distance } of candidates) {
+        const plants = await plantConditionsOf(ctx, site, rollups);
+        const conditions = plants.map(({ condition }) => condition).filter((condition): condition is number => condition !== undefined);
+        results.push({
+            site: site.id,
+            siteNum: site.siteNum,
+            name: site.name,
+            region: site.region,
+            coordinates,
+            distanceKm: distance,
+            condition: conditions.length ? Math.max(...conditions) : undefined,
+            plants,
+        });
+    }
+    return results;
+};
+
+export const mapExportFormats = ['geojson', 'kml'];
+
+/**
+ * Checks the criteria of a SearchSitesTransaction or ExportSitesMapTransaction.
+ */
+export const validateSiteSearch = (input: any): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    if (!isObject(input)) {
+        return [{ path: '', code: 'invalid_type', message: 'input must be an object' }];
+    }
+    checkString(issues, 'region', input.region);
+    checkStringArray(issues, 'siteNums', input.siteNums);
+    checkCoords(issues, 'near', input.near);
+    checkNumber(issues, 'radiusKm', input.radiusKm, [0, 20100]);
+    checkNumber(issues, 'nearest', input.nearest, [1, 1000]);
+    for (const field of ['radiusKm', 'nearest']) {
+        if (!isBlank(input[field]) && isBlank(input.near)) {
+            issues.push({ path: 'near', code: 'required', message: `near is required with ${field}` });
+        }
+    }
+    if (!isBlank(input.polygon)) {
+        if (!Array.isArray(input.polygon) || input.polygon.length < 3) {
+            issues.push({ path: 'polygon', code: 'invalid_type', message: 'polygon must be an array of at least 3 [longitude, latitude] points' });
+        }
+        else {
+            input.polygon.forEach((point: any, i: number) => checkCoords(issues, `polygon[${i}]`, point));
+        }
+    }
+    checkEnum(issues, 'format', input.format, mapExportFormats);
+    return issues;
+};
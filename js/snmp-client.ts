@@ -0,0 +1,79 @@
+import * as snmp from 'net-snmp';
+
+export const snmpVersions = ['1', '2c'];
+
+/**
+ * Where a plant controller's SNMP agent listens, stored on live plant configs.
+ */
+export interface SnmpTarget {
+    host: string;
+    port?: number;
+    community?: string;
+    version?: '1' | '2c';
+    // milliseconds per request
+    timeout?: number;
+}
+
+export type SnmpValue = number | string;
+
+export interface SnmpClient {
+    // values of the oids that answered; oids the agent does not know are left out
+    get: (oids: string[]) => Promise<{ [oid: string]: SnmpValue }>;
+    close: () => void;
+}
+
+export type SnmpClientFactory = (target: SnmpTarget) => SnmpClient;
+
+// controllers drop oversized requests, so oids are asked for a few at a time
+const oidsPerRequest = 20;
+
+const valueOf = (value: any): SnmpValue =>
+    Buffer.isBuffer(value) ? value.toString() : value;
+
+/**
+ * SNMP v1/v2c client for plant controllers.
+ */
+export const createNetSnmpClient: SnmpClientFactory = ({ host, port = 161, community = 'public', version = '2c', timeout = 5000 }) => {
+    const session = snmp.createSession(host, community, {
+        port,
+        timeout,
+        retries: 1,
+        version: version === '1' ? snmp.Version1 : snmp.Version2c,
+    });
+    const request = (oids: string[]) => new Promise<{ [oid: string]: SnmpValue }>((resolve, reject) => {
+        session.get(oids, (error, varbinds) => {
+            if (error) {
+                reject(error);
+                return;
+            }
+            const values: { [oid: string]: SnmpValue } = {};
+            for (const varbind of varbinds) {
+                if (!snmp.isVarbindError(varbind)) {
+                    values[varbind.oid] = valueOf(varbind.value);
+                }
+            }
+            resolve(values);
+        });
+    });
+    return {
+        get: async (oids) => {
+            const values: { [oid: string]: SnmpValue } = {};
+            for (let i = 0; i < oids.length; i += oidsPerRequest) {
+                Object.assign(values, await request(oids.slice(i, i + oidsPerRequest)));
+            }
+            return values;
+        },
+        close: () => session.close(),
+    };
+};
+
+let clientFactory: SnmpClientFactory | undefined;
+
+export const getSnmpClientFactory = () => clientFactory || createNetSnmpClient;
+
+/**
+ * Replaces how plant controllers are reached, e.g. with a simulated client in tests.
+ */
+export const configureSnmpClientFactory = (factory: SnmpClientFactory | undefined) => {
+    clientFactory = factory;
+};
@@ -0,0 +1,94 @@
+import { SnmpOidMap, oidsOf, readPoll } from './snmp-oid-maps';
+import { createNetSnmpClient } from './snmp-client';
+import { createSimulatedSnmpClientFactory, startSnmpAgentSimulator } from './snmp-simulator';
+
+const oidMap: SnmpOidMap = {
+    id: 'map1',
+    model: 'RX-48',
+    readings: {
+        load: { oid: '1.3.6.1.4.1.9999.1.1.0', scale: 0.1 },
+        voltage: { oid: '1.3.6.1.4.1.9999.1.2.0', scale: 0.01 },
+        temperature: { oid: '1.3.6.1.4.1.9999.1.3.0' },
+    },
+    strings: {
+        voltage: { oid: '1.3.6.1.4.1.9999.2.{string}.1.0', scale: 0.01 },
+        current: { oid: '1.3.6.1.4.1.9999.2.{string}.2.0', scale: 0.1 },
+    },
+};
+
+const controller = {
+    '1.3.6.1.4.1.9999.1.1.0': 425,
+    '1.3.6.1.4.1.9999.1.2.0': 5410,
+    '1.3.6.1.4.1.9999.1.3.0': '24',
+    '1.3.6.1.4.1.9999.2.1.1.0': 5405,
+    '1.3.6.1.4.1.9999.2.1.2.0': -12,
+    '1.3.6.1.4.1.9999.2.2.1.0': 5398,
+};
+
+describe('oidsOf', () => {
+    it('lists the plant oids and the string oids of every string', () => {
+        expect(oidsOf(oidMap, 2)).toEqual([
+            '1.3.6.1.4.1.9999.1.1.0',
+            '1.3.6.1.4.1.9999.1.2.0',
+            '1.3.6.1.4.1.9999.1.3.0',
+            '1.3.6.1.4.1.9999.2.1.1.0',
+            '1.3.6.1.4.1.9999.2.1.2.0',
+            '1.3.6.1.4.1.9999.2.2.1.0',
+            '1.3.6.1.4.1.9999.2.2.2.0',
+        ]);
+    });
+});
+
+describe('readPoll', () => {
+    const date = new Date('2024-03-01T10:00:00Z');
+
+    it('scales what a simulated controller answers into plant and string readings', async () => {
+        const client = createSimulatedSnmpClientFactory({ '10.0.0.5': controller })({ host: '10.0.0.5' });
+        const poll = readPoll(await client.get(oidsOf(oidMap, 3)), oidMap, 3, date);
+        expect(poll.date).toBe(date);
+        expect(poll.readings.load).toBeCloseTo(42.5);
+        expect(poll.readings.voltage).toBeCloseTo(54.1);
+        expect(poll.readings.temperature).toBe(24);
+        // string 3 reported nothing and is left out
+        expect(poll.strings).toHaveLength(2);
+        expect(poll.strings[0].string).toBe(1);
+        expect(poll.strings[0].voltage).toBeCloseTo(54.05);
+        expect(poll.strings[0].current).toBeCloseTo(-1.2);
+        expect(poll.strings[1]).toEqual({ string: 2, voltage: expect.closeTo(53.98) });
+        expect(poll.discarded).toEqual({});
+    });
+
+    it('discards plant readings outside the plausible range and skips unreadable values', () => {
+        const poll = readPoll({
+            '1.3.6.1.4.1.9999.1.1.0': 425,
+            '1.3.6.1.4.1.9999.1.2.0': 99999,
+            '1.3.6.1.4.1.9999.1.3.0': 'n/a',
+        }, oidMap, 1, date);
+        expect(poll.readings).toEqual({ load: expect.closeTo(42.5) });
+        expect(poll.discarded).toEqual({ voltage: expect.closeTo(999.99) });
+        expect(poll.strings).toEqual([]);
+    });
+
+    it('fails like an unreachable controller for hosts the simulator does not know', async () => {
+        const client = createSimulatedSnmpClientFactory({})({ host: '10.0.0.6' });
+        await expect(client.get(oidsOf(oidMap, 1))).rejects.toThrow('Request timed out: 10.0.0.6');
+    });
+
+    it('reads a simulated agent over SNMP', async () => {
+        const agent = startSnmpAgentSimulator({ port: 16161, values: controller });
+        const client = createNetSnmpClient({ host: '127.0.0.1', port: 16161, timeout: 2000 });
+        try {
+            const poll = readPoll(await client.get(oidsOf(oidMap, 2)), oidMap, 2, date);
+            expect(poll.readings.load).toBeCloseTo(42.5);
+            expect(poll.readings.temperature).toBe(24);
+            expect(poll.strings.map(({ string }) => string)).toEqual([1, 2]);
+
+            agent.set('1.3.6.1.4.1.9999.1.1.0', 300);
+            const next = readPoll(await client.get(oidsOf(oidMap, 2)), oidMap, 2, date);
+            expect(next.readings.load).toBeCloseTo(30);
+        } finally {
+            client.close();
+            agent.close();
+        }
+    });
+});
@@ -0,0 +1,104 @@
+import { SnmpValue } from './snmp-client';
+import { readingRanges } from './validation';
+
+export interface OidSpec {
+    oid: string;
+    // multiplies the raw value, e.g. 0.1 for controllers reporting decivolts
+    scale?: number;
+}
+
+// plant readings and per-string battery readings a controller can report
+export const snmpPlantReadings = ['load', 'voltage', 'temperature'];
+export const snmpStringReadings = ['voltage', 'current', 'temperature'];
+
+/**
+ * Where a power plant type's controller reports its readings. String oids contain
+ * `{string}`, replaced with the 1-based battery string number.
+ */
+export interface SnmpOidMap {
+    id: string;
+    // powerPlantType.model the map applies to
+    model: string;
+    readings: { [readingType: string]: OidSpec };
+    strings?: { [field: string]: OidSpec };
+}
+
+export interface SnmpStringReading {
+    // 1-based
+    string: number;
+    // voltage, current and temperature, as far as reported
+    [field: string]: number;
+}
+
+export interface SnmpPoll {
+    date: Date;
+    // load, voltage and temperature, as far as reported
+    readings: { [readingType: string]: number };
+    strings: SnmpStringReading[];
+    // readings dropped for being outside the plausible range, by reading type
+    discarded: { [readingType: string]: number };
+}
+
+export const findOidMap = async (ctx, model: string): Promise<SnmpOidMap | undefined> => {
+    const [ mapId ] = await ctx.queryIds('snmpOidMaps', { filter: { model }, limit: 1 });
+    return mapId ? ctx.getStrict('snmpOidMaps', mapId) : undefined;
+};
+
+/**
+ * The bucket reading type holding a per-string series, e.g. 'string2.voltage'.
+ */
+export const stringReadingType = (string: number, field: string) => `string${string}.${field}`;
+
+const stringOid = ({ oid }: OidSpec, string: number) => oid.replace('{string}', string.toString());
+
+/**
+ * Every oid to request from a controller with `stringCount` battery strings.
+ */
+export const oidsOf = (oidMap: SnmpOidMap, stringCount: number) => {
+    const oids = Object.keys(oidMap.readings).map((readingType) => oidMap.readings[readingType].oid);
+    const strings = oidMap.strings || {};
+    for (let string = 1; string <= stringCount; string++) {
+        Object.keys(strings).forEach((field) => oids.push(stringOid(strings[field], string)));
+    }
+    return oids;
+};
+
+const scaled = (value: SnmpValue | undefined, { scale = 1 }: OidSpec) => {
+    const number = typeof value === 'number' ? value : parseFloat(value || '');
+    return isNaN(number) ? undefined : number * scale;
+};
+
+/**
+ * Turns the values a controller answered into readings. Plant readings outside the bounds
+ * used for manual entry are discarded, as they come from faulty sensors.
+ */
+export const readPoll = (values: { [oid: string]: SnmpValue }, oidMap: SnmpOidMap, stringCount: number, date = new Date()): SnmpPoll => {
+    const poll: SnmpPoll = { date, readings: {}, strings: [], discarded: {} };
+    for (const readingType of snmpPlantReadings) {
+        const spec = oidMap.readings[readingType];
+        const value = spec ? scaled(values[spec.oid], spec) : undefined;
+        if (value === undefined) {
+            continue;
+        }
+        const [min, max] = readingRanges[readingType];
+        if (value < min || value > max) {
+            poll.discarded[readingType] = value;
+            continue;
+        }
+        poll.readings[readingType] = value;
+    }
+    const strings = oidMap.strings || {};
+    for (let string = 1; string <= stringCount; string++) {
+        const reading: SnmpStringReading = { string };
+        for (const field of snmpStringReadings) {
+            const value = strings[field] ? scaled(values[stringOid(strings[field], string)], strings[field]) : undefined;
+            if (value !== undefined) {
+                reading[field] = value;
+            }
+        }
+        if (Object.keys(reading).length > 1) {
+            poll.strings.push(reading);
+        }
+    }
+    return poll;
+};
@@ -0,0 +1,78 @@
+import * as snmp from 'net-snmp';
+import createLogger from '../../logger';
+import { SnmpClientFactory, SnmpValue } from './snmp-client';
+
+const logger = createLogger({ label: 'SNMP Simulator' });
+
+export interface SimulatedAgents {
+    // agent values by host, then by oid
+    [host: string]: { [oid: string]: SnmpValue };
+}
+
+/**
+ * Answers SNMP requests from memory, for tests that do not need a socket. Hosts without
+ * values fail like an unreachable controller. Values may be changed between polls.
+ */
+export const createSimulatedSnmpClientFactory = (agents: SimulatedAgents): SnmpClientFactory => ({ host }) => ({
+    get: async (oids) => {
+        const values = agents[host];
+        if (!values) {
+            throw new Error(`Request timed out: ${host}`);
+        }
+        const answered: { [oid: string]: SnmpValue } = {};
+        oids.filter((oid) => values[oid] !== undefined).forEach((oid) => {
+            answered[oid] = values[oid];
+        });
+        return answered;
+    },
+    close: () => undefined,
+});
+
+export interface SnmpAgentSimulator {
+    port: number;
+    set: (oid: string, value: SnmpValue) => void;
+    close: () => void;
+}
+
+/**
+ * Runs an SNMP v2c agent on localhost answering the given scalar oids (ending in .0), so the
+ * net-snmp client can be exercised end to end. Numbers are served as integers, the way
+ * controllers report scaled readings.
+ */
+export const startSnmpAgentSimulator = (
+    { port = 1161, community = 'public', values = {} }: { port?: number, community?: string, values?: { [oid: string]: SnmpValue } } = {},
+): SnmpAgentSimulator => {
+    const agent = snmp.createAgent({ port, accessControlModelType: snmp.AccessControlModelType.None }, (error) => {
+        if (error) {
+            logger.error(error);
+        }
+    });
+    agent.getAuthorizer().addCommunity(community);
+    const mib = agent.getMib();
+    const registered = new Set<string>();
+
+    const set = (oid: string, value: SnmpValue) => {
+        if (!/\.0$/.test(oid)) {
+            throw new Error(`SNMP Simulator: ${oid} is not a scalar instance`);
+        }
+        const name = `simulated.${oid}`;
+        if (!registered.has(name)) {
+            mib.registerProvider({
+                name,
+                type: snmp.MibProviderType.Scalar,
+                oid: oid.replace(/\.0$/, ''),
+                scalarType: typeof value === 'number' ? snmp.ObjectType.Integer : snmp.ObjectType.OctetString,
+                maxAccess: snmp.MaxAccess['read-only'],
+            });
+            registered.add(name);
+        }
+        mib.setScalarValue(name, typeof value === 'number' ? Math.round(value) : value);
+    };
+
+    Object.keys(values).forEach((oid) => set(oid, values[oid]));
+    return {
+        port,
+        set,
+        close: () => agent.close(),
+    };
+};
@@ -0,0 +1,16 @@
+import { UpdateSiteError } from './update-site-errors';
+
+export interface ErrorBody {
+    code: string;
+    message: string;
+    context?: any;
+}
+
+/**
+ * What a client sees of an error: the code, message and context of an UpdateSiteError, and
+ * nothing of unexpected errors beyond the fact they happened. The HTTP status to answer with
+ * is `httpStatusFor(error)`.
+ */
+export const errorBody = (error: any): ErrorBody => error instanceof UpdateSiteError ?
+    error.toJSON() :
+    { code: 'UNEXPECTED_ERROR', message: 'Unexpected error' };
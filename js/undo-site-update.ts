@@ -0,0 +1,100 @@
+import Transaction, { CheckoutCtx, OperationCtx } from './_base';
+import { Store } from '..';
+import ChangeTracker, { ChangeSetDiff, getField, setField, isEqual } from './change-tracker';
+import { AuditEntry, recordAudit } from './site-audit';
+import { versionedCollections } from './versioning';
+import { ChangeSetNotFoundError, UndoConflictError } from './update-site-errors';
+
+type UndoSiteUpdateTransactionInput = {
+    changeSet: string;
+    submitter?: string;
+};
+
+type CCtx = CheckoutCtx<Store, UndoSiteUpdateTransactionInput>;
+type OCtx = OperationCtx<
+    Store,
+    UndoSiteUpdateTransactionInput,
+    UndoSiteUpdateTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
+        D : never
+>;
+
+const entityKey = (entity: string, entityId: string) => `${entity}:${entityId}`;
+
+/**
+ * Reverts an audited change set: field updates are set back to their previous value,
+ * created documents are removed and removed documents are created again. Every field must
+ * still hold the value the change set wrote, otherwise the undo is refused with a conflict.
+ *
+ * The undo is itself audited, with `undoOf` pointing at the change set it reverted.
+ */
+export default class UndoSiteUpdateTransaction extends Transaction<UndoSiteUpdateTransactionInput, ChangeSetDiff> {
+    protected async checkout ({ checkout, input }: CCtx) {
+        const { changeSet } = input;
+        const auditLog = await checkout('logItems', changeSet).catch(() => undefined);
+        if (!auditLog || auditLog.type !== 'audit' || !auditLog.auditEntries) {
+            throw new ChangeSetNotFoundError(changeSet);
+        }
+        if (auditLog.undoneBy) {
+            throw new UndoConflictError({ changeSet, entity: 'logItems', entityId: changeSet, reason: 'already undone' });
+        }
+
+        const entries: AuditEntry[] = auditLog.auditEntries;
+        const entities: { [key: string]: any } = {};
+        for (const { action, entity, entityId } of entries) {
+            const key = entityKey(entity, entityId);
+            if (action === 'remove' || entities[key]) {
+                continue;
+            }
+            entities[key] = await checkout(entity as any, entityId).catch(() => {
+                throw new UndoConflictError({ changeSet, entity, entityId, reason: 'no longer exists' });
+            });
+        }
+
+        return {
+            auditLog,
+            entries,
+            entities,
+        };
+    }
+
+    protected async operation (ctx: OCtx): Promise<ChangeSetDiff> {
+        const { auditLog, entries, entities } = ctx.data;
+        const { changeSet, submitter } = ctx.input;
+
+        const tracker = new ChangeTracker({}, {});
+        for (const key of Object.keys(entities)) {
+            tracker.watch(key.split(':')[0], entities[key]);
+        }
+        const tracked = tracker.track(ctx);
+
+        for (const entry of [...entries].reverse()) {
+            const { action, entity, entityId, field } = entry;
+            const doc = entities[entityKey(entity, entityId)];
+            if (action === 'update') {
+                const current = getField(doc, field!);
+                if (!isEqual(current, entry.new)) {
+                    throw new UndoConflictError({ changeSet, entity, entityId, field, expected: entry.new, current });
+                }
+                setField(doc, field!, entry.prev);
+            }
+            else if (action === 'create') {
+                await tracked.remove(doc);
+            }
+            else {
+                const { id, ...prev } = entry.prev;
+                await tracked.create(entity as any, prev);
+            }
+        }
+
+        const diff = await tracker.diff();
+        tracker.bumpVersions(diff, versionedCollections);
+        const undoLog = await recordAudit(ctx, diff, {
+            submitter,
+            site: auditLog.site,
+            powerPlant: auditLog.powerPlant,
+            undoOf: changeSet,
+        });
+        auditLog.undoneBy = undoLog ? undoLog.id : undefined;
+        return diff;
+    }
+}
@@ -0,0 +1,169 @@
+import { ValidationIssue } from './validation';
+
+export interface UpdateSiteErrorContext {
+    siteNum?: string;
+    plantNum?: string;
+    readingType?: string;
+    date?: string | Date;
+    [key: string]: any;
+}
+
+/**
+ * Base class for errors raised while updating a site. `code` is stable and safe for
+ * clients to switch on, `status` is the HTTP status the API should answer with.
+ */
+export class UpdateSiteError extends Error {
+    code: string;
+    status: number;
+    context: UpdateSiteErrorContext;
+
+    constructor (message: string, code: string, status: number, context: UpdateSiteErrorContext = {}) {
+        super(message);
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = new.target.name;
+        this.code = code;
+        this.status = status;
+        this.context = context;
+    }
+
+    toJSON () {
+        return {
+            code: this.code,
+            message: this.message,
+            context: this.context,
+        };
+    }
+}
+
+export class SiteNotFoundError extends UpdateSiteError {
+    constructor (siteNum: string) {
+        super(`Update Site Transaction: no site id found for site ${siteNum}`, 'SITE_NOT_FOUND', 404, { siteNum });
+    }
+}
+
+export class PlantNotFoundError extends UpdateSiteError {
+    constructor (siteNum: string, plantNum: string) {
+        super(`Update Site: no plant ${plantNum} on site ${siteNum}`, 'PLANT_NOT_FOUND', 404, { siteNum, plantNum });
+    }
+}
+
+export class PlantConfigNotFoundError extends UpdateSiteError {
+    // without a date, the plant has no current config
+    constructor (siteNum: string, plantNum: string, date?: string | Date) {
+        super(
+            `Update Site: plant ${plantNum} on site ${siteNum} has no ${date ? `config on ${date}` : 'current config'}`,
+            'PLANT_CONFIG_NOT_FOUND',
+            404,
+            { siteNum, plantNum, date }
+        );
+    }
+}
+
+export class CompanyConfigNotFoundError extends UpdateSiteError {
+    constructor () {
+        super('Company Config: there is no current company config', 'COMPANY_CONFIG_NOT_FOUND', 404, {});
+    }
+}
+
+export class RoutineNotFoundError extends UpdateSiteError {
+    constructor (siteNum: string, plantNum: string, date: string | Date) {
+        super(`Update Site Transaction: no routine found for plant ${plantNum} on ${date}`, 'ROUTINE_NOT_FOUND', 404, { siteNum, plantNum, date });
+    }
+}
+
+export class AssociationTypeNotFoundError extends UpdateSiteError {
+    constructor (associationType: string) {
+        super(`No association type "${associationType}" found.`, 'ASSOCIATION_TYPE_NOT_FOUND', 404, { associationType });
+    }
+}
+
+export class SiteConfigNotFoundError extends UpdateSiteError {
+    constructor (siteNum: string, date: string | Date) {
+        super(`No site config found for site ${siteNum} on ${date}`, 'SITE_CONFIG_NOT_FOUND', 404, { siteNum, date });
+    }
+}
+
+export class GeneratorStateError extends UpdateSiteError {
+    constructor (siteNum: string, generatorAction: string) {
+        super(`Update Site: cannot ${generatorAction} generator on site ${siteNum}`, 'GENERATOR_STATE_CONFLICT', 409, { siteNum, generatorAction });
+    }
+}
+
+export class ReadingNotFoundError extends UpdateSiteError {
+    constructor (context: { siteNum?: string, plantNum?: string, readingType: string, date: string | Date }) {
+        super(`Update Site: no record found of type ${context.readingType} on ${context.date}`, 'READING_NOT_FOUND', 422, context);
+    }
+}
+
+export class ReadingTypeNotFoundError extends UpdateSiteError {
+    constructor (context: { siteNum?: string, plantNum?: string, readingType: string }) {
+        super(`Update Site: no reading type of ${context.readingType} on PlantRecord`, 'READING_TYPE_NOT_FOUND', 422, context);
+    }
+}
+
+export class RectifiersRequiredError extends UpdateSiteError {
+    constructor (context: { siteNum?: string, plantNum?: string }) {
+        super('rectifiers are required when adding readings', 'RECTIFIERS_REQUIRED', 422, context);
+    }
+}
+
+export class ChangeSetNotFoundError extends UpdateSiteError {
+    constructor (changeSet: string) {
+        super(`Undo Site Update: no audit change set ${changeSet}`, 'CHANGE_SET_NOT_FOUND', 404, { changeSet });
+    }
+}
+
+export class UndoConflictError extends UpdateSiteError {
+    constructor (context: { changeSet: string, entity: string, entityId: string, field?: string, expected?: any, current?: any, reason?: string }) {
+        super(
+            `Undo Site Update: ${context.entity} ${context.entityId} ${context.field ? `field ${context.field} ` : ''}changed since change set ${context.changeSet}`,
+            'UNDO_CONFLICT',
+            409,
+            context
+        );
+    }
+}
+
+export class RegionNotFoundError extends UpdateSiteError {
+    constructor (region: string) {
+        super(`Region: no region ${region}`, 'REGION_NOT_FOUND', 404, { region });
+    }
+}
+
+export class VersionConflictError extends UpdateSiteError {
+    constructor (context: { entity: string, entityId: string, expectedVersion: number, currentVersion: number, current: any }) {
+        super(
+            `Update Site: ${context.entity} ${context.entityId} is at version ${context.currentVersion}, not ${context.expectedVersion}`,
+            'VERSION_CONFLICT',
+            409,
+            context
+        );
+    }
+}
+
+export class SiteUpdatedInBatchError extends UpdateSiteError {
+    constructor (siteNum: string, row: number) {
+        super(`Bulk Update Site: site ${siteNum} was already updated by row ${row} of the batch`, 'SITE_UPDATED_IN_BATCH', 409, { siteNum, row });
+    }
+}
+
+export class UpdateSiteValidationError extends UpdateSiteError {
+    issues: ValidationIssue[];
+
+    constructor (issues: ValidationIssue[]) {
+        super(
+            `Update Site Transaction: invalid input (${issues.map(({ path }) => path).join(', ')})`,
+            'INVALID_INPUT',
+            422,
+            { issues }
+        );
+        this.issues = issues;
+    }
+}
+
+/**
+ * HTTP status for any error thrown from the update-site flow; anything that is not an
+ * UpdateSiteError is unexpected and answered with a 500.
+ */
+export const httpStatusFor = (error: any): number =>
+    error instanceof UpdateSiteError ? error.status : 500;
@@ -0,0 +1,45 @@
+import { validateUpdateSiteInput, assertValidUpdateSiteInput } from './update-site-validation';
+import { UpdateSiteValidationError } from './update-site-errors';
+
+const paths = (input: any) => validateUpdateSiteInput(input).map(({ path, code }) => `${path}:${code}`);
+
+describe('validateUpdateSiteInput', () => {
+    it('accepts a site update with blank optional fields', () => {
+        expect(paths({ siteUpdates: { siteNum: 'S1', name: '', coords: [36.82, -1.29] }, submitter: 'ops' })).toEqual([]);
+    });
+
+    it('reports every problem with the path of its field', () => {
+        expect(paths({
+            siteUpdates: { siteNum: 'S1', locationType: 'suburban', coords: [-1.29, 236.82] },
+            plantUpdates: { latestReading: { load: -5, voltage: '53' } },
+            routineUpdates: { date: '01/03/2024' },
+            generalUpdates: { roleAssignments: [{ role: 'supervisor', user: 'u1', startDate: '2024-03-02', endDate: '2024-03-01' }] },
+            expectedVersion: { site: 1.5 },
+        })).toEqual([
+            'siteUpdates.locationType:invalid_enum',
+            'siteUpdates.coords[1]:out_of_range',
+            'plantUpdates.plantNum:required',
+            'plantUpdates.latestReading.load:out_of_range',
+            'plantUpdates.latestReading.voltage:invalid_type',
+            'routineUpdates.date:invalid_date',
+            'generalUpdates.roleAssignments[0].endDate:out_of_range',
+            'expectedVersion.site:invalid_type',
+        ]);
+    });
+
+    it('requires the site section', () => {
+        expect(paths({})).toEqual(['siteUpdates:required']);
+        expect(paths('S1')).toEqual([':invalid_type']);
+    });
+});
+
+describe('assertValidUpdateSiteInput', () => {
+    it('throws the issues as a 422 validation error', () => {
+        expect(() => assertValidUpdateSiteInput({ siteUpdates: {} })).toThrow(UpdateSiteValidationError);
+        try {
+            assertValidUpdateSiteInput({ siteUpdates: {} });
+        } catch (error) {
+            expect(error).toMatchObject({ code: 'INVALID_INPUT', status: 422, issues: [{ path: 'siteUpdates.siteNum', code: 'required' }] });
+        }
+    });
+});
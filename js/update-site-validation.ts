@@ -0,0 +1,134 @@
+import * as moment from 'moment';
+import { UpdateSiteValidationError } from './update-site-errors';
+import { checkGeneratorDetails } from './generator-lifecycle';
+import { siteRoles, roleAssignmentActions } from './site-roles';
+import {
+    ValidationIssue, readingRanges, isObject, isBlank, checkString, checkEnum, checkNumber, checkDate, checkStringArray, checkCoords, checkSection,
+} from './validation';
+
+export const locationTypes = ['urban', 'rural'];
+export const generatorActions = ['add', 'remove', 'replace'];
+
+const checkReading = (issues: ValidationIssue[], path: string, value: any) => {
+    if (isBlank(value)) {
+        return;
+    }
+    if (!isObject(value)) {
+        issues.push({ path, code: 'invalid_type', message: `${path} must be an object` });
+        return;
+    }
+    for (const readingType of Object.keys(readingRanges)) {
+        checkNumber(issues, `${path}.${readingType}`, value[readingType], readingRanges[readingType]);
+    }
+};
+
+/**
+ * Checks an UpdateSiteTransaction input and returns every problem found, with the path of
+ * the offending field. Blank optional values are allowed since the transaction skips them.
+ */
+export const validateUpdateSiteInput = (input: any): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    if (!isObject(input)) {
+        return [{ path: '', code: 'invalid_type', message: 'input must be an object' }];
+    }
+    const { siteUpdates, plantUpdates, routineUpdates, batteryUpdates, generalUpdates } = input;
+
+    if (checkSection(issues, 'siteUpdates', siteUpdates, true)) {
+        checkString(issues, 'siteUpdates.siteNum', siteUpdates.siteNum, true);
+        checkEnum(issues, 'siteUpdates.locationType', siteUpdates.locationType, locationTypes);
+        checkEnum(issues, 'siteUpdates.generatorAction', siteUpdates.generatorAction, generatorActions);
+        checkCoords(issues, 'siteUpdates.coords', siteUpdates.coords);
+        for (const field of ['name', 'region', 'address', 'generator', 'accessInstructions', 'notes']) {
+            checkString(issues, `siteUpdates.${field}`, siteUpdates[field]);
+        }
+        if (checkSection(issues, 'siteUpdates.generatorDetails', siteUpdates.generatorDetails)) {
+            checkGeneratorDetails(issues, 'siteUpdates.generatorDetails', siteUpdates.generatorDetails);
+        }
+    }
+
+    if (checkSection(issues, 'plantUpdates', plantUpdates)) {
+        checkString(issues, 'plantUpdates.plantNum', plantUpdates.plantNum, true);
+        checkReading(issues, 'plantUpdates.latestReading', plantUpdates.latestReading);
+        checkString(issues, 'plantUpdates.transmission', plantUpdates.transmission);
+        checkString(issues, 'plantUpdates.serviceLevel', plantUpdates.serviceLevel);
+        checkStringArray(issues, 'plantUpdates.technologyFlags', plantUpdates.technologyFlags);
+    }
+
+    if (checkSection(issues, 'routineUpdates', routineUpdates)) {
+        checkDate(issues, 'routineUpdates.date', routineUpdates.date, true);
+        checkReading(issues, 'routineUpdates.latestReading', routineUpdates.latestReading);
+    }
+
+    if (checkSection(issues, 'batteryUpdates', batteryUpdates)) {
+        const { serialNumbers, batteriesIdsSupplimental } = batteryUpdates;
+        if (!isBlank(serialNumbers) && !Array.isArray(serialNumbers)) {
+            issues.push({ path: 'batteryUpdates.serialNumbers', code: 'invalid_type', message: 'batteryUpdates.serialNumbers must be an array' });
+        }
+        else if (serialNumbers) {
+            serialNumbers.forEach((update: any, i: number) => {
+                const path = `batteryUpdates.serialNumbers[${i}]`;
+                if (!checkSection(issues, path, update, true)) {
+                    return;
+                }
+                checkString(issues, `${path}.batteryId`, update.batteryId, true);
+                // the format depends on the battery type and is checked by the serial registry
+                checkString(issues, `${path}.serialNumber`, update.serialNumber, true);
+            });
+        }
+        checkEnum(issues, 'batteryUpdates.onConflict', batteryUpdates.onConflict, ['reject', 'flag']);
+        checkStringArray(issues, 'batteryUpdates.batteriesIdsSupplimental', batteriesIdsSupplimental);
+    }
+
+    if (checkSection(issues, 'generalUpdates', generalUpdates)) {
+        checkString(issues, 'generalUpdates.primaryTech', generalUpdates.primaryTech);
+        const { roleAssignments } = generalUpdates;
+        if (!isBlank(roleAssignments) && !Array.isArray(roleAssignments)) {
+            issues.push({ path: 'generalUpdates.roleAssignments', code: 'invalid_type', message: 'generalUpdates.roleAssignments must be an array' });
+        }
+        else if (roleAssignments) {
+            roleAssignments.forEach((assignment: any, i: number) => {
+                const path = `generalUpdates.roleAssignments[${i}]`;
+                if (!checkSection(issues, path, assignment, true)) {
+                    return;
+                }
+                checkString(issues, `${path}.role`, assignment.role, true);
+                checkEnum(issues, `${path}.role`, assignment.role, siteRoles);
+                checkString(issues, `${path}.user`, assignment.user, true);
+                checkEnum(issues, `${path}.action`, assignment.action, roleAssignmentActions);
+                checkDate(issues, `${path}.startDate`, assignment.startDate);
+                checkDate(issues, `${path}.endDate`, assignment.endDate);
+                if (
+                    !isBlank(assignment.startDate) && !isBlank(assignment.endDate) &&
+                    moment(assignment.endDate).isBefore(assignment.startDate)
+                ) {
+                    issues.push({ path: `${path}.endDate`, code: 'out_of_range', message: `${path}.endDate must not be before ${path}.startDate` });
+                }
+            });
+        }
+    }
+
+    checkString(issues, 'submitter', input.submitter);
+
+    if (!isBlank(input.dryRun) && typeof input.dryRun !== 'boolean') {
+        issues.push({ path: 'dryRun', code: 'invalid_type', message: 'dryRun must be a boolean' });
+    }
+
+    if (checkSection(issues, 'expectedVersion', input.expectedVersion)) {
+        for (const entity of ['site', 'plantConfig', 'routine', 'plantRecord']) {
+            const value = input.expectedVersion[entity];
+            checkNumber(issues, `expectedVersion.${entity}`, value, [0, Number.MAX_SAFE_INTEGER]);
+            if (typeof value === 'number' && !Number.isInteger(value)) {
+                issues.push({ path: `expectedVersion.${entity}`, code: 'invalid_type', message: `expectedVersion.${entity} must be an integer` });
+            }
+        }
+    }
+
+    return issues;
+};
+
+export const assertValidUpdateSiteInput = (input: any) => {
+    const issues = validateUpdateSiteInput(input);
+    if (issues.length) {
+        throw new UpdateSiteValidationError(issues);
+    }
+};
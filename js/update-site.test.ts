@@ -0,0 +1,49 @@
+import UpdateSiteTransaction from './update-site';
+
+const daysFromNow = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+// `scheduled` was saved ahead of its date, so only `initial` carries the isCurrent flag
+const siteConfigVersions = () => {
+    const initial: any = { id: 'siteConfig1', site: 'site1', date: daysFromNow(-60), isCurrent: true, generator: 'generator1', notes: 'initial' };
+    const scheduled: any = { id: 'siteConfig2', site: 'site1', date: daysFromNow(-10), isCurrent: false, generator: 'generator1', notes: 'scheduled' };
+    return { initial, scheduled };
+};
+
+describe('UpdateSiteTransaction', () => {
+    it('builds on a future-dated version once its date has passed and flags the new version', async () => {
+        const { initial, scheduled } = siteConfigVersions();
+        const create = jest.fn(async (collection: string, data: any) => ({ ...data, id: 'siteConfig3' }));
+        const update: any = Object.create(UpdateSiteTransaction.prototype);
+        await update.siteConfigOperations({
+            // the version in effect, as the checkout resolves it by date
+            data: { site: { id: 'site1', siteNum: 'S1' }, siteConfig: scheduled, siteConfigVersions: [initial, scheduled] },
+            input: { siteUpdates: { siteNum: 'S1', generatorAction: 'remove', generatorDetails: { removalDate: daysFromNow(-1) } } },
+            create,
+        });
+
+        expect(create).toHaveBeenCalledTimes(1);
+        const [ collection, created ] = create.mock.calls[0];
+        expect(collection).toBe('siteConfigs');
+        // the scheduled change is kept rather than dropped in favour of the flagged version
+        expect(created).toMatchObject({ notes: 'scheduled', generator: undefined, isCurrent: true });
+        expect(initial.isCurrent).toBe(false);
+        expect(scheduled.isCurrent).toBe(false);
+    });
+
+    it('promotes a version whose date has passed even when the edit adds no version', async () => {
+        const { initial, scheduled } = siteConfigVersions();
+        delete initial.generator;
+        delete scheduled.generator;
+        const create = jest.fn();
+        const update: any = Object.create(UpdateSiteTransaction.prototype);
+        await update.siteConfigOperations({
+            data: { site: { id: 'site1', siteNum: 'S1' }, siteConfig: scheduled, siteConfigVersions: [initial, scheduled] },
+            input: { siteUpdates: { siteNum: 'S1', generatorAction: 'add' } },
+            create,
+        });
+
+        expect(create).not.toHaveBeenCalled();
+        expect(initial.isCurrent).toBe(false);
+        expect(scheduled.isCurrent).toBe(true);
+    });
+});
@@ -2,21 +2,17 @@ import { BatteryRecord } from './../types/battery-record';
 import { string } from 'prop-types';
 import Transaction, { CheckoutCtx, OperationCtx } from './_base';
 import { Store } from '..';
-import createDataStore from '../../data-store';
 import { Site } from '../types/site';
 import { PowerPlant } from '../types/power-plant';
 import { PlantReading } from '../types/shared';
 import { Routine } from '../types/routine';
-import { BatteryType } from '../types/battery-type';
 import { Battery } from '../types/battery';
 import { findByDate } from './utils';
 import createLogger from '../../logger';
-import { MONGO_URL, JWT_SECRET, INTERCOM_SECRET, APP_URL, API_COMPANY, SERVER_PORT, S3_BUCKET, S3_REGION, AUTH_SECRET, FILE_STORE_TYPE, FILE_ROOT, API_URL, MAIL_HOST, MAIL_USER, MAIL_PORT, MAIL_PASS, MAILER_TYPE } from '../../envs';
-import { calcUtilization, findUtilizationStatus } from 'dugo-lib/lib/computers/power-plant';
-import { calcCapacity as bCalcCapacity, findConductanceStatus, findTempStatus } from 'dugo-lib/lib/computers/battery';
-import { calcCapacity as bPCalcCapacity, calcRuntime, findRuntimeStatus, findRuntimeThresholds, calcFloatVoltagePerJar, calcNominalFloatVoltageRanges, findFloatVoltageStatus, findYoungestBatteryTypeByString } from 'dugo-lib/lib/computers/battery-plant';
-import { PlantConfig, BatteryString } from '../types/plant-config';
-import { PlantRecord } from '../types/plant-record';
+import { calcUtilization } from 'dugo-lib/lib/computers/power-plant';
+import { findConductanceStatus } from 'dugo-lib/lib/computers/battery';
+import { findYoungestBatteryTypeByString } from 'dugo-lib/lib/computers/battery-plant';
+import { PlantConfig } from '../types/plant-config';
 import { SiteConfig } from '../types/site-config';
 import { Generator } from '../types/generator';
 import { CommentUpdate } from '../types/log-item';
@@ -24,14 +20,34 @@ import { CompanyConfig } from '../types/company-config';
 import { SiteUserAssociation } from '../types/site-user-association';
 import { LogItem } from '../types/log-item';
 import * as moment from 'moment';
-import percisionRound from 'dugo-lib/lib/utils/percision-round';
 import generator from '../schemas/generator';
-import { getBatteryTypeIdByString } from '../functions/plant-battery-info';
 import { getSns, getSnStatus} from '../../utils/serial-number';
-import calcPercent from 'dugo-lib/lib/utils/calc-percent';
-import { calcActualCapacity } from 'dugo-lib/lib/computers/string';
-import { createConnection } from 'mongoose';
 import { info } from 'winston';
+import ChangeTracker, { ChangeSetDiff } from './change-tracker';
+import { assertValidUpdateSiteInput } from './update-site-validation';
+import { recordAudit } from './site-audit';
+import { calculateRoutineCondition } from './routine-condition';
+import { ConditionEvaluation } from './condition-rules';
+import { calcPlantBatteryHealth } from './battery-health';
+import { readCompanyConfig, CompanyConfigServiceInput } from './company-config-service';
+import { PlantReadingSeries, PlantReadingBucket, MigratablePlantRecord, checkoutReadingSeries } from './plant-reading-series';
+import { GeneratorDetails, generatorFields } from './generator-lifecycle';
+import { RoleAssignment, RoleAssociation, siteRoleLabels, roleAssignmentsOf, applyRoleAssignments, roleChangeNotifications } from './site-roles';
+import { notifyUsers } from './notifications';
+import { notifyConditionChange } from './condition-notifications';
+import { ConflictPolicy, SerialConflict, applySerialAssignments } from './serial-registry';
+import { versionedCollections, assertExpectedVersion } from './versioning';
+import { RegionRollup, assertAssignableRegion, regionChain, checkoutRollups, updateRollups } from './regions';
+import { versionAt, markCurrentVersion } from './site-config-history';
+import {
+    SiteNotFoundError,
+    RoutineNotFoundError,
+    AssociationTypeNotFoundError,
+    GeneratorStateError,
+    RectifiersRequiredError,
+    SiteConfigNotFoundError,
+    UpdateSiteError,
+} from './update-site-errors';
 
 const logger = createLogger({ label: 'Update Stats' });
 
@@ -44,6 +60,8 @@ interface SiteUpdates {
     address: string;
     generatorAction: string;
     generator: string;
+    // model and fuel details of an added or replacing generator, and backdated dates
+    generatorDetails?: GeneratorDetails;
     accessInstructions: string;
     notes: string;
 }
@@ -69,36 +87,101 @@ interface SerialNumberUpdates {
 interface BatteryUpdates {
     serialNumbers: [SerialNumberUpdates];
     batteriesIdsSupplimental: [string];
+    // 'reject' (default) fails the update on any serial conflict, 'flag' skips and logs them
+    onConflict?: ConflictPolicy;
 }
 
 interface GeneralUpdates {
-    primaryTech: string;
+    // shorthand for assigning the primary technician role from now on
+    primaryTech?: string;
+    roleAssignments?: RoleAssignment[];
 }
 
 interface CommentInput {
     serialNumberUpdate?: number,
+    serialNumberConflicts?: SerialConflict[],
     commentUpdates?: any
 }
 
-type UpdateSiteTransactionInput = {
+export type UpdateSiteTransactionInput = {
     siteUpdates: SiteUpdates;
     plantUpdates?: PlantUpdates;
     routineUpdates?: RoutineUpdates;
     batteryUpdates?: BatteryUpdates;
     generalUpdates?: GeneralUpdates;
     companyConfig?: CompanyConfig;
-  };
-
-  type CCtx = CheckoutCtx<Store, UpdateSiteTransactionInput>;
-  type OCtx = OperationCtx<
+    submitter?: string;
+    dryRun?: boolean;
+    // versions the client read; a stale one fails the update with a VersionConflictError
+    expectedVersion?: {
+        site?: number;
+        plantConfig?: number;
+        routine?: number;
+        // the plant record's, which moves on with every write to the plant's readings
+        plantRecord?: number;
+    };
+  } & CompanyConfigServiceInput;
+
+  export type CCtx = CheckoutCtx<Store, UpdateSiteTransactionInput>;
+  export type OCtx = OperationCtx<
     Store,
     UpdateSiteTransactionInput,
     UpdateSiteTransaction['checkout'] extends (ctx: any) => Promise<infer D> ?
       D : never
   >;
 
-  export default class UpdateSiteTransaction extends Transaction<UpdateSiteTransactionInput, string> {
-    protected async checkout ({ checkout, query, queryIds, getStrict, input }: CCtx) {
+  // series a routine edit writes into the plant's readings
+  const routineReadingTypes = ['load', 'voltage', 'temperature', 'utilization'];
+
+  // collections of the documents returned by checkout, used to diff what an update changed
+  export const checkoutCollections = {
+    site: 'sites',
+    siteConfig: 'siteConfigs',
+    siteConfigVersions: 'siteConfigs',
+    generator: 'generators',
+    powerPlant: 'powerPlants',
+    sitePowerPlants: 'powerPlants',
+    sitePlantBatteryInfos: 'plantBatteryInfos',
+    sitePlantConfigs: 'plantConfigs',
+    plantRecord: 'plantRecords',
+    readingBuckets: 'plantReadingBuckets',
+    plantConfig: 'plantConfigs',
+    routine: 'routines',
+    siteRoutines: 'routines',
+    siteLogItems: 'logItems',
+    batteries: 'batteries',
+    roleAssociations: 'siteUserAssociations',
+    siteAssociations: 'siteUserAssociations',
+    regionRollups: 'regionRollups',
+  };
+
+  // a condition that cannot be computed does not fail the update, unless the site is
+  // missing data the update needs, such as its site config
+  const logConditionError = (error: any): undefined => {
+      if (error instanceof UpdateSiteError) {
+          throw error;
+      }
+      logger.error(error);
+      return undefined;
+  };
+
+  // when a generator change takes effect: the removal date for a removal, otherwise the
+  // install date, defaulting to now
+  const generatorEffectiveDate = ({ generatorAction, generatorDetails = {} }: SiteUpdates) => {
+    const date = generatorAction === 'remove' ? generatorDetails.removalDate : generatorDetails.installDate;
+    return date ? moment(date).toDate() : new Date();
+  };
+
+  // the fields of siteUpdates stored on sites and site configs, without the generator change
+  const siteFieldsOf = ({ generatorAction, generatorDetails, ...fields }: SiteUpdates) => fields;
+
+  export default class UpdateSiteTransaction extends Transaction<UpdateSiteTransactionInput, ChangeSetDiff> {
+    protected async checkout (ctx: CCtx) {
+        return this.checkoutSite(ctx);
+    }
+
+    async checkoutSite ({ checkout, query, queryIds, getStrict, input }: CCtx) {
+        assertValidUpdateSiteInput(input);
         const { siteUpdates, generalUpdates } = input;
         const { siteNum } = siteUpdates;
         const [ siteId ] = await queryIds('sites', { filter: { siteNum }, limit: 1 });
@@ -106,28 +189,67 @@ type UpdateSiteTransactionInput = {
         let powerPlant: PowerPlant | undefined;
         let selectedPlantConfig: PlantConfig | undefined;
         let siteConfig: SiteConfig | undefined;
+        let siteConfigVersions: SiteConfig[] = [];
         let generator: Generator | undefined;
         let plantConfig: PlantConfig | undefined;
-        let plantRecord: PlantRecord | undefined;
+        let plantRecord: MigratablePlantRecord | undefined;
+        let readingBuckets: PlantReadingBucket[] = [];
         let routine: Routine | undefined;
+        let isLatestRoutine = false;
         let batteries: Battery[] | undefined;
 
         if (!siteId) {
-            throw new Error('Update Site Transaction: no site id found');
+            throw new SiteNotFoundError(siteNum);
         }
 
         const site: Site = await checkout('sites', siteId!);
+        const expectedVersion = input.expectedVersion || {};
+        assertExpectedVersion('sites', site, expectedVersion.site);
 
         const sitePlantIds = await queryIds('powerPlants', { filter: { site: siteId } });
         const sitePowerPlants = await Promise.all(
             sitePlantIds.map((id) => checkout('powerPlants', id!))
         );
 
+        // a reassignment moves the site's plants, user associations, routines and log items
+        // to the new region
+        const regionChange = !!siteUpdates.region && siteUpdates.region !== site.region;
+        const latestRoutines: Routine[] = [];
+        let siteAssociations: SiteUserAssociation[] = [];
+        let siteRoutines: Routine[] = [];
+        let siteLogItems: LogItem[] = [];
+        if (regionChange) {
+            await assertAssignableRegion({ queryIds, getStrict }, siteUpdates.region);
+            // only the latest routine of each plant counts towards the region rollups
+            for (const _plantId of sitePlantIds) {
+                const [ latestRoutineId ] = await queryIds('routines', { filter: { powerPlant: _plantId }, sort: { date: -1 }, limit: 1 });
+                if (latestRoutineId) {
+                    latestRoutines.push(await getStrict('routines', latestRoutineId));
+                }
+            }
+            const associationIds = await queryIds('siteUserAssociations', { filter: { site: siteId } });
+            siteAssociations = await Promise.all(associationIds.map((id) => checkout('siteUserAssociations', id!)));
+            const routineIds = await queryIds('routines', { filter: { powerPlant: { $in: sitePlantIds } } });
+            siteRoutines = await Promise.all(routineIds.map((id) => checkout('routines', id!)));
+            const logItemIds = await queryIds('logItems', { filter: { site: siteId } });
+            siteLogItems = await Promise.all(logItemIds.map((id) => checkout('logItems', id!)));
+        }
+
         if (siteUpdates.generatorAction) {
             const now = new Date();
-            const _siteConfig = await findByDate('siteConfigs', query, now, { site: siteId, isCurrent: true });
-            siteConfig = await checkout('siteConfigs', _siteConfig.id);
-            if (siteUpdates.generatorAction === 'remove' && siteConfig && siteConfig.generator) {
+            // resolved once so the generator and the site config it ends up in share a date
+            const dateField = siteUpdates.generatorAction === 'remove' ? 'removalDate' : 'installDate';
+            const details = siteUpdates.generatorDetails || {};
+            siteUpdates.generatorDetails = { ...details, [dateField]: details[dateField] ? moment(details[dateField]).toDate() : now };
+            // every version, so the one in effect can be flagged over a stale isCurrent
+            const siteConfigIds = await queryIds('siteConfigs', { filter: { site: siteId } });
+            siteConfigVersions = await Promise.all(siteConfigIds.map((id) => checkout('siteConfigs', id!)));
+            // by date, as a future-dated version is in effect from its date before anything flags it
+            siteConfig = versionAt(siteConfigVersions, now);
+            if (!siteConfig) {
+                throw new SiteConfigNotFoundError(siteNum, now);
+            }
+            if (siteUpdates.generatorAction !== 'add' && siteConfig && siteConfig.generator) {
                 generator = await checkout('generators', siteConfig.generator);
             }
         }
@@ -156,19 +278,30 @@ type UpdateSiteTransactionInput = {
             sitePlantConfigIds.map((id) => checkout('plantConfigs', id!))
         );
 
-        let primaryTechs: SiteUserAssociation[] = [];
-        if (generalUpdates && generalUpdates.primaryTech) {
-            const roleType = 'primary-technician';
-            const [ roleTypeId ] = await queryIds('siteUserAssociationTypes', {
-                filter: { name: roleType }
-            });
-            if (!roleTypeId) {
-                throw new Error('No association type "Primary Technician" found.');
+        // the site's associations of every role being assigned, to end or extend them
+        const roleTypeIds: { [role: string]: string } = {};
+        let roleAssociations: RoleAssociation[] = [];
+        const roleAssignments = roleAssignmentsOf(generalUpdates);
+        if (roleAssignments.length) {
+            for (const role of Array.from(new Set(roleAssignments.map(({ role }) => role)))) {
+                const [ roleTypeId ] = await queryIds('siteUserAssociationTypes', {
+                    filter: { name: role }
+                });
+                if (!roleTypeId) {
+                    throw new AssociationTypeNotFoundError(siteRoleLabels[role] || role);
+                }
+                roleTypeIds[role] = roleTypeId;
+            }
+            const typeIds = Object.keys(roleTypeIds).map((role) => roleTypeIds[role]);
+            if (regionChange) {
+                roleAssociations = siteAssociations.filter((association) => typeIds.includes(association.associationType));
+            }
+            else {
+                const roleAssociationIds = await queryIds('siteUserAssociations', { filter: { site: site.id, associationType: { $in: typeIds } } });
+                roleAssociations = await Promise.all(
+                    roleAssociationIds.map((id) => checkout('siteUserAssociations', id!))
+                );
             }
-            const primaryTechIds = await queryIds('siteUserAssociations', { filter: { site: site.id, associationType: roleTypeId } });
-            primaryTechs = await Promise.all(
-                primaryTechIds.map((id) => checkout('siteUserAssociations', id!))
-            );
         }
 
         if (input.plantUpdates) {
@@ -206,18 +339,41 @@ type UpdateSiteTransactionInput = {
                     }
                 }
             }
-            const [ plantRecordId ] = await queryIds('plantRecords', { filter: { powerPlant: plantId }, limit: 1});
-            if (plantRecordId) {
-                plantRecord = await checkout('plantRecords', plantRecordId);
-            }
-
             if (input.routineUpdates) {
                 const routineDate: Date = new Date(input.routineUpdates.date);
+                if (plantId && input.plantUpdates.latestReading) {
+                    ({ plantRecord, readingBuckets } = await checkoutReadingSeries({ checkout, queryIds }, plantId, routineReadingTypes, [routineDate]));
+                }
                 const routineRead = await findByDate('routines', query, routineDate, { powerPlant: plantId! });
+                if (!routineRead) {
+                    throw new RoutineNotFoundError(siteNum, input.plantUpdates.plantNum, routineDate);
+                }
                 routine = await checkout('routines', routineRead!.id);
+                const [ latestRoutineId ] = await queryIds('routines', { filter: { powerPlant: plantId }, sort: { date: -1 }, limit: 1 });
+                isLatestRoutine = latestRoutineId === routine!.id;
             }
         }
 
+        // rollups of the regions above the site before and after any reassignment
+        let prevRegions: string[] = [];
+        let nextRegions: string[] = [];
+        let regionRollups: RegionRollup[] = [];
+        if (regionChange || isLatestRoutine) {
+            prevRegions = site.region ? await regionChain({ queryIds, getStrict }, site.region) : [];
+            nextRegions = regionChange ? await regionChain({ queryIds, getStrict }, siteUpdates.region) : prevRegions;
+            regionRollups = await checkoutRollups({ checkout, queryIds }, Array.from(new Set([...prevRegions, ...nextRegions])));
+        }
+
+        if (plantConfig) {
+            assertExpectedVersion('plantConfigs', plantConfig, expectedVersion.plantConfig);
+        }
+        if (routine) {
+            assertExpectedVersion('routines', routine, expectedVersion.routine);
+        }
+        if (plantRecord) {
+            assertExpectedVersion('plantRecords', plantRecord, expectedVersion.plantRecord);
+        }
+
         if (input.batteryUpdates && input.batteryUpdates.serialNumbers && input.batteryUpdates.serialNumbers.length) {
             batteries = await Promise.all(
                 input.batteryUpdates.serialNumbers.map((datum) => checkout('batteries', datum.batteryId))
@@ -227,20 +383,61 @@ type UpdateSiteTransactionInput = {
         return {
             site,
             siteConfig,
+            siteConfigVersions,
             generator,
             powerPlant,
             sitePowerPlants,
             sitePlantBatteryInfos,
             sitePlantConfigs,
             plantRecord,
+            readingBuckets,
             plantConfig,
             routine,
             batteries,
-            primaryTechs
+            roleTypeIds,
+            roleAssociations,
+            latestRoutines,
+            siteAssociations,
+            siteRoutines,
+            siteLogItems,
+            isLatestRoutine,
+            prevRegions,
+            nextRegions,
+            regionRollups,
         };
     }
 
-    protected async operation(ctx: OCtx): Promise<string> {
+    /**
+     * Applies the updates, records them as an audit change set and returns a per-entity diff
+     * of what changed. With `dryRun` nothing is audited and the
+     * diff is computed the same way, but created documents are never written and checked-out
+     * documents are restored before the transaction completes.
+     */
+    protected async operation(ctx: OCtx): Promise<ChangeSetDiff> {
+        const dryRun = !!ctx.input.dryRun;
+        const tracker = new ChangeTracker(ctx.data, checkoutCollections);
+        try {
+            await this.applyUpdates(tracker.track(ctx, { dryRun }));
+            const diff = await tracker.diff();
+            if (!dryRun) {
+                tracker.bumpVersions(diff, versionedCollections);
+                await recordAudit(ctx, diff, {
+                    submitter: ctx.input.submitter,
+                    site: ctx.data.site.id,
+                    powerPlant: ctx.data.powerPlant && ctx.data.powerPlant.id,
+                    region: ctx.data.site.region,
+                });
+                await this.notifyChanges(ctx, diff);
+            }
+            return diff;
+        } finally {
+            if (dryRun) {
+                tracker.restore();
+            }
+        }
+    }
+
+    async applyUpdates(ctx: OCtx) {
         const {
             powerPlant,
             routine,
@@ -248,85 +445,29 @@ type UpdateSiteTransactionInput = {
             plantConfig,
             batteries
         } = ctx.data;
-        let worstBlockConductanceHealthNew: number;
-        const stringActualCapacitiesLol: number[] = [];
-        let stringWorstAdmittanceHealth: number=0;
+        let worstBlockConductanceHealthNew: number | undefined;
         let newActualCapacity = 0;
-        let oldestBlockManufacturingDate: Date=new Date();
-        const connection = await createConnection(MONGO_URL);
-        
-        const store = await createDataStore(
-            connection,
-            {
-                jwtSecret: JWT_SECRET,
-                authSecret: AUTH_SECRET,
-                intercomSecret: INTERCOM_SECRET,
-            }
-            );
-            
-            const companyConfigg  = store.companyConfigs.readCurrent();
-            
-            for(let i=0;i<plantConfig!.strings.length;i++)
-            {
-            let battRecord = plantConfig!.strings[i];
-            for(let j=0;j<battRecord.batteries.length;j++)
-            {
-                let batteryBlockId = battRecord.batteries[j];
-                let battery = await ctx.readStrict('batteries',batteryBlockId);
-                let batteryRecord = await ctx.readStrict('batteryRecords', battery.currentRecord);
-                let batteryType = await ctx.readStrict('batteryTypes', battRecord.batteryType);
-                console.log('batteryType: ', batteryType);
-                let batteryConductance = batteryRecord.conductance[batteryRecord.conductance.length - 1].reading;
-                const conductanceHealth = batteryType.conductance ? calcPercent(
-                    batteryConductance, batteryType.conductance!
-                    ) : 0;
-                    console.log('conductanceHealth: ', conductanceHealth);
-                    if (
-                        worstBlockConductanceHealthNew! == undefined                    ) {
-                        worstBlockConductanceHealthNew = conductanceHealth;
-                    }
-                    console.log('worstBlockConductanceHealthNew: ', worstBlockConductanceHealthNew);
-                    if (
-                        stringWorstAdmittanceHealth !== undefined
-                                            ) {
-                        stringWorstAdmittanceHealth = conductanceHealth;
-                    }
-                    console.log('stringWorstAdmittanceHealth: ', stringWorstAdmittanceHealth);
-                    if (
-                        oldestBlockManufacturingDate! === undefined ||
-                        battery.manufacturingDate < oldestBlockManufacturingDate
-                    ) {
-                        oldestBlockManufacturingDate = battery.manufacturingDate;
-                    }
-                    const capacity = bCalcCapacity(
-                        stringWorstAdmittanceHealth,
-                        companyConfigg.batteryCapacityTable
-                        );
-                      if (capacity) {
-                        stringActualCapacitiesLol[j] = batteryType.capacity ? calcActualCapacity(
-                            capacity,
-                            batteryType.capacity!
-                            ) : 0;
-                        }
-                }
-                
-            
+        // an explicit config in the input takes precedence, e.g. to preview a config change
+        const companyConfig = ctx.input.companyConfig || await readCompanyConfig(ctx);
+
+        if (plantConfig) {
+            const batteryHealth = await calcPlantBatteryHealth(ctx, plantConfig, companyConfig);
+            worstBlockConductanceHealthNew = batteryHealth.worstBlockConductanceHealth;
+            newActualCapacity = batteryHealth.actualCapacity;
         }
-         newActualCapacity = bPCalcCapacity(stringActualCapacitiesLol);
 
         const {
             siteUpdates,
             plantUpdates,
             routineUpdates,
             batteryUpdates,
-            companyConfig,
             generalUpdates
         } = ctx.input;
         
         let commentInput: CommentInput = {};
 
         // check previous state condition
-        let prevCondition: number | undefined;
+        let prevEvaluation: ConditionEvaluation | undefined;
         let reading: PlantReading | undefined;
         if (routine && routine.plantReading) {
             reading = routine.plantReading;
@@ -347,11 +488,10 @@ type UpdateSiteTransactionInput = {
             if(reading.actualCapacity == 0 && newActualCapacity != 0) 
             {
                 reading.actualCapacity = newActualCapacity;
-                reading.worstBlockConductanceHealth = worstBlockConductanceHealthNew;
+                reading.worstBlockConductanceHealth = worstBlockConductanceHealthNew!;
             }
-            console.log('reading: ', reading);
 
-            prevCondition = await calculateRoutineCondition(
+            prevEvaluation = await calculateRoutineCondition(
                 ctx,
                 site,
                 routineUpdates.date,
@@ -364,18 +504,15 @@ type UpdateSiteTransactionInput = {
                 utilization,
                 actualCapacity,
                 worstBlockConductanceHealth,
-            ).catch((error) => {
-                logger.error(error);
-                return undefined;
-            });
+            ).catch(logConditionError);
         }
 
         // perform site updates
         const updatedSite = await this.siteOperations(ctx);
         ctx.input = Object.assign(ctx.input, updatedSite);
 
-        if (generalUpdates && generalUpdates.primaryTech) {
-            await this.assignPrimaryTech(ctx);
+        if (roleAssignmentsOf(generalUpdates).length) {
+            await this.assignRoles(ctx);
         }
 
         if (powerPlant && plantUpdates) {
@@ -411,6 +548,9 @@ type UpdateSiteTransactionInput = {
             if (updatedBattery.message) {
                 commentInput.serialNumberUpdate = updatedBattery.message;
             }
+            if (updatedBattery.conflicts.length) {
+                commentInput.serialNumberConflicts = updatedBattery.conflicts;
+            }
         }
 
         // check new state condition
@@ -425,7 +565,7 @@ type UpdateSiteTransactionInput = {
             if(newReading.actualCapacity == 0 && newActualCapacity != 0) 
             {
                 newReading.actualCapacity = newActualCapacity;
-                newReading.worstBlockConductanceHealth = worstBlockConductanceHealthNew;
+                newReading.worstBlockConductanceHealth = worstBlockConductanceHealthNew!;
             }
             const {
                 load,
@@ -437,7 +577,7 @@ type UpdateSiteTransactionInput = {
             } = newReading;
 
 
-            const newCondition = await calculateRoutineCondition(
+            const newEvaluation = await calculateRoutineCondition(
                 ctx,
                 site,
                 routineUpdates.date,
@@ -450,21 +590,32 @@ type UpdateSiteTransactionInput = {
                 utilization,
                 actualCapacity,
                 worstBlockConductanceHealth,
-            ).catch((error) => {
-                logger.error(error);
-                return undefined;
-            });
+            ).catch(logConditionError);
+
+            if (newEvaluation) {
+                routine.condition = newEvaluation.condition;
+                if (ctx.data.isLatestRoutine) {
+                    await updateRollups(ctx, ctx.data.regionRollups, ctx.data.prevRegions, (plants) => {
+                        plants[routine.powerPlant] = newEvaluation.condition;
+                    });
+                }
+            }
 
             if (
-                (prevCondition || prevCondition === 0) &&
-                (newCondition || newCondition === 0) &&
-                (newCondition !== prevCondition)
+                prevEvaluation &&
+                newEvaluation &&
+                (newEvaluation.condition !== prevEvaluation.condition)
             ) {
+                // the breakdowns let an engineer see which rule moved the condition
                 const comment = {
                     readingType: 'condition',
-                    prev: prevCondition.toString(),
-                    new: newCondition.toString(),
-                    manual: false
+                    prev: prevEvaluation.condition.toString(),
+                    new: newEvaluation.condition.toString(),
+                    manual: false,
+                    breakdown: {
+                        prev: prevEvaluation,
+                        new: newEvaluation,
+                    },
                 };
                 commentInput.commentUpdates.push(comment);
             }
@@ -476,39 +627,58 @@ type UpdateSiteTransactionInput = {
         }
 
         // perform comment update
-        if (commentInput && (commentInput.serialNumberUpdate || (commentInput.commentUpdates && commentInput.commentUpdates.length))) {
+        if (commentInput && (
+            commentInput.serialNumberUpdate ||
+            commentInput.serialNumberConflicts ||
+            (commentInput.commentUpdates && commentInput.commentUpdates.length)
+        )) {
             await this.commentOperations(ctx, commentInput);
         }
-        return '';
     }
 
-    async assignPrimaryTech (ctx: OCtx) {
-        const { site } = ctx.data;
+    async assignRoles (ctx: OCtx) {
+        const { site, roleAssociations, roleTypeIds } = ctx.data;
         const { generalUpdates } = ctx.input;
-        if (generalUpdates) {
-            const { primaryTech } = generalUpdates;
-            const roleType = 'primary-technician';
-            const [ roleTypeId ] = await ctx.queryIds('siteUserAssociationTypes', {
-                filter: { name: roleType }
-            });
-            if (!roleTypeId) {
-                throw new Error('No association type "Primary Technician" found.');
-            }
+        await applyRoleAssignments(ctx, site, roleAssociations, roleTypeIds, roleAssignmentsOf(generalUpdates));
+        return;
+    }
 
-            const primaryTechs = ctx.data.primaryTechs;
-            if (primaryTechs.length) {
-                 for (const _primaryTech of primaryTechs) {
-                    ctx.remove(_primaryTech);
-                }
-            }
+    /**
+     * Sends the notifications an applied, audited update calls for: to users whose site role
+     * started or ended, and on escalation or recovery of the condition of the plant's latest
+     * routine. Edits to older routines do not notify.
+     */
+    async notifyChanges (ctx: OCtx, diff: ChangeSetDiff) {
+        await this.notifyRoleChanges(ctx, diff);
+
+        const { site, powerPlant, routine, isLatestRoutine } = ctx.data;
+        const routineDiff = diff.routines && routine && diff.routines.updated.find(({ id }) => id === routine.id);
+        const conditionChange = routineDiff && routineDiff.changes.find(({ field }) => field === 'condition');
+        if (!conditionChange || !isLatestRoutine || conditionChange.before === undefined) {
+            return;
+        }
+        await notifyConditionChange(ctx, {
+            site,
+            powerPlant: powerPlant!,
+            routine: routine!,
+            prev: conditionChange.before,
+            next: conditionChange.after,
+            companyConfig: ctx.input.companyConfig || await readCompanyConfig(ctx),
+        });
+    }
 
-            await ctx.create('siteUserAssociations', {
-                user: primaryTech,
-                site: site.id,
-                associationType: roleTypeId,
-            });
+    /**
+     * Tells the users whose site roles an applied, audited update started or ended.
+     */
+    async notifyRoleChanges (ctx: OCtx, diff: ChangeSetDiff) {
+        const { site, roleAssociations, roleTypeIds } = ctx.data;
+        const roleNames: { [associationType: string]: string } = {};
+        Object.keys(roleTypeIds).forEach((role) => {
+            roleNames[roleTypeIds[role]] = role;
+        });
+        for (const { users, notification } of roleChangeNotifications(diff, roleAssociations, roleNames, site)) {
+            await notifyUsers(ctx, users, notification);
         }
-        return;
     }
 
     async regionOperations (ctx: OCtx) {
@@ -518,6 +688,14 @@ type UpdateSiteTransactionInput = {
             sitePowerPlants,
             sitePlantBatteryInfos,
             sitePlantConfigs,
+            routine,
+            latestRoutines,
+            siteAssociations,
+            siteRoutines,
+            siteLogItems,
+            prevRegions,
+            nextRegions,
+            regionRollups,
         } = ctx.data;
 
         const {
@@ -548,6 +726,38 @@ type UpdateSiteTransactionInput = {
                 config.region = region;
             }
         }
+        for (const association of siteAssociations) {
+            association.region = region;
+        }
+        if (routine) {
+            routine.region = region;
+        }
+        for (const _routine of siteRoutines) {
+            _routine.region = region;
+        }
+        for (const logItem of siteLogItems) {
+            logItem.region = region;
+        }
+
+        // the site's plants leave the regions it no longer falls under and join the new ones
+        // with the condition of their latest routine, as edited by this update if it is one
+        const latestConditions: { [powerPlant: string]: number } = {};
+        for (const latestRoutine of latestRoutines) {
+            const _routine = routine && routine.id === latestRoutine.id ? routine : latestRoutine;
+            if (_routine.condition !== undefined) {
+                latestConditions[_routine.powerPlant] = _routine.condition;
+            }
+        }
+        const leaving = prevRegions.filter((code) => !nextRegions.includes(code));
+        const joining = nextRegions.filter((code) => !prevRegions.includes(code));
+        await updateRollups(ctx, regionRollups, leaving, (plants) => {
+            sitePowerPlants.forEach((plant) => delete plants[plant.id]);
+        });
+        await updateRollups(ctx, regionRollups, joining, (plants) => {
+            Object.keys(latestConditions).forEach((plantId) => {
+                plants[plantId] = latestConditions[plantId];
+            });
+        });
 
         return;
     }
@@ -573,7 +783,7 @@ type UpdateSiteTransactionInput = {
 
         if (siteUpdates.coords) {
             const location = {
-                type: 'point',
+                type: 'Point',
                 coordinates: siteUpdates.coords
             };
             site.location = location;
@@ -590,7 +800,7 @@ type UpdateSiteTransactionInput = {
             site.notes = siteUpdates.notes;
         }
 
-        const updatedSite = Object.assign(site, siteUpdates);
+        const updatedSite = Object.assign(site, siteFieldsOf(siteUpdates));
         return {
             siteUpdates
         };
@@ -599,27 +809,45 @@ type UpdateSiteTransactionInput = {
     async generatorOperations(ctx: OCtx) {
         const {
             site,
+            siteConfig,
             generator
         } = ctx.data;
 
         const {
             siteUpdates
         } = ctx.input;
+        const { generatorAction, generatorDetails = {} } = siteUpdates;
         let _generator: Generator | undefined;
 
-        if (generator && siteUpdates.generatorAction && siteUpdates.generatorAction === 'remove') {
-            generator.removalDate = new Date();
+        if (generatorAction !== 'add' && !generator) {
+            throw new GeneratorStateError(site.siteNum, generatorAction);
+        }
+        if (generatorAction === 'add' && siteConfig && siteConfig.generator) {
+            // a second generator would orphan the installed one; that is what 'replace' is for
+            throw new GeneratorStateError(site.siteNum, generatorAction);
+        }
+
+        const effectiveDate = generatorEffectiveDate(siteUpdates);
+        if (generator && generator.installDate && moment(effectiveDate).isBefore(generator.installDate)) {
+            // a generator cannot be removed before it was installed
+            throw new GeneratorStateError(site.siteNum, generatorAction);
+        }
+
+        if (generator && generatorAction === 'remove') {
+            generator.removalDate = effectiveDate;
             _generator = generator;
         }
-        else if (siteUpdates.generatorAction && siteUpdates.generatorAction === 'add') {
-            _generator = await ctx.create('generators', {
-                site: site.id,
-                installDate: new Date(),
-            });
+        else if (generator && generatorAction === 'replace') {
+            // the swap happens at one instant, so the site is never without a generator
+            generator.removalDate = effectiveDate;
+            _generator = await ctx.create('generators', generatorFields(site.id, { ...generatorDetails, installDate: effectiveDate }));
+        }
+        else if (generatorAction === 'add') {
+            _generator = await ctx.create('generators', generatorFields(site.id, { ...generatorDetails, installDate: effectiveDate }));
         }
 
         siteUpdates.generator = _generator!.id;
-        const updatedSite = Object.assign(site, siteUpdates);
+        const updatedSite = Object.assign(site, siteFieldsOf(siteUpdates));
         return {
             siteUpdates
         };
@@ -628,6 +856,7 @@ type UpdateSiteTransactionInput = {
     async siteConfigOperations(ctx: OCtx) {
         const {
             siteConfig,
+            siteConfigVersions,
             site,
         } = ctx.data;
 
@@ -635,28 +864,29 @@ type UpdateSiteTransactionInput = {
             siteUpdates,
         } = ctx.input;
 
+        const previousGenerator = siteConfig && siteConfig.generator;
         if (siteUpdates.generatorAction && siteConfig) {
-            if (siteUpdates.generatorAction === 'remove') {
-                siteConfig.isCurrent = false;
-                await ctx.create('siteConfigs', {
-                    ...siteConfig,
-                    date: new Date(),
-                    isCurrent: true,
-                    generator: undefined,
-                });
+            // dated with the install or removal so conditions on earlier routines see the change
+            const date = generatorEffectiveDate(siteUpdates);
+            if (moment(date).isBefore(siteConfig.date)) {
+                throw new GeneratorStateError(site.siteNum, siteUpdates.generatorAction);
             }
-            else if (siteUpdates.generatorAction === 'add' && siteUpdates.generator) {
-                siteConfig.isCurrent = false;
-                await ctx.create('siteConfigs', {
-                   ...siteConfig,
-                    date: new Date(),
-                    isCurrent: true,
-                    generator: siteUpdates.generator
-                });
+            const now = new Date();
+            const versions = [...siteConfigVersions];
+            if (siteUpdates.generatorAction === 'remove' || siteUpdates.generator) {
+                // flagged up front so the created document is written as it will stay
+                const inEffect = versionAt(siteConfigVersions, now);
+                versions.push(await ctx.create('siteConfigs', {
+                    ...siteConfig,
+                    date,
+                    isCurrent: !moment(date).isAfter(now) && (!inEffect || !moment(inEffect.date).isAfter(date)),
+                    generator: siteUpdates.generatorAction === 'remove' ? undefined : siteUpdates.generator,
+                }) as SiteConfig);
             }
+            markCurrentVersion(versions, now);
         }
 
-        const updatedSiteConfig = Object.assign(siteConfig, {...siteUpdates, generator: siteUpdates.generatorAction === 'remove' ? siteUpdates.generator : undefined});
+        const updatedSiteConfig = Object.assign(siteConfig, {...siteFieldsOf(siteUpdates), generator: siteUpdates.generatorAction === 'add' ? undefined : previousGenerator});
         return {
             updatedSiteConfig
         };
@@ -666,6 +896,7 @@ type UpdateSiteTransactionInput = {
         const {
             powerPlant,
             plantRecord,
+            readingBuckets,
             plantConfig,
             routine,
             site
@@ -683,7 +914,7 @@ type UpdateSiteTransactionInput = {
         let temperature: number;
         let actualCapacity: number;
         let worstBlockConductanceHealth: number;
-        if (powerPlant && routineUpdates && plantUpdates && plantUpdates.latestReading && plantRecord && plantConfig) {
+        if (powerPlant && routineUpdates && plantUpdates && plantUpdates.latestReading && plantConfig) {
             routineUpdates.latestReading = plantUpdates.latestReading;
             const keys = Object.keys(plantUpdates.latestReading);
 
@@ -691,7 +922,7 @@ type UpdateSiteTransactionInput = {
             const rectifierPowers: number[] = [];
 
             if (!rectifierTypes) {
-                throw new TypeError('rectifiers are required when adding readings');
+                throw new RectifiersRequiredError({ siteNum: site.siteNum, plantNum: plantUpdates.plantNum });
             }
 
             for (const id of rectifierTypes) {
@@ -701,7 +932,8 @@ type UpdateSiteTransactionInput = {
                 }
             }
 
-            const updateReadingAtDate = (plantRecord: PlantRecord, readingType: string, date: string | Date, value: any) => {
+            const series = new PlantReadingSeries(ctx, powerPlant.id, readingBuckets, plantRecord);
+            const updateReadingAtDate = async (readingType: string, date: string | Date, value: any) => {
                 const comment: CommentUpdate = {} as CommentUpdate;
                 comment.readingType = readingType;
                 comment.new = value;
@@ -711,35 +943,12 @@ type UpdateSiteTransactionInput = {
                 else {
                     comment.manual = false;
                 }
-                const momentDate = moment(date);
-                const isoDate = momentDate.toISOString();
-                const isoSeconds = momentDate.valueOf();
-                if (plantRecord[readingType]) {
-                    const sortedRecord = plantRecord[readingType].sort((a, b) => {
-                        const timeA = moment(a[0]).valueOf();
-                        const timeB = moment(b[0]).valueOf();
-                        if (timeA > timeB) {
-                            return -1;
-                        }
-                        if (timeA < timeB) {
-                            return 1;
-                        }
-                        return 0;
-                    });
-                    const readingIndex = sortedRecord.findIndex(([iTime]) => moment(iTime).valueOf() <= isoSeconds);
-                    if (readingIndex < 0) {
-                        throw new Error(`Update Site: no record found of type ${readingType} on ${isoDate}`);
-                    }
-                    const readingDate = sortedRecord[readingIndex][0];
-                    comment.prev = sortedRecord[readingIndex][1];
-                    sortedRecord[readingIndex] = [readingDate, value];
-                    plantRecord[readingType] =  sortedRecord;
+                // the routine's reading replaces the nearest sample at or before its date,
+                // or is backdated into the series when nothing was recorded that early
+                comment.prev = await series.replaceAtOrBefore(readingType, date, value);
 
-                    if (comment.new !== comment.prev) {
-                        commentUpdates.push(comment);
-                    }
-                } else {
-                    throw new Error(`Update Site: no reading type of ${readingType} on PlantRecord`);
+                if (comment.new !== comment.prev) {
+                    commentUpdates.push(comment);
                 }
             };
 
@@ -751,10 +960,10 @@ type UpdateSiteTransactionInput = {
             // console.log('powerPlant: ', JSON.stringify(powerPlant));
             worstBlockConductanceHealth = powerPlant.latestReading!.worstBlockConductanceHealth;
 
-            updateReadingAtDate(plantRecord, 'load', routineUpdates.date, plantUpdates.latestReading.load);
-            updateReadingAtDate(plantRecord, 'voltage', routineUpdates.date, plantUpdates.latestReading.voltage);
-            updateReadingAtDate(plantRecord, 'temperature', routineUpdates.date, plantUpdates.latestReading.temperature);
-            updateReadingAtDate(plantRecord, 'utilization', routineUpdates.date, utilization);
+            await updateReadingAtDate('load', routineUpdates.date, plantUpdates.latestReading.load);
+            await updateReadingAtDate('voltage', routineUpdates.date, plantUpdates.latestReading.voltage);
+            await updateReadingAtDate('temperature', routineUpdates.date, plantUpdates.latestReading.temperature);
+            await updateReadingAtDate('utilization', routineUpdates.date, utilization);
 
             routineUpdates.latestReading.utilization = utilization;
             plantUpdates.latestReading.utilization = utilization;
@@ -814,13 +1023,15 @@ type UpdateSiteTransactionInput = {
         } = ctx.input;
 
         let snStatusInt: number | undefined;
+        let conflicts: SerialConflict[] = [];
         if (batteries && batteries.length && batteryUpdates && batteryUpdates.serialNumbers) {
-            for (const { batteryId, serialNumber } of batteryUpdates.serialNumbers) {
-                const battery = batteries.find((b) => b.id === batteryId);
-                if (battery) {
-                    battery.serialNumber = serialNumber;
-                }
-            }
+            // checked against the registry of serials; rejects the update or flags conflicts
+            const applied = await applySerialAssignments(ctx, batteryUpdates.serialNumbers, batteries, {
+                policy: batteryUpdates.onConflict,
+                submitter: ctx.input.submitter,
+                source: 'update',
+            });
+            conflicts = applied.conflicts;
             let batteriesSupplimental: Battery[] = [];
             if (batteryUpdates.batteriesIdsSupplimental && batteryUpdates.batteriesIdsSupplimental.length) {
                 for (const battery of batteryUpdates.batteriesIdsSupplimental) {
@@ -835,7 +1046,8 @@ type UpdateSiteTransactionInput = {
         const updatedBattery = Object.assign(batteries, batteryUpdates);
         const message = batteryUpdates && batteryUpdates.serialNumbers ? snStatusInt : undefined;
         return {
-            message
+            message,
+            conflicts,
         };
     }
 
@@ -843,176 +1055,35 @@ type UpdateSiteTransactionInput = {
         const { create, input, data } = ctx;
         const submitter = input.submitter;
         const siteId = data.site.id;
-        const plantId = data.powerPlant.id;
+        const plantId = data.powerPlant && data.powerPlant.id;
         let comment: LogItem | undefined;
-        if (comments.commentUpdates.length) {
+        if (comments.commentUpdates && comments.commentUpdates.length) {
             const date = data.routine.editDate;
             comment = create('logItems', {
                 submitter,
                 date,
                 site: siteId,
                 powerPlant: plantId,
+                region: data.site.region,
                 commentUpdates: comments.commentUpdates,
             });
         }
-        if (comments.serialNumberUpdate) {
+        if (comments.serialNumberUpdate || comments.serialNumberConflicts) {
             const date = new Date();
             comment = create('logItems', {
                 submitter,
                 date,
                 site: siteId,
                 powerPlant: plantId,
+                region: data.site.region,
                 type: 'serial-number',
                 commentUpdates: [{
                     readingType: 'serial-number',
                     new: comments.serialNumberUpdate,
                 }],
+                serialNumberConflicts: comments.serialNumberConflicts,
             });
         }
         return comment;
     }
 }
-const calculateRoutineCondition = async (
-    ctx,
-    site,
-    date,
-    routine,
-    plantConfig,
-    companyConfig,
-    load,
-    voltage,
-    temperature,
-    utilization,
-    actualCapacity,
-    worstBlockConductanceHealth,
-    ) => {
-    const siteConfigIds = await ctx.queryIds('siteConfigs', {
-        filter: {
-          site: site.id
-        }
-    }) as string[];
-    const dateSortedSiteConfigs = (await Promise.all(siteConfigIds.map(async (id) => await ctx.readStrict('siteConfigs', id))))
-        .sort(({ date: a}, { date: b}) =>
-          a > b ?
-            -1 :
-          a < b ?
-            1 :
-            0
-        );
-    const siteConfig = dateSortedSiteConfigs.find((config) => config.date.valueOf() <= Date.parse(date));
-    if (!siteConfig) {
-        throw new Error(`No site config found`);
-    }
-
-    const powerPlantType = await ctx.readStrict('powerPlantTypes', plantConfig.powerPlantType);
-    const referenceVoltage = powerPlantType.voltage;
-    const runtime = calcRuntime(
-        actualCapacity, referenceVoltage, load, voltage, companyConfig.runtimeDegradationMultiplier
-    );
-    // console.log('referenceVoltage: ', referenceVoltage);
-    // console.log('companyConfig.runtimeDegradationMultiplier: ', companyConfig.runtimeDegradationMultiplier);
-    // console.log('voltage: ', voltage);
-    // console.log('load: ', load);
-    // console.log('runtime: ', runtime);
-    // console.log('routine: ', routine);
-
-    let overideInt = 0;
-    if (routine.routineUpload) {
-    const routineUpload = await ctx.readStrict('routineUploads', routine.routineUpload);
-    overideInt = routineUpload.conditionOverride ?
-        (
-        routineUpload.conditionOverride === 'warn' ?
-            1 : 2
-        ) :
-        0;
-    }
-
-    let primaryBatTypeId: string | undefined;
-    let primaryBatteryType: BatteryType | undefined;
-    if (plantConfig.strings.length || plantConfig.snmpStrings.length) {
-        let strings: BatteryString[];
-        if (routine.routineType === 'routine') {
-            strings = plantConfig.strings
-        }
-        else if (plantConfig.connectionStatus === 'live') {
-            strings = plantConfig.snmpStrings
-        }
-        else {
-            strings = plantConfig.strings
-        }
-        let batteryIds: string[] = [];
-        for (const string of strings) {
-            batteryIds = [...batteryIds, ...string.batteries];
-        }
-        const batteries = (await Promise.all(batteryIds.map(async (id) => await ctx.readStrict('batteries', id))));
-        primaryBatTypeId = getBatteryTypeIdByString(strings, batteries);
-    }
-    if (primaryBatTypeId!) {
-        primaryBatteryType = await ctx.getStrict('batteryTypes', primaryBatTypeId!);
-    }
-    const thermalProbe = plantConfig.thermalProbe;
-    let floatVoltageStatus = 0;
-
-    if (
-    thermalProbe !== undefined &&
-    (
-        primaryBatteryType &&
-        primaryBatteryType.nominalVPCVoltage !== undefined &&
-        primaryBatteryType.compVoltPerCelsius !== undefined
-    )
-    ) {
-    const floatVoltagePerBlock = calcFloatVoltagePerJar(
-        temperature,
-        thermalProbe,
-        primaryBatteryType as {
-        nominalVPCVoltage: number;
-        compVoltPerCelsius: number;
-        voltage: number;
-        },
-        powerPlantType.model
-    );
-
-    const floatVoltageRanges = calcNominalFloatVoltageRanges(
-        floatVoltagePerBlock,
-        primaryBatteryType.voltage,
-        powerPlantType.voltage,
-        companyConfig.criticalFloatMod
-    );
-
-    floatVoltageStatus = findFloatVoltageStatus(
-        floatVoltageRanges,
-        voltage,
-    );
-    }
-    const runtimeThresholds = plantConfig.optimalRuntimeThresholdsOverride && !plantConfig.optimalRuntimeThresholdsOverride!.length
-        ? findRuntimeThresholds(
-            companyConfig.optimalRuntimeFunctionName,
-            companyConfig.runtimeThresholdTable,
-            {
-                hasGenerator: !!siteConfig.generator,
-                locationType: site.locationType,
-                transmissionConfig: plantConfig.transmissionConfig,
-            }
-    )   : plantConfig.optimalRuntimeThresholdsOverride;
-    const batteryPlantStatus = findRuntimeStatus(
-        percisionRound(runtime, companyConfig.runtimePercision),
-        runtimeThresholds
-    );
-
-    const powerPlantStatus = findUtilizationStatus(
-        percisionRound(utilization, companyConfig.utilizationPercision),
-        companyConfig.utilizationThresholdTable[0]
-    );
-
-    const temperatureStatus = findTempStatus(temperature);
-
-    const condition =  Math.max(
-        overideInt,
-        batteryPlantStatus,
-        powerPlantStatus,
-        floatVoltageStatus,
-        temperatureStatus
-    );
-
-    return condition;
-};
\ No newline at end of file
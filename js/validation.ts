@@ -0,0 +1,119 @@
+import * as moment from 'moment';
+
+export interface ValidationIssue {
+    path: string;
+    code: 'required' | 'invalid_type' | 'out_of_range' | 'invalid_date' | 'invalid_enum' | 'invalid_format' | 'forbidden';
+    message: string;
+}
+
+// sanity bounds for manually entered readings, anything outside is a typo or a unit mix-up
+export const readingRanges: { [readingType: string]: [number, number] } = {
+    load: [0, 10000],
+    voltage: [0, 600],
+    temperature: [-60, 100],
+    utilization: [0, 200],
+    ambientTemperature: [-60, 80],
+    rectifierCount: [0, 1000],
+    acInput: [0, 1000],
+};
+
+export const isObject = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+export const isBlank = (value: any) => value === undefined || value === null || value === '';
+
+export const checkString = (issues: ValidationIssue[], path: string, value: any, required = false) => {
+    if (isBlank(value)) {
+        if (required) {
+            issues.push({ path, code: 'required', message: `${path} is required` });
+        }
+        return;
+    }
+    if (typeof value !== 'string') {
+        issues.push({ path, code: 'invalid_type', message: `${path} must be a string` });
+    }
+};
+
+export const checkEnum = (issues: ValidationIssue[], path: string, value: any, allowed: string[]) => {
+    if (!isBlank(value) && !allowed.includes(value)) {
+        issues.push({ path, code: 'invalid_enum', message: `${path} must be one of ${allowed.join(', ')}` });
+    }
+};
+
+export const checkNumber = (issues: ValidationIssue[], path: string, value: any, [min, max]: [number, number]) => {
+    if (isBlank(value)) {
+        return;
+    }
+    if (typeof value !== 'number' || isNaN(value)) {
+        issues.push({ path, code: 'invalid_type', message: `${path} must be a number` });
+    }
+    else if (value < min || value > max) {
+        issues.push({ path, code: 'out_of_range', message: `${path} must be between ${min} and ${max}` });
+    }
+};
+
+export const checkDate = (issues: ValidationIssue[], path: string, value: any, required = false) => {
+    if (isBlank(value)) {
+        if (required) {
+            issues.push({ path, code: 'required', message: `${path} is required` });
+        }
+        return;
+    }
+    const valid = value instanceof Date ?
+        !isNaN(value.getTime()) :
+        typeof value === 'string' && moment(value, moment.ISO_8601, true).isValid();
+    if (!valid) {
+        issues.push({ path, code: 'invalid_date', message: `${path} must be an ISO 8601 date` });
+    }
+};
+
+export const checkStringArray = (issues: ValidationIssue[], path: string, value: any) => {
+    if (isBlank(value)) {
+        return;
+    }
+    if (!Array.isArray(value)) {
+        issues.push({ path, code: 'invalid_type', message: `${path} must be an array` });
+        return;
+    }
+    value.forEach((item, i) => checkString(issues, `${path}[${i}]`, item, true));
+};
+
+export const checkCoords = (issues: ValidationIssue[], path: string, value: any) => {
+    if (isBlank(value)) {
+        return;
+    }
+    // stored as a GeoJSON point, so coordinates are [longitude, latitude]
+    if (!Array.isArray(value) || value.length !== 2) {
+        issues.push({ path, code: 'invalid_type', message: `${path} must be [longitude, latitude]` });
+        return;
+    }
+    checkNumber(issues, `${path}[0]`, value[0], [-180, 180]);
+    checkNumber(issues, `${path}[1]`, value[1], [-90, 90]);
+};
+
+export const checkSection = (issues: ValidationIssue[], path: string, value: any, required = false) => {
+    if (isBlank(value)) {
+        if (required) {
+            issues.push({ path, code: 'required', message: `${path} is required` });
+        }
+        return false;
+    }
+    if (!isObject(value)) {
+        issues.push({ path, code: 'invalid_type', message: `${path} must be an object` });
+        return false;
+    }
+    return true;
+};
+
+export const checkObjectArray = (issues: ValidationIssue[], path: string, value: any, check: (itemPath: string, item: any) => void) => {
+    if (isBlank(value)) {
+        return;
+    }
+    if (!Array.isArray(value)) {
+        issues.push({ path, code: 'invalid_type', message: `${path} must be an array` });
+        return;
+    }
+    value.forEach((item, i) => {
+        if (checkSection(issues, `${path}[${i}]`, item, true)) {
+            check(`${path}[${i}]`, item);
+        }
+    });
+};
@@ -0,0 +1,29 @@
+import { cloneDeep } from './change-tracker';
+import { VersionConflictError } from './update-site-errors';
+
+// collections whose documents carry a `version`, bumped on every change
+export const versionedCollections = ['sites', 'plantConfigs', 'plantRecords', 'plantReadingBuckets', 'routines', 'companyConfigs'];
+
+// documents written before versioning count as version 0
+export const versionOf = (doc: { version?: number }) => doc.version || 0;
+
+/**
+ * Refuses the write when the client edited an older version of `doc` than the stored one.
+ * The error carries the current document so the client can merge and retry.
+ */
+export const assertExpectedVersion = (entity: string, doc: { id: string, version?: number }, expectedVersion?: number) => {
+    if (expectedVersion === undefined || expectedVersion === null || versionOf(doc) === expectedVersion) {
+        return;
+    }
+    throw new VersionConflictError({
+        entity,
+        entityId: doc.id,
+        expectedVersion,
+        currentVersion: versionOf(doc),
+        current: cloneDeep(doc),
+    });
+};
+
+export const bumpVersion = (doc: { version?: number }) => {
+    doc.version = versionOf(doc) + 1;
+};
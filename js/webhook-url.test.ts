@@ -0,0 +1,55 @@
+import { isPrivateAddress, webhookUrlProblem } from './webhook-url';
+
+describe('isPrivateAddress', () => {
+    it('blocks private, loopback and link-local IPv4 addresses', () => {
+        for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '224.0.0.1']) {
+            expect(isPrivateAddress(address)).toBe(true);
+        }
+        expect(isPrivateAddress('8.8.8.8')).toBe(false);
+    });
+
+    it('blocks private IPv6 addresses', () => {
+        for (const address of ['::', '::1', '[::1]', 'fd00::1', 'fe80::1', 'ff02::1', '64:ff9b:1::a']) {
+            expect(isPrivateAddress(address)).toBe(true);
+        }
+        expect(isPrivateAddress('2001:4860:4860::8888')).toBe(false);
+    });
+
+    it('blocks IPv6 addresses reaching a private IPv4 one, in dotted and hex form', () => {
+        const addresses = [
+            '::ffff:127.0.0.1',
+            '::ffff:7f00:1',
+            '[::ffff:a9fe:a9fe]',
+            '::ffff:0:a00:1',
+            '::7f00:1',
+            '::127.0.0.1',
+            '64:ff9b::a9fe:a9fe',
+            '64:ff9b::192.168.0.1',
+            '2002:c0a8:101::1',
+        ];
+        for (const address of addresses) {
+            expect(isPrivateAddress(address)).toBe(true);
+        }
+        expect(isPrivateAddress('::ffff:808:808')).toBe(false);
+        expect(isPrivateAddress('64:ff9b::808:808')).toBe(false);
+    });
+});
+
+describe('webhookUrlProblem', () => {
+    it('accepts https urls to public hosts', () => {
+        expect(webhookUrlProblem('https://hooks.example.com/notify')).toBeUndefined();
+        expect(webhookUrlProblem('https://[2001:4860:4860::8888]/notify')).toBeUndefined();
+    });
+
+    it('refuses other schemes and local hosts', () => {
+        expect(webhookUrlProblem('http://hooks.example.com/notify')).toBe('must be an https url');
+        expect(webhookUrlProblem('not a url')).toBe('must be a url');
+        expect(webhookUrlProblem('https://localhost/notify')).toBe('must point to a public host');
+    });
+
+    it('refuses mapped addresses the url parser rewrites to hex', () => {
+        for (const url of ['https://[::ffff:127.0.0.1]/', 'https://[::ffff:169.254.169.254]/latest/meta-data', 'https://[::127.0.0.1]/', 'https://[64:ff9b::10.0.0.1]/']) {
+            expect(webhookUrlProblem(url)).toBe('must point to a public host');
+        }
+    });
+});
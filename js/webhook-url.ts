@@ -0,0 +1,131 @@
+import * as dns from 'dns';
+import * as net from 'net';
+import { URL } from 'url';
+
+// IPv4 ranges a webhook must not reach: this host, private networks, carrier-grade NAT,
+// loopback, link-local (cloud metadata), protocol assignments, benchmarking and multicast up
+const privateIPv4Ranges: [string, number][] = [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 3],
+];
+
+// IPv6 ranges a webhook must not reach: unspecified, loopback, local-use NAT64, unique
+// local, link-local and multicast
+const privateIPv6Ranges: [string, number][] = [
+    ['::', 128],
+    ['::1', 128],
+    ['64:ff9b:1::', 48],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8],
+];
+
+const blockList = new net.BlockList();
+privateIPv4Ranges.forEach(([base, bits]) => blockList.addSubnet(base, bits, 'ipv4'));
+privateIPv6Ranges.forEach(([base, bits]) => blockList.addSubnet(base, bits, 'ipv6'));
+
+// the eight 16-bit groups of a valid IPv6 address, a trailing dotted IPv4 part giving two
+const ipv6Groups = (address: string): number[] => {
+    const dotted = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(address);
+    let text = address;
+    if (dotted) {
+        const [ a, b, c, d ] = dotted.slice(1).map(Number);
+        text = `${address.slice(0, dotted.index)}${(a * 256 + b).toString(16)}:${(c * 256 + d).toString(16)}`;
+    }
+    const parse = (part: string) => part ? part.split(':').map((group) => parseInt(group, 16)) : [];
+    const [ head, tail ] = text.split('::');
+    if (tail === undefined) {
+        return parse(head);
+    }
+    const headGroups = parse(head);
+    const tailGroups = parse(tail);
+    return [...headGroups, ...new Array(8 - headGroups.length - tailGroups.length).fill(0), ...tailGroups];
+};
+
+/**
+ * The IPv4 address an IPv6 one carries: mapped (::ffff:0:0/96), translated (::ffff:0:0:0/96),
+ * compatible (::/96), NAT64 (64:ff9b::/96) and 6to4 (2002::/16) addresses reach it. The URL
+ * parser writes these in hex, e.g. [::ffff:7f00:1] for [::ffff:127.0.0.1].
+ */
+const embeddedIPv4 = (groups: number[]): string | undefined => {
+    const zero = (from: number, to: number) => groups.slice(from, to).every((group) => group === 0);
+    const ipv4 = (high: number, low: number) => [high >> 8, high & 255, low >> 8, low & 255].join('.');
+    if (zero(0, 5) && (groups[5] === 0 || groups[5] === 0xffff)) {
+        return ipv4(groups[6], groups[7]);
+    }
+    if (zero(0, 4) && groups[4] === 0xffff && groups[5] === 0) {
+        return ipv4(groups[6], groups[7]);
+    }
+    if (groups[0] === 0x64 && groups[1] === 0xff9b && zero(2, 6)) {
+        return ipv4(groups[6], groups[7]);
+    }
+    if (groups[0] === 0x2002) {
+        return ipv4(groups[1], groups[2]);
+    }
+    return undefined;
+};
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not on the internet,
+ * also when it is an IPv6 address reaching such an IPv4 one.
+ */
+export const isPrivateAddress = (address: string): boolean => {
+    const ip = address.replace(/^\[|\]$/g, '').replace(/%.*$/, '').toLowerCase();
+    if (net.isIPv4(ip)) {
+        return blockList.check(ip, 'ipv4');
+    }
+    if (!net.isIPv6(ip)) {
+        return false;
+    }
+    const embedded = embeddedIPv4(ipv6Groups(ip));
+    return blockList.check(ip, 'ipv6') || (!!embedded && blockList.check(embedded, 'ipv4'));
+};
+
+/**
+ * Why `url` cannot be a webhook, or undefined when it can: webhooks go over https to a
+ * public host. Names are checked again when resolved, see `publicLookup`.
+ */
+export const webhookUrlProblem = (url: string): string | undefined => {
+    let target: URL;
+    try {
+        target = new URL(url);
+    } catch (error) {
+        return 'must be a url';
+    }
+    if (target.protocol !== 'https:') {
+        return 'must be an https url';
+    }
+    const host = target.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    if (host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host)) {
+        return 'must point to a public host';
+    }
+    return undefined;
+};
+
+/**
+ * `dns.lookup` refusing names that resolve to a private address, so a public name cannot be
+ * pointed at the internal network after the url was accepted.
+ */
+export const publicLookup = (hostname: string, options: any, callback: (...args: any[]) => void) => {
+    dns.lookup(hostname, options, (error: any, address: any, family?: number) => {
+        if (error) {
+            callback(error, address, family);
+            return;
+        }
+        const addresses: { address: string }[] = Array.isArray(address) ? address : [{ address }];
+        const blocked = addresses.find((entry) => isPrivateAddress(entry.address));
+        if (blocked) {
+            callback(new Error(`webhook ${hostname} resolves to the private address ${blocked.address}`), address, family);
+            return;
+        }
+        callback(null, address, family);
+    });
+};
@@ -0,0 +1,19 @@
+/**
+ * plantReadingBuckets: one calendar month (UTC) of one reading series of a plant, see
+ * js/plant-reading-series.ts.
+ */
+export default {
+    name: 'plantReadingBuckets',
+    fields: {
+        powerPlant: { type: 'id', ref: 'powerPlants', required: true },
+        readingType: { type: 'string', required: true },
+        bucketStart: { type: 'date', required: true },
+        // [date, value] samples newest first, in chunks of at most 64
+        chunks: { type: 'array', required: true },
+        version: { type: 'number' },
+    },
+    indexes: [
+        // one bucket per plant, series and month; also serves the at-or-before month lookup
+        { fields: { powerPlant: 1, readingType: 1, bucketStart: -1 }, unique: true },
+    ],
+};
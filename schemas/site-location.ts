@@ -0,0 +1,15 @@
+/**
+ * sites: the geospatial index site searches query `location` through, see js/site-search.ts.
+ * The other site fields and indexes are declared with the site schema. Locations must be
+ * GeoJSON Points first, see js/normalize-site-locations.ts.
+ */
+export default {
+    name: 'sites',
+    fields: {
+        // { type: 'Point', coordinates: [longitude, latitude] }
+        location: { type: 'object' },
+    },
+    indexes: [
+        { fields: { location: '2dsphere' } },
+    ],
+};